@@ -38,6 +38,8 @@ import { GrainOverlay, VoidDock } from '../src/components';
 import { COLORS, ANIMATION } from '../src/theme';
 import { initializeDatabase } from '../src/db';
 import { useFocusStore } from '../src/stores/useFocusStore';
+import { usePreferencesStore } from '../src/stores/usePreferencesStore';
+import { NotificationManager } from '../src/utils/NotificationManager';
 
 // Prevent splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
@@ -78,6 +80,26 @@ export default function RootLayout() {
         init();
     }, []);
 
+    // Reminders can drift from the database (OS cleared them, reinstall) - fix them up once per launch.
+    // Waits for the saved notifications switch too, or a switched-off user would get them all back.
+    useEffect(() => {
+        if (!dbReady) return;
+        if (usePreferencesStore.persist.hasHydrated()) {
+            NotificationManager.reconcileReminders();
+            return;
+        }
+        return usePreferencesStore.persist.onFinishHydration(() => {
+            NotificationManager.reconcileReminders();
+        });
+    }, [dbReady]);
+
+    // Hide splash screen immediately if startup failed so the error is visible
+    useEffect(() => {
+        if (dbError || fontError) {
+            SplashScreen.hideAsync();
+        }
+    }, [dbError, fontError]);
+
     // Check if app is ready (fonts loaded + DB ready)
     useEffect(() => {
         if (fontsLoaded && dbReady) {
@@ -109,12 +131,7 @@ export default function RootLayout() {
         transform: [{ scale: cardScale.value }],
     }));
 
-    // Don't render until app is ready
-    if (!appIsReady) {
-        return null;
-    }
-
-    // Show error state
+    // Show error state (before the ready check - a failed migration never becomes ready)
     if (dbError || fontError) {
         return (
             <View style={styles.loadingContainer}>
@@ -127,6 +144,11 @@ export default function RootLayout() {
         );
     }
 
+    // Don't render until app is ready
+    if (!appIsReady) {
+        return null;
+    }
+
     return (
         <SafeAreaProvider>
             <View style={[styles.container, isFocusMode && { backgroundColor: '#000000' }]} onLayout={onLayoutRootView}>
@@ -0,0 +1,254 @@
+/**
+ * Archive Screen
+ *
+ * Lists archived habits with their stats.
+ * Habits can be restored to the active list or deleted for good.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { ArchiveRestore, Trash2 } from 'lucide-react-native';
+import * as Icons from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+
+import { COLORS, TYPOGRAPHY } from '../src/theme';
+import { GlassCard } from '../src/components';
+import { useHabitStore } from '../src/stores';
+import type { Habit } from '../src/db';
+
+// Colors
+const GOLD = '#FFD700';
+
+type ArchivedHabit = Habit & {
+    totalCompletions: number;
+    consistencyScore: number;
+    currentStreak: number;
+};
+
+export default function ArchiveScreen() {
+    const { getArchivedHabits, getHabitDetails, unarchiveHabit, deleteHabit, version } = useHabitStore();
+    const [archivedHabits, setArchivedHabits] = useState<ArchivedHabit[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const loadArchive = async () => {
+        const habits = await getArchivedHabits();
+        const withStats = await Promise.all(habits.map(async habit => {
+            const details = await getHabitDetails(habit.id);
+            return {
+                ...habit,
+                totalCompletions: details.totalCompletions,
+                consistencyScore: details.consistencyScore,
+                currentStreak: details.currentStreak,
+            };
+        }));
+        setArchivedHabits(withStats);
+        setIsLoading(false);
+    };
+
+    useFocusEffect(
+        useCallback(() => {
+            loadArchive();
+        }, [version])
+    );
+
+    const handleRestore = async (habit: ArchivedHabit) => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        await unarchiveHabit(habit.id);
+    };
+
+    const handleDelete = (habit: ArchivedHabit) => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        Alert.alert(
+            "Delete into the void?",
+            `"${habit.title}" and its history will be gone. This cannot be undone.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: 'destructive',
+                    onPress: () => deleteHabit(habit.id),
+                }
+            ]
+        );
+    };
+
+    return (
+        <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+            {/* Header */}
+            <View style={styles.header}>
+                <Text style={styles.title}>ARCHIVE</Text>
+                <Text style={styles.subtitle}>Habits resting in the void</Text>
+            </View>
+
+            {/* Divider */}
+            <View style={styles.divider} />
+
+            {isLoading ? (
+                <ActivityIndicator size="large" color={COLORS.bioOrange} style={{ marginTop: 40 }} />
+            ) : archivedHabits.length === 0 ? (
+                <Text style={styles.emptyText}>Nothing archived.</Text>
+            ) : (
+                archivedHabits.map(habit => {
+                    const isNegative = habit.type === 'negative';
+                    const accentColor = isNegative ? GOLD : COLORS.bioOrange;
+                    const IconComponent = (Icons as any)[habit.iconKey] || Icons.Circle;
+
+                    return (
+                        <GlassCard key={habit.id} style={styles.habitCard}>
+                            {/* Title Row */}
+                            <View style={styles.habitHeader}>
+                                <IconComponent size={20} color={habit.color} strokeWidth={2} />
+                                <View style={styles.habitTitleContainer}>
+                                    <Text style={styles.habitTitle} numberOfLines={1}>{habit.title}</Text>
+                                    {habit.archivedAt && (
+                                        <Text style={styles.habitMeta}>
+                                            Archived {new Date(habit.archivedAt).toLocaleDateString('en-US', {
+                                                month: 'short', day: 'numeric', year: 'numeric'
+                                            })}
+                                        </Text>
+                                    )}
+                                </View>
+                            </View>
+
+                            {/* Stats */}
+                            <View style={styles.statsRow}>
+                                <View style={styles.stat}>
+                                    <Text style={[styles.statValue, { color: accentColor }]}>{habit.currentStreak}</Text>
+                                    <Text style={styles.statLabel}>{isNegative ? 'Clean' : 'Streak'}</Text>
+                                </View>
+                                <View style={styles.stat}>
+                                    <Text style={styles.statValue}>{habit.totalCompletions}</Text>
+                                    <Text style={styles.statLabel}>{isNegative ? 'Failures' : 'Total'}</Text>
+                                </View>
+                                <View style={styles.stat}>
+                                    <Text style={styles.statValue}>{habit.consistencyScore}%</Text>
+                                    <Text style={styles.statLabel}>{isNegative ? 'Abstinence' : 'Consistency'}</Text>
+                                </View>
+                            </View>
+
+                            {/* Actions */}
+                            <View style={styles.actionsRow}>
+                                <Pressable style={styles.restoreButton} onPress={() => handleRestore(habit)}>
+                                    <ArchiveRestore size={16} color={COLORS.voidBlue} strokeWidth={2} />
+                                    <Text style={styles.restoreButtonText}>Restore</Text>
+                                </Pressable>
+                                <Pressable style={styles.deleteButton} onPress={() => handleDelete(habit)}>
+                                    <Trash2 size={18} color={COLORS.mist} opacity={0.5} />
+                                </Pressable>
+                            </View>
+                        </GlassCard>
+                    );
+                })
+            )}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    contentContainer: {
+        paddingHorizontal: 20,
+        paddingBottom: 120,
+    },
+    header: {
+        marginBottom: 8,
+    },
+    title: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.xl,
+        color: COLORS.mist,
+        letterSpacing: 3,
+    },
+    subtitle: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.bioOrange,
+        letterSpacing: 1,
+        marginTop: 4,
+    },
+    divider: {
+        height: 1,
+        backgroundColor: COLORS.mist,
+        opacity: 0.1,
+        marginVertical: 16,
+    },
+    emptyText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.mist,
+        opacity: 0.5,
+        textAlign: 'center',
+        marginTop: 60,
+    },
+    habitCard: {
+        marginBottom: 12,
+    },
+    habitHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        marginBottom: 16,
+    },
+    habitTitleContainer: {
+        flex: 1,
+    },
+    habitTitle: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.mist,
+    },
+    habitMeta: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.4,
+        marginTop: 2,
+    },
+    statsRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        marginBottom: 16,
+    },
+    stat: {
+        alignItems: 'center',
+    },
+    statValue: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+    },
+    statLabel: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.5,
+        marginTop: 2,
+    },
+    actionsRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    restoreButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        backgroundColor: COLORS.bioOrange,
+        paddingVertical: 10,
+        borderRadius: 12,
+    },
+    restoreButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.voidBlue,
+        fontWeight: '600',
+    },
+    deleteButton: {
+        padding: 10,
+    },
+});
@@ -4,10 +4,22 @@
  * A minimalist focus timer with circular progress and avatar eyes.
  * - Normal state: App background with presets
  * - Focus state: Pure OLED black with circular timer, eyes inside, gray timer text
+ *
+ * The timer runs on the wall clock from the session kept in useFocusStore, so it
+ * keeps time in the background and picks up again after the app is closed;
+ * a notification announces the end. Every session is recorded when it
+ * completes or is stopped (useFocusSessionStore).
+ * A session can be linked to a habit, which is logged when the timer runs out.
+ *
+ * Besides the built-in lengths, any countdown length can be picked and saved as a
+ * named preset (FocusDurationSheet); saved presets sit next to the built-in ones.
+ *
+ * Pomodoro mode runs a whole set (see pomodoro.ts) as one session, moving between
+ * work and breaks on its own; breaks get their own eye and ring colors.
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { View, Text, StyleSheet, Pressable, Dimensions, StatusBar } from 'react-native';
+import { View, Text, StyleSheet, Pressable, Dimensions, StatusBar, ScrollView, AppState } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import Animated, {
     useSharedValue,
@@ -16,11 +28,34 @@ import Animated, {
     cancelAnimation,
 } from 'react-native-reanimated';
 import Svg, { Circle, Path, Rect } from 'react-native-svg';
-import { Volume2, VolumeX } from 'lucide-react-native';
+import * as Icons from 'lucide-react-native';
+import { Volume2, VolumeX, Minus, Plus } from 'lucide-react-native';
 
 import { COLORS, TYPOGRAPHY } from '../src/theme';
-import { useFocusStore } from '../src/stores/useFocusStore';
+import { useFocusStore, type ActiveFocusSession } from '../src/stores/useFocusStore';
+import { useFocusSessionStore } from '../src/stores/useFocusSessionStore';
+import { useHabitStore } from '../src/stores/useHabitStore';
+import { FocusDurationSheet } from '../src/components';
+import {
+    getFocusSessionsOn,
+    getFocusedSeconds,
+    getTimerRemainingSeconds,
+    getTimerFocusedSeconds,
+    getTimerPausedMs,
+    getTimerEndsAt,
+    getTodayDateKey,
+    getDateKey,
+    getPomodoroPhases,
+    getPomodoroPosition,
+    getPomodoroSeconds,
+    POMODORO_LIMITS,
+    DEFAULT_FOCUS_MINUTES,
+    type FocusSessionStatus,
+    type PomodoroPhase,
+    type PomodoroSettings,
+} from '../src/db';
 import { SoundManager } from '../src/utils/SoundManager';
+import { NotificationManager } from '../src/utils/NotificationManager';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -28,6 +63,8 @@ const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const OLED_BLACK = '#000000';
 const EYE_COLOR = COLORS.bioOrange;
 const RED_EYE = '#ff4d4d';
+const BREAK_EYE = '#4ecdc4';
+const LONG_BREAK_EYE = '#45b7d1';
 const GRAY_TEXT = 'rgba(255, 255, 255, 0.3)';
 
 // Timer presets in minutes
@@ -39,26 +76,117 @@ const STROKE_WIDTH = 4;
 const RADIUS = (CIRCLE_SIZE - STROKE_WIDTH) / 2;
 const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
 
+// How often the display catches up with the clock while the timer runs
+const TICK_MS = 500;
+
+const getPhaseLabel = (phase: PomodoroPhase, rounds: number) => {
+    if (phase.type === 'shortBreak') return 'SHORT BREAK';
+    if (phase.type === 'longBreak') return 'LONG BREAK';
+    return `FOCUS • ROUND ${phase.round}/${rounds}`;
+};
+
+// Notification for the end of a Pomodoro phase (the set's last one uses the usual message)
+const getPhaseEndAlert = (phase: PomodoroPhase, next: PomodoroPhase | undefined, settings: PomodoroSettings) => {
+    if (!next) return undefined;
+    if (next.type === 'work') {
+        return { title: 'Back to focus', body: `Round ${next.round} of ${settings.rounds} starts now.` };
+    }
+    if (next.type === 'longBreak') {
+        return { title: 'Long break', body: `All ${settings.rounds} rounds done. Rest for ${settings.longBreakMinutes} minutes.` };
+    }
+    return { title: 'Break time', body: `Round ${phase.round} done. Rest for ${settings.shortBreakMinutes} minutes.` };
+};
+
+interface StepperProps {
+    label: string;
+    value: string;
+    onStep: (direction: 1 | -1) => void;
+}
+
+// A Pomodoro setting with - / + buttons
+const Stepper: React.FC<StepperProps> = ({ label, value, onStep }) => (
+    <View style={styles.stepper}>
+        <Text style={styles.stepperLabel}>{label}</Text>
+        <View style={styles.stepperRow}>
+            <Pressable onPress={() => onStep(-1)} hitSlop={10}>
+                <Minus size={16} color={COLORS.mist} strokeWidth={2} />
+            </Pressable>
+            <Text style={styles.stepperValue}>{value}</Text>
+            <Pressable onPress={() => onStep(1)} hitSlop={10}>
+                <Plus size={16} color={COLORS.mist} strokeWidth={2} />
+            </Pressable>
+        </View>
+    </View>
+);
+
 export default function FocusScreen() {
     // Focus store for hiding VoidDock and sound preference
     const setFocusMode = useFocusStore(state => state.setFocusMode);
     const soundEnabled = useFocusStore(state => state.soundEnabled);
     const toggleSound = useFocusStore(state => state.toggleSound);
+    const timerMode = useFocusStore(state => state.timerMode);
+    const setTimerMode = useFocusStore(state => state.setTimerMode);
+    const pomodoroSettings = useFocusStore(state => state.pomodoroSettings);
+    const setPomodoroSettings = useFocusStore(state => state.setPomodoroSettings);
+    const customPresets = useFocusStore(state => state.customPresets);
+
+    // The timer in progress (persisted, so it survives the app being closed)
+    const activeSession = useFocusStore(state => state.activeSession);
+    const startSession = useFocusStore(state => state.startSession);
+    const pauseSession = useFocusStore(state => state.pauseSession);
+    const resumeSession = useFocusStore(state => state.resumeSession);
+
+    // Session history
+    const sessions = useFocusSessionStore(state => state.sessions);
+    const loadSessions = useFocusSessionStore(state => state.loadSessions);
+
+    // Habit to log when the timer runs out (Build habits only)
+    const habits = useHabitStore(state => state.habits);
+    const loadHabits = useHabitStore(state => state.loadHabits);
+    const [selectedHabitId, setSelectedHabitId] = useState<string | null>(null);
+    const focusHabits = habits.filter(h => h.type !== 'negative');
+    const linkedHabit = focusHabits.find(h => h.id === selectedHabitId) ?? null;
 
     // Timer state
-    const [selectedMinutes, setSelectedMinutes] = useState(30);
-    const [remainingSeconds, setRemainingSeconds] = useState(30 * 60);
-    const [totalSeconds, setTotalSeconds] = useState(30 * 60);
-    const [isRunning, setIsRunning] = useState(false);
+    const [selectedMinutes, setSelectedMinutes] = useState(DEFAULT_FOCUS_MINUTES);
+    // Saved preset the length was picked from (built-in lengths and one-off lengths have none)
+    const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+    const [isDurationSheetVisible, setDurationSheetVisible] = useState(false);
+    const selectedPreset = customPresets.find(p => p.id === selectedPresetId) ?? null;
+    const isCustomLength = !selectedPreset && !PRESETS.includes(selectedMinutes);
     const [isFocusMode, setIsFocusModeLocal] = useState(false);
-    const [isPaused, setIsPaused] = useState(false);
-    const timerRef = useRef<NodeJS.Timeout | null>(null);
+    // The session that just ran out, shown until STOP is pressed
+    const [completedSession, setCompletedSession] = useState<ActiveFocusSession | null>(null);
+    // Wall-clock time the display is drawn for
+    const [now, setNow] = useState(Date.now());
+
+    const shownSession = activeSession ?? completedSession;
+    // The Pomodoro set on screen: the session's, or the one START would run
+    const pomodoro = shownSession
+        ? shownSession.pomodoro ?? null
+        : timerMode === 'pomodoro' ? pomodoroSettings : null;
+    const totalSeconds = shownSession?.plannedSeconds ?? (pomodoro ? getPomodoroSeconds(pomodoro) : selectedMinutes * 60);
+    const remainingSeconds = completedSession
+        ? 0
+        : activeSession ? getTimerRemainingSeconds(activeSession, now) : totalSeconds;
+    const isPaused = activeSession !== null && activeSession.pausedAt !== null;
+    const isRunning = activeSession !== null && !isPaused;
+    const sessionHabit = habits.find(h => h.id === shownSession?.habitId) ?? null;
+
+    // Current Pomodoro phase (null for a countdown)
+    const position = pomodoro ? getPomodoroPosition(pomodoro, totalSeconds - remainingSeconds) : null;
+    const phaseIndex = position?.index ?? 0;
+    const isBreak = position !== null && position.phase.type !== 'work';
+    // Time left in the current phase (or the whole countdown)
+    const shownSeconds = position ? position.phaseRemainingSeconds : remainingSeconds;
 
     // Animation values
     const breathScale = useSharedValue(1);
 
-    // Calculate progress (0 to 1)
-    const progress = 1 - (remainingSeconds / totalSeconds);
+    // Calculate progress (0 to 1) through the phase or countdown
+    const progress = position
+        ? position.phaseElapsedSeconds / position.phase.seconds
+        : 1 - (remainingSeconds / totalSeconds);
 
     // Eye size based on progress (starts small, grows to full)
     const minEyeHeight = 4;
@@ -100,14 +228,48 @@ export default function FocusScreen() {
         setFocusMode(false);
     };
 
+    // End the session in progress and record it. Returns the session, or null if there was none.
+    const finishSession = useCallback((status: FocusSessionStatus) => {
+        const session = useFocusStore.getState().activeSession;
+        if (!session) return null;
+        useFocusStore.getState().endSession();
+        NotificationManager.cancelFocusEnd();
+
+        const at = Date.now();
+        const focusedSeconds = getTimerFocusedSeconds(session, at);
+        // A session that ran out while the app was closed ended on time, not when it was reopened
+        const endedAt = status === 'completed' ? Math.min(at, getTimerEndsAt(session, at)) : at;
+        const finalPosition = session.pomodoro ? getPomodoroPosition(session.pomodoro, focusedSeconds) : null;
+
+        useFocusSessionStore.getState().recordSession({
+            habitId: session.habitId,
+            startedAt: new Date(session.startedAt),
+            endedAt: new Date(endedAt),
+            plannedSeconds: session.plannedSeconds,
+            actualSeconds: focusedSeconds,
+            pausedSeconds: getTimerPausedMs(session, at) / 1000,
+            status,
+            completedRounds: finalPosition?.completedRounds ?? null,
+        });
+
+        // Breaks don't count towards the habit
+        if (status === 'completed' && session.habitId) {
+            useHabitStore.getState().logFocusSession(
+                session.habitId,
+                finalPosition?.workSeconds ?? focusedSeconds,
+                getDateKey(new Date(endedAt))
+            );
+        }
+        return session;
+    }, []);
+
     // Start timer
     const startTimer = async () => {
-        if (remainingSeconds <= 0) return;
-
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        setIsRunning(true);
+        const session = startSession(totalSeconds, linkedHabit?.id ?? null, pomodoro);
+        setCompletedSession(null);
+        setNow(session.startedAt);
         enterFocusMode();
-        setIsPaused(false);
         startBreathing();
 
         // Start focus sound if enabled
@@ -119,8 +281,8 @@ export default function FocusScreen() {
     // Pause timer
     const pauseTimer = async () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        setIsRunning(false);
-        setIsPaused(true);
+        pauseSession();
+        NotificationManager.cancelFocusEnd();
         stopBreathing();
         await SoundManager.stopFocusSound();
     };
@@ -128,24 +290,22 @@ export default function FocusScreen() {
     // Resume timer
     const resumeTimer = async () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        setIsRunning(true);
-        setIsPaused(false);
+        resumeSession();
+        setNow(Date.now());
         startBreathing();
 
-        // Resume focus sound if enabled
-        if (soundEnabled) {
+        // Resume focus sound if enabled (breaks are quiet)
+        if (soundEnabled && !isBreak) {
             await SoundManager.playFocusSound();
         }
     };
 
-    // Stop timer (yellow button)
+    // Stop timer (yellow button); a session that hasn't run out is recorded as aborted
     const stopTimer = async () => {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-        setIsRunning(false);
+        finishSession('aborted');
+        setCompletedSession(null);
         exitFocusMode();
-        setIsPaused(false);
-        setRemainingSeconds(selectedMinutes * 60);
-        setTotalSeconds(selectedMinutes * 60);
         stopBreathing();
         await SoundManager.stopFocusSound();
     };
@@ -158,48 +318,105 @@ export default function FocusScreen() {
         if (soundEnabled && isRunning) {
             // Currently on, turning off
             await SoundManager.stopFocusSound();
-        } else if (!soundEnabled && isRunning) {
+        } else if (!soundEnabled && isRunning && !isBreak) {
             // Currently off, turning on
             await SoundManager.playFocusSound();
         }
     };
 
-    // Timer tick effect
+    // Keep the display in step with the clock while running
+    useEffect(() => {
+        if (!isRunning) return;
+        const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+        return () => clearInterval(interval);
+    }, [isRunning]);
+
+    // Schedule the alert for the end of the current phase (or countdown) while running
+    useEffect(() => {
+        const session = useFocusStore.getState().activeSession;
+        if (!isRunning || !session) return;
+
+        const at = Date.now();
+        if (!session.pomodoro) {
+            NotificationManager.scheduleFocusEnd(new Date(getTimerEndsAt(session, at)));
+            return;
+        }
+        const current = getPomodoroPosition(session.pomodoro, getTimerFocusedSeconds(session, at));
+        const next = getPomodoroPhases(session.pomodoro)[current.index + 1];
+        NotificationManager.scheduleFocusEnd(
+            new Date(at + current.phaseRemainingSeconds * 1000),
+            getPhaseEndAlert(current.phase, next, session.pomodoro)
+        );
+    }, [isRunning, phaseIndex, activeSession?.startedAt]);
+
+    // Moving to the next Pomodoro phase: buzz, and only play the focus sound while working
+    const lastPhaseRef = useRef<number | null>(null);
     useEffect(() => {
-        if (isRunning && remainingSeconds > 0) {
-            timerRef.current = setTimeout(() => {
-                setRemainingSeconds(prev => prev - 1);
-            }, 1000);
-        } else if (remainingSeconds === 0 && isRunning) {
-            setIsRunning(false);
-            stopBreathing();
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        const previous = lastPhaseRef.current;
+        lastPhaseRef.current = isRunning ? phaseIndex : null;
+        if (!isRunning || previous === null || previous === phaseIndex) return;
+
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        if (isBreak) {
             SoundManager.stopFocusSound();
+        } else if (soundEnabled) {
+            SoundManager.playFocusSound();
         }
+    }, [isRunning, phaseIndex]);
 
-        return () => {
-            if (timerRef.current) clearTimeout(timerRef.current);
-        };
-    }, [isRunning, remainingSeconds, stopBreathing]);
+    // Catch up straight away when the app comes back to the foreground
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') setNow(Date.now());
+        });
+        return () => subscription.remove();
+    }, []);
+
+    // Timer ran out (possibly while the app was in the background or closed)
+    useEffect(() => {
+        if (!isRunning || remainingSeconds > 0) return;
+
+        setCompletedSession(finishSession('completed'));
+        stopBreathing();
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        SoundManager.stopFocusSound();
+    }, [isRunning, remainingSeconds, stopBreathing, finishSession]);
+
+    // Pick up a session still going from before the app was closed
+    useEffect(() => {
+        if (!activeSession || isFocusMode) return;
+
+        const at = Date.now();
+        setNow(at);
+        enterFocusMode();
+        // One that has run out in the meantime is finished by the effect above
+        if (activeSession.pausedAt === null && getTimerRemainingSeconds(activeSession, at) > 0) {
+            startBreathing();
+            const restored = activeSession.pomodoro
+                ? getPomodoroPosition(activeSession.pomodoro, getTimerFocusedSeconds(activeSession, at))
+                : null;
+            if (soundEnabled && (!restored || restored.phase.type === 'work')) {
+                SoundManager.playFocusSound();
+            }
+        }
+    }, [activeSession, isFocusMode]);
 
-    // Cleanup on unmount
+    useEffect(() => {
+        loadSessions();
+        if (habits.length === 0) {
+            loadHabits();
+        }
+    }, [loadSessions]);
+
+    // Cleanup on unmount (a running session carries on and is picked up again)
     useEffect(() => {
         return () => {
             exitFocusMode();
             if (breathIntervalRef.current) clearInterval(breathIntervalRef.current);
-            if (timerRef.current) clearTimeout(timerRef.current);
             SoundManager.stopFocusSound();
         };
     }, []);
 
-    // Update remaining seconds when preset changes
-    useEffect(() => {
-        if (!isRunning && !isFocusMode) {
-            setRemainingSeconds(selectedMinutes * 60);
-            setTotalSeconds(selectedMinutes * 60);
-        }
-    }, [selectedMinutes, isRunning, isFocusMode]);
-
     // Format time as MM:SS
     const formatTime = (seconds: number): string => {
         const mins = Math.floor(seconds / 60);
@@ -219,12 +436,24 @@ export default function FocusScreen() {
     const getEyeColor = () => {
         if (remainingSeconds === 0) return EYE_COLOR;
         if (isPaused) return RED_EYE;
+        if (position?.phase.type === 'longBreak') return LONG_BREAK_EYE;
+        if (position?.phase.type === 'shortBreak') return BREAK_EYE;
         return EYE_COLOR;
     };
 
+    // Change one Pomodoro setting by its step
+    const stepPomodoro = (key: keyof PomodoroSettings, direction: 1 | -1) => {
+        Haptics.selectionAsync();
+        setPomodoroSettings({ [key]: pomodoroSettings[key] + direction * POMODORO_LIMITS[key].step });
+    };
+
+    // Today's recorded sessions, for the summary under the timer
+    const todaySessions = getFocusSessionsOn(sessions, getTodayDateKey());
+    const todayMinutes = Math.round(getFocusedSeconds(todaySessions) / 60);
+
     const eyeColor = getEyeColor();
     const isComplete = remainingSeconds === 0;
-    const progressColor = isPaused ? RED_EYE : COLORS.bioOrange;
+    const progressColor = isPaused ? RED_EYE : eyeColor;
 
     // Focus Mode UI (pure black with circular timer)
     if (isFocusMode) {
@@ -232,6 +461,18 @@ export default function FocusScreen() {
             <View style={styles.focusContainer}>
                 <StatusBar backgroundColor={OLED_BLACK} barStyle="light-content" />
 
+                {/* Linked habit and Pomodoro phase */}
+                <View style={styles.focusHeader}>
+                    {sessionHabit && (
+                        <Text style={styles.focusHabit} numberOfLines={1}>{sessionHabit.title.toUpperCase()}</Text>
+                    )}
+                    {pomodoro && position && !isComplete && (
+                        <Text style={[styles.phaseLabel, { color: eyeColor }]}>
+                            {getPhaseLabel(position.phase, pomodoro.rounds)}
+                        </Text>
+                    )}
+                </View>
+
                 {/* Circular Timer with Eyes */}
                 {/* Sound Prompt in Focus Mode (Top Right) */}
                 <Pressable
@@ -319,7 +560,7 @@ export default function FocusScreen() {
                         )}
 
                         {/* Timer text inside circle */}
-                        <Text style={styles.inCircleTimer}>{formatTime(remainingSeconds)}</Text>
+                        <Text style={styles.inCircleTimer}>{formatTime(shownSeconds)}</Text>
                     </Animated.View>
                 </Pressable>
 
@@ -349,32 +590,147 @@ export default function FocusScreen() {
             <Text style={styles.title}>VOID FOCUS</Text>
             <Text style={styles.subtitle}>Deep work timer</Text>
 
+            {/* Countdown or Pomodoro */}
+            <View style={styles.modeRow}>
+                {([['countdown', 'TIMER'], ['pomodoro', 'POMODORO']] as const).map(([mode, label]) => (
+                    <Pressable
+                        key={mode}
+                        style={[styles.modeButton, timerMode === mode && styles.modeButtonActive]}
+                        onPress={() => {
+                            Haptics.selectionAsync();
+                            setTimerMode(mode);
+                        }}
+                    >
+                        <Text style={[styles.modeText, timerMode === mode && styles.modeTextActive]}>{label}</Text>
+                    </Pressable>
+                ))}
+            </View>
+
             {/* Timer Display */}
             <View style={styles.timerContainer}>
-                <Text style={styles.timer}>{formatTime(remainingSeconds)}</Text>
+                <Text style={styles.timer}>{formatTime(shownSeconds)}</Text>
             </View>
 
-            {/* Presets */}
-            <View style={styles.presetsContainer}>
-                {PRESETS.map((mins) => (
+            {/* Habit to log */}
+            {focusHabits.length > 0 && (
+                <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    style={styles.habitScroll}
+                    contentContainerStyle={styles.habitScrollContent}
+                >
+                    <Pressable
+                        style={[styles.habitChip, !linkedHabit && styles.habitChipActive]}
+                        onPress={() => {
+                            Haptics.selectionAsync();
+                            setSelectedHabitId(null);
+                        }}
+                    >
+                        <Text style={[styles.habitChipText, !linkedHabit && styles.habitChipTextActive]}>No habit</Text>
+                    </Pressable>
+                    {focusHabits.map(habit => {
+                        const isSelected = linkedHabit?.id === habit.id;
+                        const IconComponent = (Icons as any)[habit.iconKey] || Icons.Circle;
+                        return (
+                            <Pressable
+                                key={habit.id}
+                                style={[styles.habitChip, isSelected && styles.habitChipActive]}
+                                onPress={() => {
+                                    Haptics.selectionAsync();
+                                    setSelectedHabitId(habit.id);
+                                }}
+                            >
+                                <IconComponent size={14} color={isSelected ? COLORS.voidBlue : habit.color} strokeWidth={2} />
+                                <Text
+                                    style={[styles.habitChipText, isSelected && styles.habitChipTextActive]}
+                                    numberOfLines={1}
+                                >
+                                    {habit.title}
+                                </Text>
+                            </Pressable>
+                        );
+                    })}
+                </ScrollView>
+            )}
+
+            {/* Presets, or the Pomodoro set */}
+            {pomodoro ? (
+                <View style={styles.pomodoroGrid}>
+                    <Stepper label="WORK" value={`${pomodoro.workMinutes}m`} onStep={d => stepPomodoro('workMinutes', d)} />
+                    <Stepper label="BREAK" value={`${pomodoro.shortBreakMinutes}m`} onStep={d => stepPomodoro('shortBreakMinutes', d)} />
+                    <Stepper label="LONG" value={`${pomodoro.longBreakMinutes}m`} onStep={d => stepPomodoro('longBreakMinutes', d)} />
+                    <Stepper label="ROUNDS" value={String(pomodoro.rounds)} onStep={d => stepPomodoro('rounds', d)} />
+                </View>
+            ) : (
+                <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    style={styles.presetScroll}
+                    contentContainerStyle={styles.presetsContainer}
+                >
+                    {PRESETS.map((mins) => {
+                        const isSelected = !selectedPreset && selectedMinutes === mins;
+                        return (
+                            <Pressable
+                                key={mins}
+                                style={[
+                                    styles.presetButton,
+                                    isSelected && styles.presetButtonActive
+                                ]}
+                                onPress={() => {
+                                    Haptics.selectionAsync();
+                                    setSelectedMinutes(mins);
+                                    setSelectedPresetId(null);
+                                }}
+                            >
+                                <Text style={[
+                                    styles.presetText,
+                                    isSelected && styles.presetTextActive
+                                ]}>{mins}m</Text>
+                            </Pressable>
+                        );
+                    })}
+                    {customPresets.map((preset) => {
+                        const isSelected = selectedPreset?.id === preset.id;
+                        return (
+                            <Pressable
+                                key={preset.id}
+                                style={[
+                                    styles.presetButton,
+                                    isSelected && styles.presetButtonActive
+                                ]}
+                                onPress={() => {
+                                    Haptics.selectionAsync();
+                                    setSelectedMinutes(preset.minutes);
+                                    setSelectedPresetId(preset.id);
+                                }}
+                            >
+                                <Text style={[
+                                    styles.presetText,
+                                    isSelected && styles.presetTextActive
+                                ]} numberOfLines={1}>{preset.name} · {preset.minutes}m</Text>
+                            </Pressable>
+                        );
+                    })}
+                    {/* Any other length, or a new preset */}
                     <Pressable
-                        key={mins}
                         style={[
                             styles.presetButton,
-                            selectedMinutes === mins && styles.presetButtonActive
+                            isCustomLength && styles.presetButtonActive
                         ]}
                         onPress={() => {
                             Haptics.selectionAsync();
-                            setSelectedMinutes(mins);
+                            setDurationSheetVisible(true);
                         }}
                     >
-                        <Text style={[
-                            styles.presetText,
-                            selectedMinutes === mins && styles.presetTextActive
-                        ]}>{mins}m</Text>
+                        {isCustomLength ? (
+                            <Text style={[styles.presetText, styles.presetTextActive]}>{selectedMinutes}m</Text>
+                        ) : (
+                            <Plus size={18} color={COLORS.mist} strokeWidth={2} />
+                        )}
                     </Pressable>
-                ))}
-            </View>
+                </ScrollView>
+            )}
 
             {/* Actions Row */}
             <View style={styles.actionsRow}>
@@ -399,8 +755,25 @@ export default function FocusScreen() {
                 </Pressable>
             </View>
 
+            {/* Today's sessions */}
+            {todaySessions.length > 0 && (
+                <Text style={styles.todaySummary}>
+                    TODAY • {todaySessions.length} {todaySessions.length === 1 ? 'SESSION' : 'SESSIONS'} • {todayMinutes} MIN
+                </Text>
+            )}
+
             {/* Spacer for VoidDock */}
             <View style={{ height: 140 }} />
+
+            <FocusDurationSheet
+                visible={isDurationSheetVisible}
+                minutes={selectedMinutes}
+                onClose={() => setDurationSheetVisible(false)}
+                onSelect={(minutes, presetId) => {
+                    setSelectedMinutes(minutes);
+                    setSelectedPresetId(presetId);
+                }}
+            />
         </View>
     );
 }
@@ -427,7 +800,32 @@ const styles = StyleSheet.create({
         color: COLORS.bioOrange,
         opacity: 0.7,
         letterSpacing: 2,
-        marginBottom: 60,
+        marginBottom: 32,
+    },
+    modeRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginBottom: 24,
+    },
+    modeButton: {
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    modeButtonActive: {
+        borderColor: COLORS.bioOrange,
+        backgroundColor: 'rgba(255, 159, 28, 0.1)',
+    },
+    modeText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        letterSpacing: 2,
+    },
+    modeTextActive: {
+        color: COLORS.bioOrange,
     },
     timerContainer: {
         marginBottom: 40,
@@ -438,12 +836,53 @@ const styles = StyleSheet.create({
         color: COLORS.mist,
         letterSpacing: 4,
     },
-    presetsContainer: {
+    habitScroll: {
+        flexGrow: 0,
+        alignSelf: 'stretch',
+        marginBottom: 24,
+    },
+    habitScrollContent: {
+        gap: 8,
+        paddingHorizontal: 4,
+    },
+    habitChip: {
         flexDirection: 'row',
-        gap: 16,
+        alignItems: 'center',
+        gap: 6,
+        maxWidth: 200,
+        paddingVertical: 10,
+        paddingHorizontal: 16,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    habitChipActive: {
+        backgroundColor: COLORS.bioOrange,
+        borderColor: COLORS.bioOrange,
+    },
+    habitChipText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+    },
+    habitChipTextActive: {
+        color: COLORS.voidBlue,
+    },
+    presetScroll: {
+        flexGrow: 0,
+        alignSelf: 'stretch',
         marginBottom: 48,
     },
+    presetsContainer: {
+        flexGrow: 1,
+        justifyContent: 'center',
+        gap: 16,
+        paddingHorizontal: 4,
+    },
     presetButton: {
+        justifyContent: 'center',
+        minHeight: 50,
+        maxWidth: 220,
         paddingVertical: 14,
         paddingHorizontal: 28,
         borderRadius: 24,
@@ -463,6 +902,43 @@ const styles = StyleSheet.create({
         color: COLORS.voidBlue,
         fontWeight: 'bold',
     },
+    pomodoroGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        columnGap: 24,
+        rowGap: 16,
+        maxWidth: 280,
+        marginBottom: 40,
+    },
+    stepper: {
+        alignItems: 'center',
+        gap: 8,
+    },
+    stepperLabel: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 1,
+    },
+    stepperRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 8,
+        paddingHorizontal: 10,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    stepperValue: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+        minWidth: 28,
+        textAlign: 'center',
+    },
     startButton: {
         backgroundColor: COLORS.bioOrange,
         paddingVertical: 18,
@@ -493,6 +969,14 @@ const styles = StyleSheet.create({
         borderColor: COLORS.bioOrange,
         backgroundColor: 'rgba(255, 159, 28, 0.1)',
     },
+    todaySummary: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 2,
+        marginTop: 32,
+    },
 
     // Focus mode styles
     focusContainer: {
@@ -511,6 +995,23 @@ const styles = StyleSheet.create({
         zIndex: 1000,
     },
 
+    focusHeader: {
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 40,
+    },
+    focusHabit: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: GRAY_TEXT,
+        letterSpacing: 2,
+        maxWidth: CIRCLE_SIZE,
+    },
+    phaseLabel: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        letterSpacing: 2,
+    },
     circleContainer: {
         width: CIRCLE_SIZE,
         height: CIRCLE_SIZE,
@@ -3,7 +3,7 @@
  * 
  * Shows deep analytics for a specific habit:
  * 1. Full Calendar view with month navigation
- * 2. Consistency Graph (Rolling 7-day average)
+ * 2. Consistency Graph (Rolling 7-day share of scheduled days completed)
  * 3. Stats grid
  */
 
@@ -11,37 +11,37 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Dimensions, ActivityIndicator, Alert, Modal } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Svg, Path, Defs, LinearGradient, Stop } from 'react-native-svg';
-import { ArrowLeft, Calendar, Trash2, ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { ArrowLeft, Calendar, Trash2, ChevronLeft, ChevronRight, Pencil } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
 import { COLORS, TYPOGRAPHY, BORDER_RADIUS } from '../../src/theme';
 import { useHabitStore } from '../../src/stores';
-import { GlassCard } from '../../src/components';
+import { GlassCard, CreateHabitSheet, LogEntrySheet, MOODS, formatDateKey } from '../../src/components';
+import {
+    getHabitSchedule, isScheduledDay, describeSchedule, getHabitMeasure, hasJournalEntry,
+    isPausedDay, getDateKey, type Log,
+} from '../../src/db';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 // Colors
 const GOLD = '#FFD700';
 const CRIMSON = '#ff4d4d';
+const ICE = '#7ec8e3'; // Skipped (frozen) days
 
 // Days of week labels
 const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
-// Get date key string
-const getDateKey = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
 // Range options for the graph
 type TimeRange = '1M' | '3M' | '6M';
 
 export default function HabitDetailScreen() {
     const { id } = useLocalSearchParams();
     const router = useRouter();
-    const { habits, getHabitDetails, loadHabits, deleteHabit, toggleHabit, version } = useHabitStore();
+    const {
+        habits, getHabitDetails, loadHabits, deleteHabit, archiveHabit,
+        toggleHabit, addCompletion, undoLastCompletion, pauses, version,
+    } = useHabitStore();
 
     const [isLoading, setIsLoading] = useState(true);
     const [details, setDetails] = useState<any>(null);
@@ -51,9 +51,23 @@ export default function HabitDetailScreen() {
     const [calendarDate, setCalendarDate] = useState(new Date());
     const [showMonthPicker, setShowMonthPicker] = useState(false);
 
+    // Edit sheet state
+    const [showEditSheet, setShowEditSheet] = useState(false);
+
+    // Day whose journal entry is open (null when closed)
+    const [journalDateKey, setJournalDateKey] = useState<string | null>(null);
+
     // Find habit from store
     const habit = habits.find(h => h.id === id);
     const isNegative = habit?.type === 'negative';
+    const schedule = useMemo(() => habit ? getHabitSchedule(habit) : null, [habit]);
+    const measure = useMemo(() => habit ? getHabitMeasure(habit) : null, [habit]);
+
+    // Schedule and daily target shown under the title, e.g. "Mon · Wed · Fri · 30 minutes"
+    const subtitle = [
+        schedule && schedule.type !== 'daily' ? describeSchedule(schedule) : null,
+        measure ? `${measure.target.toLocaleString('en-US')} ${measure.unit}`.trim() : null,
+    ].filter(Boolean).join(' · ');
 
     useEffect(() => {
         if (habits.length === 0) {
@@ -82,9 +96,16 @@ export default function HabitDetailScreen() {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
         Alert.alert(
             "Delete into the void?",
-            "This cannot be undone.",
+            "Deleting cannot be undone. Archive instead to keep its history and restore it later.",
             [
                 { text: "Cancel", style: "cancel" },
+                {
+                    text: "Archive",
+                    onPress: async () => {
+                        await archiveHabit(id as string);
+                        router.replace('/');
+                    }
+                },
                 {
                     text: "Delete",
                     style: 'destructive',
@@ -100,145 +121,71 @@ export default function HabitDetailScreen() {
     // Handle tapping a calendar day to toggle habit status
     const handleDayPress = async (dateKey: string) => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        if (habit?.counter) {
+            handleCounterDayPress(dateKey);
+            return;
+        }
         await toggleHabit(id as string, dateKey);
         await loadDetails(); // Refresh the data
     };
 
-    // Calculate current streak based on habit type
-    const calculateStreak = useMemo(() => {
-        if (!details || !details.logs || !habit) return 0;
-
-        const today = new Date();
-        const todayKey = getDateKey(today);
-        const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
-        const createdAtStartOfDay = createdAt
-            ? new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate())
-            : null;
-
-        if (isNegative) {
-            // Negative habit: streak = consecutive days without a log (failure)
-            // Start from today and go backwards
-            let streak = 0;
-
-            for (let i = 0; i <= 365; i++) {
-                const checkDate = new Date(today);
-                checkDate.setDate(checkDate.getDate() - i);
-                const checkKey = getDateKey(checkDate);
-
-                // Stop if before habit creation
-                if (createdAtStartOfDay && checkDate < createdAtStartOfDay) {
-                    break;
-                }
-
-                const hasLog = details.logs.some((l: any) => l.dateKey === checkKey);
-
-                if (hasLog) {
-                    // Found a failure, streak ends
-                    break;
-                } else {
-                    streak++;
-                }
-            }
-            return streak;
-        } else {
-            // Positive habit: consecutive days from today backwards with logs
-            let streak = 0;
-
-            for (let i = 0; i < 365; i++) {
-                const checkDate = new Date(today);
-                checkDate.setDate(checkDate.getDate() - i);
-                const checkKey = getDateKey(checkDate);
-
-                // Stop if before habit creation
-                if (createdAtStartOfDay && checkDate < createdAtStartOfDay) {
-                    break;
-                }
-
-                const hasLog = details.logs.some((l: any) => l.dateKey === checkKey);
-
-                if (hasLog) {
-                    streak++;
-                } else if (i > 0) { // Skip today if not done yet
-                    break;
-                }
-            }
-            return streak;
-        }
-    }, [details, habit, isNegative]);
-
-    // Calculate longest streak 
-    const longestStreak = useMemo(() => {
-        if (!details || !details.logs || !habit) return 0;
-
-        const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
-        const createdAtStartOfDay = createdAt
-            ? new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate())
-            : null;
-        const today = new Date();
-
-        let maxStreak = 0;
-        let currentStreak = 0;
-
-        // Calculate from creation date to today
-        const startDate = createdAtStartOfDay || new Date(today.getFullYear() - 1, today.getMonth(), today.getDate());
-        const daysDiff = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    // Long-press a calendar day to write about it
+    const handleDayLongPress = (dateKey: string) => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setJournalDateKey(dateKey);
+    };
 
-        for (let i = 0; i <= daysDiff; i++) {
-            const checkDate = new Date(startDate);
-            checkDate.setDate(checkDate.getDate() + i);
-            const checkKey = getDateKey(checkDate);
+    // Logs with a note or mood, newest first
+    const journal = useMemo(() => {
+        if (!details) return [];
+        return [...details.logs, ...details.partialLogs]
+            .filter((l: Log) => hasJournalEntry(l))
+            .sort((a: Log, b: Log) =>
+                b.dateKey.localeCompare(a.dateKey)
+                || new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+            );
+    }, [details]);
 
-            const hasLog = details.logs.some((l: any) => l.dateKey === checkKey);
+    // Counter habits can't toggle a day, so ask whether to add or remove one
+    const handleCounterDayPress = (dateKey: string) => {
+        const count = details?.logs.filter((l: Log) => l.dateKey === dateKey).length ?? 0;
+        const [year, month, day] = dateKey.split('-').map(Number);
+        const label = new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
-            if (isNegative) {
-                // Negative habit: streak when NO log (abstinence)
-                if (!hasLog) {
-                    currentStreak++;
-                    maxStreak = Math.max(maxStreak, currentStreak);
-                } else {
-                    currentStreak = 0; // Reset on failure
-                }
-            } else {
-                // Positive habit: streak when HAS log
-                if (hasLog) {
-                    currentStreak++;
-                    maxStreak = Math.max(maxStreak, currentStreak);
-                } else {
-                    currentStreak = 0; // Reset on miss
+        Alert.alert(
+            label,
+            `Logged ${count}× this day.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                ...(count > 0 ? [{
+                    text: "Undo Last",
+                    style: 'destructive' as const,
+                    onPress: async () => {
+                        await undoLastCompletion(id as string, dateKey);
+                        await loadDetails();
+                    }
+                }] : []),
+                {
+                    text: "Add One",
+                    onPress: async () => {
+                        await addCompletion(id as string, dateKey);
+                        await loadDetails();
+                    }
                 }
-            }
-        }
+            ]
+        );
+    };
 
-        return maxStreak;
-    }, [details, habit, isNegative]);
+    // Streaks and trend come from the shared stats engine (see db/stats.ts)
+    const currentStreak = details?.currentStreak ?? 0;
+    const longestStreak = details?.longestStreak ?? 0;
 
-    // --- CHART GENERATION LOGIC ---
+    // --- CHART DATA: 7-day rolling completion rate over the selected range ---
     const chartData = useMemo(() => {
-        if (!details || !details.logs) return null;
+        if (!details?.rollingRates?.length) return null;
 
         const rangeDays = selectedRange === '1M' ? 30 : selectedRange === '3M' ? 90 : 180;
-        const dataPoints = [];
-        const today = new Date();
-
-        for (let i = rangeDays - 1; i >= 0; i--) {
-            const date = new Date(today);
-            date.setDate(date.getDate() - i);
-            const dateKey = date.toISOString().split('T')[0];
-
-            let completedInWindow = 0;
-            for (let j = 0; j < 7; j++) {
-                const wDate = new Date(date);
-                wDate.setDate(wDate.getDate() - j);
-                const wKey = wDate.toISOString().split('T')[0];
-                if (details.logs.some((l: any) => l.dateKey === wKey)) {
-                    completedInWindow++;
-                }
-            }
-            const avg = completedInWindow / 7;
-            dataPoints.push(avg);
-        }
-
-        return dataPoints;
+        return (details.rollingRates as number[]).slice(-rangeDays);
     }, [details, selectedRange]);
 
     // Generate SVG Path for chart
@@ -307,11 +254,22 @@ export default function HabitDetailScreen() {
         for (let day = 1; day <= daysInMonth; day++) {
             const date = new Date(year, month, day);
             const dateKey = getDateKey(date);
-            const hasLog = details.logs.some((l: any) => l.dateKey === dateKey);
+            const hasLog = details.logs.some((l: Log) => l.dateKey === dateKey);
+            // Counter habits show how many times the day was logged
+            const count = habit?.counter ? details.logs.filter((l: Log) => l.dateKey === dateKey).length : 0;
+            // Some progress logged but short of the target
+            const isPartial = !hasLog && details.partialLogs.some((l: Log) => l.dateKey === dateKey);
+            // Excused day: neither done nor missed
+            const isSkipped = !hasLog && details.skippedLogs.some((l: Log) => l.dateKey === dateKey);
+            // Vacation mode: the habit was resting (a completion still shows as one)
+            const isPaused = !(hasLog && !isNegative) && isPausedDay(pauses, dateKey);
             // Compare dates at start of day to ignore time
             const isBeforeCreation = createdAtStartOfDay && date < createdAtStartOfDay;
             const isFuture = date > todayStartOfDay;
             const isToday = dateKey === todayKey;
+            // Rest days (off the schedule) without a log stay neutral; weekly habits have none
+            const isRestDay = !hasLog && !!schedule && schedule.type !== 'weekly'
+                && !isScheduledDay(schedule, date, createdAtStartOfDay);
 
             let cellStyle = styles.calendarCellEmpty;
             let cellColor = 'rgba(255, 255, 255, 0.1)';
@@ -341,7 +299,7 @@ export default function HabitDetailScreen() {
             let showCircle = false;
             let circleColor = 'transparent';
 
-            if (!isDisabled) {
+            if (!isDisabled && !isRestDay && !isSkipped && !isPaused) {
                 if (isNegative) {
                     // Negative habit: Always show circles
                     // Yellow for abstinence, Red for failure
@@ -361,19 +319,29 @@ export default function HabitDetailScreen() {
                     key={dateKey}
                     style={styles.calendarCell}
                     onPress={() => canToggle && handleDayPress(dateKey)}
+                    onLongPress={() => canToggle && handleDayLongPress(dateKey)}
                     disabled={!canToggle}
                 >
                     <View style={[
                         styles.calendarDot,
                         showCircle && { backgroundColor: circleColor },
+                        isPartial && !isDisabled && styles.calendarDotPartial,
+                        isSkipped && !isDisabled && styles.calendarDotSkipped,
+                        isPaused && !isBeforeCreation && styles.calendarDotPaused,
                         isToday && styles.calendarDotToday
                     ]}>
                         <Text style={[
                             styles.calendarDayText,
-                            isBeforeCreation && styles.calendarDayTextDisabled,
+                            (isBeforeCreation || isRestDay) && styles.calendarDayTextDisabled,
+                            isSkipped && !isDisabled && { color: ICE },
                             showCircle && { color: COLORS.voidBlue, fontWeight: 'bold' }
                         ]}>{day}</Text>
                     </View>
+                    {count > 1 && (
+                        <View style={[styles.countBadge, { borderColor: circleColor }]}>
+                            <Text style={styles.countBadgeText}>{count}</Text>
+                        </View>
+                    )}
                 </Pressable>
             );
         }
@@ -453,16 +421,30 @@ export default function HabitDetailScreen() {
                     <ArrowLeft size={24} color={COLORS.mist} />
                 </Pressable>
                 <Text style={styles.headerTitle}>DETAILS</Text>
-                <Pressable onPress={handleDelete} style={styles.iconButton}>
-                    <Trash2 size={24} color={COLORS.mist} opacity={0.5} />
-                </Pressable>
+                <View style={styles.headerActions}>
+                    <Pressable
+                        onPress={() => {
+                            Haptics.selectionAsync();
+                            setShowEditSheet(true);
+                        }}
+                        style={styles.iconButton}
+                    >
+                        <Pencil size={22} color={COLORS.mist} opacity={0.5} />
+                    </Pressable>
+                    <Pressable onPress={handleDelete} style={styles.iconButton}>
+                        <Trash2 size={24} color={COLORS.mist} opacity={0.5} />
+                    </Pressable>
+                </View>
             </View>
 
             {/* Title & Streak */}
             <View style={styles.heroSection}>
-                <Text style={styles.habitTitle}>{habit.title}</Text>
+                <Text style={[styles.habitTitle, !!subtitle && { marginBottom: 4 }]}>{habit.title}</Text>
+                {!!subtitle && (
+                    <Text style={styles.scheduleText}>{subtitle}</Text>
+                )}
                 <View style={styles.streakBadge}>
-                    <Text style={[styles.streakNumber, { color: accentColor }]}>{calculateStreak}</Text>
+                    <Text style={[styles.streakNumber, { color: accentColor }]}>{currentStreak}</Text>
                     <Text style={[styles.streakLabel, { color: accentColor }]}>
                         {isNegative ? 'DAYS CLEAN' : 'DAY STREAK'}
                     </Text>
@@ -499,7 +481,7 @@ export default function HabitDetailScreen() {
                             {/* Current Streak */}
                             <View style={styles.streakColumn}>
                                 <Text style={[styles.streakCompareValue, { color: accentColor }]}>
-                                    {calculateStreak}
+                                    {currentStreak}
                                 </Text>
                                 <Text style={styles.streakCompareLabel}>Current</Text>
                             </View>
@@ -525,7 +507,7 @@ export default function HabitDetailScreen() {
                                     styles.streakProgressFill,
                                     {
                                         width: longestStreak > 0
-                                            ? `${Math.min((calculateStreak / longestStreak) * 100, 100)}%`
+                                            ? `${Math.min((currentStreak / longestStreak) * 100, 100)}%`
                                             : '0%',
                                         backgroundColor: accentColor
                                     }
@@ -533,12 +515,33 @@ export default function HabitDetailScreen() {
                             </View>
                             <Text style={styles.streakProgressText}>
                                 {longestStreak > 0
-                                    ? `${Math.round((calculateStreak / longestStreak) * 100)}% of best`
+                                    ? `${Math.round((currentStreak / longestStreak) * 100)}% of best`
                                     : 'Start your streak!'}
                             </Text>
                         </View>
                     </GlassCard>
 
+                    {/* Completion rate per weekday (last 90 days) */}
+                    <GlassCard style={styles.cardSection}>
+                        <Text style={styles.sectionTitle}>BY WEEKDAY</Text>
+                        <View style={styles.weekdayRates}>
+                            {(details?.weekdayRates ?? []).map((rate: number | null, weekday: number) => (
+                                <View key={weekday} style={styles.weekdayRateColumn}>
+                                    <Text style={styles.weekdayRateValue}>
+                                        {rate === null ? '–' : `${Math.round(rate * 100)}`}
+                                    </Text>
+                                    <View style={styles.weekdayRateTrack}>
+                                        <View style={[
+                                            styles.weekdayRateFill,
+                                            { height: `${Math.round((rate ?? 0) * 100)}%`, backgroundColor: accentColor }
+                                        ]} />
+                                    </View>
+                                    <Text style={styles.weekdayRateLabel}>{WEEKDAYS[weekday]}</Text>
+                                </View>
+                            ))}
+                        </View>
+                    </GlassCard>
+
                     {/* Stats Grid */}
                     <View style={styles.statsGrid}>
                         <GlassCard style={styles.statBox}>
@@ -550,6 +553,40 @@ export default function HabitDetailScreen() {
                             <Text style={styles.statLabel}>{isNegative ? 'Abstinence' : 'Consistency'}</Text>
                         </GlassCard>
                     </View>
+
+                    {/* Journal Section */}
+                    <GlassCard style={[styles.cardSection, styles.journalSection]}>
+                        <Text style={styles.sectionTitle}>JOURNAL</Text>
+                        {journal.length === 0 ? (
+                            <Text style={styles.journalEmpty}>
+                                {isNegative
+                                    ? 'Long-press a day to note what triggered a slip.'
+                                    : 'Long-press a day to add a note.'}
+                            </Text>
+                        ) : (
+                            journal.map((entry: Log) => {
+                                const mood = MOODS.find(m => m.value === entry.mood);
+                                return (
+                                    <Pressable
+                                        key={entry.id}
+                                        style={styles.journalEntry}
+                                        onPress={() => setJournalDateKey(entry.dateKey)}
+                                    >
+                                        <View style={styles.journalEntryHeader}>
+                                            <Text style={styles.journalDate}>{formatDateKey(entry.dateKey)}</Text>
+                                            {mood && (
+                                                <View style={styles.journalMood}>
+                                                    <mood.Icon size={14} color={accentColor} />
+                                                    <Text style={[styles.journalMoodText, { color: accentColor }]}>{mood.label}</Text>
+                                                </View>
+                                            )}
+                                        </View>
+                                        {!!entry.note && <Text style={styles.journalNote}>{entry.note}</Text>}
+                                    </Pressable>
+                                );
+                            })
+                        )}
+                    </GlassCard>
                 </>
             )}
 
@@ -583,6 +620,25 @@ export default function HabitDetailScreen() {
                 </Pressable>
             </Modal>
 
+            {/* Edit Sheet */}
+            <CreateHabitSheet
+                visible={showEditSheet}
+                onClose={() => setShowEditSheet(false)}
+                habit={habit}
+            />
+
+            {/* Journal Entry Sheet */}
+            {journalDateKey && (
+                <LogEntrySheet
+                    visible
+                    onClose={() => setJournalDateKey(null)}
+                    habitId={habit.id}
+                    habitTitle={habit.title}
+                    type={isNegative ? 'negative' : 'positive'}
+                    dateKey={journalDateKey}
+                />
+            )}
+
             <View style={{ height: 40 }} />
         </ScrollView>
     );
@@ -613,6 +669,10 @@ const styles = StyleSheet.create({
     iconButton: {
         padding: 8,
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
     heroSection: {
         alignItems: 'center',
         marginVertical: 24,
@@ -624,6 +684,14 @@ const styles = StyleSheet.create({
         marginBottom: 16,
         textAlign: 'center',
     },
+    scheduleText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 1,
+        marginBottom: 16,
+    },
     streakBadge: {
         alignItems: 'center',
     },
@@ -703,6 +771,38 @@ const styles = StyleSheet.create({
         borderWidth: 2,
         borderColor: COLORS.mist,
     },
+    countBadge: {
+        position: 'absolute',
+        top: 0,
+        right: 2,
+        minWidth: 14,
+        height: 14,
+        borderRadius: 7,
+        borderWidth: 1,
+        backgroundColor: COLORS.voidBlue,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: 2,
+    },
+    countBadgeText: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: 8,
+        color: COLORS.mist,
+    },
+    calendarDotPaused: {
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.25)',
+        borderStyle: 'dotted',
+    },
+    calendarDotSkipped: {
+        borderWidth: 1.5,
+        borderColor: ICE,
+        borderStyle: 'dashed',
+    },
+    calendarDotPartial: {
+        borderWidth: 1.5,
+        borderColor: COLORS.bioOrange,
+    },
     calendarDayText: {
         fontFamily: TYPOGRAPHY.fonts.mono,
         fontSize: 11,
@@ -741,6 +841,41 @@ const styles = StyleSheet.create({
         color: COLORS.mist,
         opacity: 0.4,
     },
+    weekdayRates: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 16,
+    },
+    weekdayRateColumn: {
+        alignItems: 'center',
+        flex: 1,
+    },
+    weekdayRateValue: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.6,
+        marginBottom: 6,
+    },
+    weekdayRateTrack: {
+        width: 8,
+        height: 60,
+        borderRadius: 4,
+        backgroundColor: 'rgba(255, 255, 255, 0.1)',
+        justifyContent: 'flex-end',
+        overflow: 'hidden',
+    },
+    weekdayRateFill: {
+        width: '100%',
+        borderRadius: 4,
+    },
+    weekdayRateLabel: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.4,
+        marginTop: 8,
+    },
     statsGrid: {
         flexDirection: 'row',
         gap: 16,
@@ -809,6 +944,50 @@ const styles = StyleSheet.create({
         color: COLORS.mist,
         textAlign: 'center',
     },
+    // Journal styles
+    journalSection: {
+        marginTop: 20,
+    },
+    journalEmpty: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.4,
+        marginTop: 12,
+    },
+    journalEntry: {
+        paddingVertical: 12,
+        borderTopWidth: 1,
+        borderTopColor: 'rgba(255, 255, 255, 0.05)',
+        marginTop: 12,
+    },
+    journalEntryHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    journalDate: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.6,
+    },
+    journalMood: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    journalMoodText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+    },
+    journalNote: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+        marginTop: 6,
+        lineHeight: 20,
+    },
     // Streak comparison styles
     streakComparisonContainer: {
         flexDirection: 'row',
@@ -1,54 +1,80 @@
 /**
  * History Screen - Constellation Map
- * 
- * Shows the last 30 days of habit completion as a star map.
+ *
+ * Shows habit completion as a star map, built from the real logs.
+ * Supports 30/90/180 day ranges with paging back in time.
  */
 
-import React, { useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
 
 import { HistoryMap, type DayData } from '../src/components';
 import { COLORS, TYPOGRAPHY } from '../src/theme';
+import { useHabitStore } from '../src/stores';
+import { getDateKey } from '../src/db';
 
-/**
- * Generate mock history data for the last 30 days
- * In production, this would come from the database
- */
-const generateMockHistoryData = (): DayData[] => {
-    const data: DayData[] = [];
-    const today = new Date();
-
-    for (let i = 29; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-
-        const dateKey = date.toISOString().split('T')[0];
-        const totalCount = 5;
-
-        // Generate varied mock completion data
-        let completedCount: number;
-        if (i < 3) {
-            completedCount = Math.floor(Math.random() * 6);
-        } else if (i >= 5 && i <= 10) {
-            completedCount = 5;
-        } else if (i >= 15 && i <= 18) {
-            completedCount = 5;
-        } else {
-            completedCount = Math.floor(Math.random() * 4);
-        }
-
-        data.push({
-            dateKey,
-            completedCount,
-            totalCount,
-        });
-    }
-
-    return data;
-};
+// Range options in days
+const RANGES = [30, 90, 180];
+
+// Short label like "Sep 20"
+const formatShortDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
 export default function HistoryScreen() {
-    const historyData = useMemo(() => generateMockHistoryData(), []);
+    const { getHistoryData, version } = useHabitStore();
+
+    const [rangeDays, setRangeDays] = useState(30);
+    // Number of ranges stepped back from today (0 = ending today)
+    const [pageOffset, setPageOffset] = useState(0);
+    const [historyData, setHistoryData] = useState<DayData[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const endDate = new Date();
+    endDate.setDate(endDate.getDate() - pageOffset * rangeDays);
+    const endDateKey = getDateKey(endDate);
+
+    const startDate = new Date(endDate);
+    startDate.setDate(startDate.getDate() - (rangeDays - 1));
+
+    useFocusEffect(
+        useCallback(() => {
+            let cancelled = false;
+            setIsLoading(true);
+            getHistoryData(endDateKey, rangeDays).then(data => {
+                if (!cancelled) {
+                    setHistoryData(data);
+                    setIsLoading(false);
+                }
+            });
+            return () => {
+                cancelled = true;
+            };
+        }, [endDateKey, rangeDays, version])
+    );
+
+    const goBack = () => {
+        Haptics.selectionAsync();
+        setPageOffset(offset => offset + 1);
+    };
+
+    const goForward = () => {
+        if (pageOffset === 0) return;
+        Haptics.selectionAsync();
+        setPageOffset(offset => offset - 1);
+    };
+
+    const selectRange = (days: number) => {
+        Haptics.selectionAsync();
+        setRangeDays(days);
+        setPageOffset(0);
+    };
+
+    const subtitle = pageOffset === 0
+        ? `Last ${rangeDays} Days`
+        : `${formatShortDate(startDate)} – ${formatShortDate(endDate)}, ${endDate.getFullYear()}`;
 
     return (
         <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -61,8 +87,45 @@ export default function HistoryScreen() {
             {/* Divider */}
             <View style={styles.divider} />
 
+            {/* Range + Paging */}
+            <View style={styles.controlsRow}>
+                <Pressable onPress={goBack} style={styles.navButton} hitSlop={10}>
+                    <ChevronLeft size={20} color={COLORS.mist} />
+                </Pressable>
+
+                <View style={styles.rangeRow}>
+                    {RANGES.map(days => (
+                        <Pressable
+                            key={days}
+                            style={[styles.rangeChip, rangeDays === days && styles.rangeChipActive]}
+                            onPress={() => selectRange(days)}
+                        >
+                            <Text style={[styles.rangeText, rangeDays === days && styles.rangeTextActive]}>
+                                {days}d
+                            </Text>
+                        </Pressable>
+                    ))}
+                </View>
+
+                <Pressable
+                    onPress={goForward}
+                    style={[styles.navButton, pageOffset === 0 && styles.navButtonDisabled]}
+                    disabled={pageOffset === 0}
+                    hitSlop={10}
+                >
+                    <ChevronRight size={20} color={COLORS.mist} />
+                </Pressable>
+            </View>
+
             {/* Constellation Map */}
-            <HistoryMap data={historyData} />
+            {isLoading && historyData.length === 0 ? (
+                <ActivityIndicator size="large" color={COLORS.bioOrange} style={{ marginTop: 40 }} />
+            ) : (
+                <HistoryMap data={historyData} subtitle={subtitle} />
+            )}
+
+            {/* Spacer for VoidDock */}
+            <View style={{ height: 140 }} />
         </ScrollView>
     );
 }
@@ -93,4 +156,38 @@ const styles = StyleSheet.create({
         opacity: 0.1,
         marginVertical: 16,
     },
+    controlsRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    navButton: {
+        padding: 4,
+    },
+    navButtonDisabled: {
+        opacity: 0.2,
+    },
+    rangeRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    rangeChip: {
+        paddingVertical: 6,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    rangeChipActive: {
+        backgroundColor: COLORS.bioOrange,
+        borderColor: COLORS.bioOrange,
+    },
+    rangeText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+    },
+    rangeTextActive: {
+        color: COLORS.voidBlue,
+    },
 });
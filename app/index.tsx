@@ -2,6 +2,7 @@
  * Dashboard Screen (Home)
  * 
  * The main screen showing centered Watcher Avatar and habit sparkline cards.
+ * While vacation mode is on the avatar sleeps and shows when habits resume.
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -10,9 +11,10 @@ import { Plus } from 'lucide-react-native';
 import { useFocusEffect } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-import { WatcherAvatar, HabitSparklineCard } from '../src/components';
+import { WatcherAvatar, HabitSparklineCard, LogEntrySheet, formatDateKey } from '../src/components';
 import { COLORS, TYPOGRAPHY } from '../src/theme';
 import { useHabitStore } from '../src/stores';
+import { getHabitMeasure, getActivePause, getTodayDateKey, type HabitWithStatus } from '../src/db';
 import { SoundManager } from '../src/utils/SoundManager';
 
 // Sample habits for testing
@@ -21,13 +23,15 @@ const SAMPLE_HABITS = [
     { title: 'Morning workout', iconKey: 'Dumbbell', color: '#ff6b6b' },
     { title: 'Write code', iconKey: 'Code', color: '#4ecdc4' },
     { title: 'Meditate', iconKey: 'Brain', color: '#a8a8a8' },
-    { title: 'Drink water', iconKey: 'Droplets', color: '#45b7d1' },
+    { title: 'Drink water', iconKey: 'Droplets', color: '#45b7d1', measure: { target: 8, unit: 'glasses' } },
 ];
 
 export default function DashboardScreen() {
-    const { addHabit, toggleHabit, getHabitsWithSparkline, version } = useHabitStore();
+    const { addHabit, toggleHabit, logHabitValue, undoLastCompletion, getHabitsWithSparkline, pauses, version } = useHabitStore();
     const [sparklineHabits, setSparklineHabits] = useState<any[]>([]);
     const [refreshing, setRefreshing] = useState(false);
+    // Habit and day whose journal entry is open
+    const [journalEntry, setJournalEntry] = useState<{ habit: HabitWithStatus; dateKey: string } | null>(null);
     const insets = useSafeAreaInsets();
 
     const loadData = async () => {
@@ -53,9 +57,19 @@ export default function DashboardScreen() {
         await loadData();
     };
 
+    const handleUndo = async (id: string) => {
+        await undoLastCompletion(id);
+        await loadData();
+    };
+
+    const handleLogValue = async (id: string, amount: number) => {
+        await logHabitValue(id, amount);
+        await loadData();
+    };
+
     const seedSampleHabits = async () => {
         for (const habit of SAMPLE_HABITS) {
-            await addHabit(habit.title, habit.iconKey, habit.color);
+            await addHabit(habit.title, habit.iconKey, habit.color, undefined, 'positive', undefined, habit.measure);
         }
         await loadData();
     };
@@ -63,7 +77,12 @@ export default function DashboardScreen() {
     // Calculate completion for avatar
     // For positive habits: completed = has log today
     // For negative habits: success (completed) = NO log today (abstinence)
-    const completedCount = sparklineHabits.filter(h => {
+    // Habits not scheduled today (rest days) only count if done anyway; skipped ones don't count
+    const dueHabits = sparklineHabits.filter(h =>
+        !h.isSkippedToday
+        && (h.isCompletedToday || h.sparkline[h.sparkline.length - 1]?.isScheduled !== false)
+    );
+    const completedCount = dueHabits.filter(h => {
         if (h.type === 'negative') {
             // Negative habit: success means NO log today (abstinence)
             return !h.isCompletedToday;
@@ -71,8 +90,9 @@ export default function DashboardScreen() {
         // Positive habit: success means has log today
         return h.isCompletedToday;
     }).length;
-    const totalCount = sparklineHabits.length;
+    const totalCount = dueHabits.length;
     const completionPercentage = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
+    const activePause = getActivePause(pauses, getTodayDateKey());
 
     return (
         <ScrollView
@@ -86,8 +106,14 @@ export default function DashboardScreen() {
             <View style={[styles.avatarContainer, { paddingTop: insets.top + 20 }]}>
                 <WatcherAvatar
                     completionPercentage={completionPercentage}
+                    isPaused={!!activePause}
                     size={80}
                 />
+                {activePause && (
+                    <Text style={styles.pausedText}>
+                        Resting until {formatDateKey(activePause.endDateKey)}
+                    </Text>
+                )}
             </View>
 
             {/* Habit List (Sparkline Cards) */}
@@ -110,9 +136,17 @@ export default function DashboardScreen() {
                                 iconKey={habit.iconKey}
                                 color={habit.color}
                                 sparkline={habit.sparkline}
+                                currentStreak={habit.currentStreak}
                                 isCompletedToday={habit.isCompletedToday}
                                 type={habit.type}
+                                measure={getHabitMeasure(habit)}
+                                todayValue={habit.todayValue}
+                                counter={habit.counter}
+                                todayCount={habit.todayCount}
                                 onToggle={() => handleToggle(habit.id)}
+                                onLogValue={amount => handleLogValue(habit.id, amount)}
+                                onUndo={() => handleUndo(habit.id)}
+                                onEditEntry={dateKey => setJournalEntry({ habit, dateKey })}
                             />
                         ))}
                     </View>
@@ -120,6 +154,18 @@ export default function DashboardScreen() {
             </View>
 
             <View style={{ height: 140 }} />
+
+            {/* Journal entry for a long-pressed sparkline day */}
+            {journalEntry && (
+                <LogEntrySheet
+                    visible
+                    onClose={() => setJournalEntry(null)}
+                    habitId={journalEntry.habit.id}
+                    habitTitle={journalEntry.habit.title}
+                    type={journalEntry.habit.type === 'negative' ? 'negative' : 'positive'}
+                    dateKey={journalEntry.dateKey}
+                />
+            )}
         </ScrollView>
     );
 }
@@ -132,6 +178,14 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         paddingBottom: 24,
     },
+    pausedText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 1,
+        marginTop: 12,
+    },
     listContainer: {
         flex: 1,
     },
@@ -6,11 +6,51 @@
  */
 
 import React from 'react';
-import { View, Text, StyleSheet, Switch, Pressable, ScrollView } from 'react-native';
-import { Moon, Bell, Trash2, Info } from 'lucide-react-native';
+import { View, Text, StyleSheet, Switch, Pressable, ScrollView, Alert, AppState } from 'react-native';
+import { Moon, Bell, BellRing, Plane, Trash2, Info, Download, Upload, FileSpreadsheet, Archive, ExternalLink } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
 
 import { COLORS, TYPOGRAPHY } from '../src/theme';
-import { GlassCard } from '../src/components';
+import { GlassCard, CsvExportSheet, ClearDataSheet, PauseSheet, formatDateKey } from '../src/components';
+import { BackupManager } from '../src/utils/BackupManager';
+import { DataResetManager } from '../src/utils/DataResetManager';
+import {
+    NotificationManager,
+    type ReminderReconciliation,
+    type NotificationPermissionStatus,
+} from '../src/utils/NotificationManager';
+import { usePreferencesStore, useHabitStore } from '../src/stores';
+import { getCurrentOrUpcomingPause, getTodayDateKey } from '../src/db';
+
+// Shown under the Notifications switch
+const PERMISSION_LABELS: Record<NotificationPermissionStatus, string> = {
+    granted: 'Allowed by the system',
+    denied: 'Blocked in system settings',
+    undetermined: 'Permission not requested yet',
+    unavailable: 'Not available on this device',
+};
+
+// e.g. "3 active · checked 9:41 AM · fixed 1 missing, 2 orphaned"
+const describeReconciliation = (result: ReminderReconciliation | null) => {
+    if (!result) return 'Not checked yet';
+
+    const parts = [
+        `${result.active} active`,
+        `checked ${result.checkedAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`,
+    ];
+    if (result.scheduled > 0 || result.cancelled > 0) {
+        parts.push(`fixed ${result.scheduled} missing, ${result.cancelled} orphaned`);
+    }
+    return parts.join(' · ');
+};
+
+// e.g. "Paused until Sun, Oct 25" or "Starts Fri, Oct 23"
+const describePause = (pause: { startDateKey: string; endDateKey: string } | undefined) => {
+    if (!pause) return 'Pause every habit while you\'re away';
+    if (pause.startDateKey <= getTodayDateKey()) return `Paused until ${formatDateKey(pause.endDateKey)}`;
+    return `Starts ${formatDateKey(pause.startDateKey)}`;
+};
 
 interface SettingRowProps {
     icon: typeof Moon;
@@ -48,7 +88,137 @@ const SettingRow: React.FC<SettingRowProps> = ({
 );
 
 export default function SettingsScreen() {
-    const [notificationsEnabled, setNotificationsEnabled] = React.useState(false);
+    const router = useRouter();
+    const notificationsEnabled = usePreferencesStore(state => state.notificationsEnabled);
+    const [permissionStatus, setPermissionStatus] = React.useState<NotificationPermissionStatus | null>(null);
+    const [isBackupBusy, setIsBackupBusy] = React.useState(false);
+    const [isCsvSheetVisible, setIsCsvSheetVisible] = React.useState(false);
+    const [isClearSheetVisible, setIsClearSheetVisible] = React.useState(false);
+    const [isPauseSheetVisible, setIsPauseSheetVisible] = React.useState(false);
+    const pauses = useHabitStore(state => state.pauses);
+    const currentPause = getCurrentOrUpcomingPause(pauses, getTodayDateKey());
+    // When the undo window for a wipe closes (null = nothing to undo)
+    const [undoExpiresAt, setUndoExpiresAt] = React.useState<number | null>(DataResetManager.getUndoExpiresAt);
+    const [undoSecondsLeft, setUndoSecondsLeft] = React.useState(0);
+    const [reconciliation, setReconciliation] = React.useState(NotificationManager.getLastReconciliation);
+    const [isCheckingReminders, setIsCheckingReminders] = React.useState(false);
+
+    // Read OS permission now and whenever the app comes back (e.g. from system settings)
+    React.useEffect(() => {
+        const refresh = () => NotificationManager.getPermissionStatus().then(setPermissionStatus);
+        refresh();
+
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active') refresh();
+        });
+        return () => subscription.remove();
+    }, []);
+
+    // Count down the undo window
+    React.useEffect(() => {
+        if (!undoExpiresAt) return;
+
+        const tick = () => {
+            const secondsLeft = Math.ceil((undoExpiresAt - Date.now()) / 1000);
+            if (secondsLeft <= 0) {
+                setUndoExpiresAt(null);
+            } else {
+                setUndoSecondsLeft(secondsLeft);
+            }
+        };
+        tick();
+        const interval = setInterval(tick, 250);
+        return () => clearInterval(interval);
+    }, [undoExpiresAt]);
+
+    const handleClearData = async () => {
+        try {
+            const expiresAt = await DataResetManager.clearAllData();
+            setIsClearSheetVisible(false);
+            setUndoExpiresAt(expiresAt);
+        } catch (error) {
+            Alert.alert('Clear failed', error instanceof Error ? error.message : 'Unknown error');
+        }
+    };
+
+    const handleUndoClear = async () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setUndoExpiresAt(null);
+        try {
+            const restored = await DataResetManager.undoClear();
+            if (!restored) {
+                Alert.alert('Too late', 'The undo window has closed.');
+            }
+        } catch (error) {
+            Alert.alert('Undo failed', error instanceof Error ? error.message : 'Unknown error');
+        }
+    };
+
+    const handleToggleNotifications = async (enabled: boolean) => {
+        Haptics.selectionAsync();
+        const applied = await NotificationManager.setRemindersEnabled(enabled);
+        setPermissionStatus(await NotificationManager.getPermissionStatus());
+        setReconciliation(NotificationManager.getLastReconciliation());
+
+        if (!applied) {
+            Alert.alert(
+                'Notifications blocked',
+                'Allow notifications for Void Tracker in system settings to get reminders.',
+                [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Open Settings', onPress: NotificationManager.openSystemSettings },
+                ]
+            );
+        }
+    };
+
+    const handleCheckReminders = async () => {
+        Haptics.selectionAsync();
+        setIsCheckingReminders(true);
+        try {
+            const result = await NotificationManager.reconcileReminders();
+            if (result) {
+                setReconciliation(result);
+            } else {
+                Alert.alert('Reminders unavailable', 'Notifications are not supported on this device.');
+            }
+        } finally {
+            setIsCheckingReminders(false);
+        }
+    };
+
+    const handleExport = async () => {
+        Haptics.selectionAsync();
+        setIsBackupBusy(true);
+        try {
+            await BackupManager.exportBackup();
+        } catch (error) {
+            Alert.alert('Export failed', error instanceof Error ? error.message : 'Unknown error');
+        } finally {
+            setIsBackupBusy(false);
+        }
+    };
+
+    const handleImport = async () => {
+        Haptics.selectionAsync();
+        setIsBackupBusy(true);
+        try {
+            const summary = await BackupManager.importBackup();
+            if (summary) {
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                Alert.alert(
+                    'Backup restored',
+                    `${summary.habitsAdded} habits added, ${summary.habitsMerged} merged.\n` +
+                    `${summary.logsAdded} logs added, ${summary.logsSkipped} already present.`
+                );
+            }
+        } catch (error) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            Alert.alert('Import failed', error instanceof Error ? error.message : 'Unknown error');
+        } finally {
+            setIsBackupBusy(false);
+        }
+    };
 
     return (
         <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
@@ -67,17 +237,49 @@ export default function SettingsScreen() {
                 <SettingRow
                     icon={Bell}
                     label="Notifications"
-                    description="Get notified to check in"
+                    description={permissionStatus ? PERMISSION_LABELS[permissionStatus] : 'Get notified to check in'}
                     rightElement={
                         <Switch
-                            value={notificationsEnabled}
-                            onValueChange={setNotificationsEnabled}
+                            value={notificationsEnabled ?? permissionStatus === 'granted'}
+                            onValueChange={handleToggleNotifications}
                             trackColor={{ false: '#333', true: COLORS.bioOrange }}
                             thumbColor={COLORS.mist}
                         />
                     }
                 />
 
+                {permissionStatus === 'denied' && (
+                    <SettingRow
+                        icon={ExternalLink}
+                        label="Open System Settings"
+                        description="Re-allow notifications for this app"
+                        onPress={NotificationManager.openSystemSettings}
+                    />
+                )}
+
+                <SettingRow
+                    icon={BellRing}
+                    label="Reminders"
+                    description={describeReconciliation(reconciliation)}
+                    onPress={isCheckingReminders ? undefined : handleCheckReminders}
+                    rightElement={
+                        <Text style={styles.settingValue}>Check</Text>
+                    }
+                />
+
+                <SettingRow
+                    icon={Plane}
+                    label="Vacation Mode"
+                    description={describePause(currentPause)}
+                    onPress={() => {
+                        Haptics.selectionAsync();
+                        setIsPauseSheetVisible(true);
+                    }}
+                    rightElement={
+                        <Text style={styles.settingValue}>{currentPause ? 'On' : 'Off'}</Text>
+                    }
+                />
+
                 <SettingRow
                     icon={Moon}
                     label="Dark Mode"
@@ -92,15 +294,62 @@ export default function SettingsScreen() {
             {/* Data Group */}
             <Text style={styles.groupTitle}>Data</Text>
             <GlassCard style={styles.settingsCard}>
+                <SettingRow
+                    icon={Upload}
+                    label="Export Backup"
+                    description="Save habits and history as JSON"
+                    onPress={isBackupBusy ? undefined : handleExport}
+                />
+
+                <SettingRow
+                    icon={Download}
+                    label="Import Backup"
+                    description="Restore from a backup file"
+                    onPress={isBackupBusy ? undefined : handleImport}
+                />
+
+                <SettingRow
+                    icon={FileSpreadsheet}
+                    label="Export CSV"
+                    description="Completion logs for spreadsheets"
+                    onPress={() => {
+                        Haptics.selectionAsync();
+                        setIsCsvSheetVisible(true);
+                    }}
+                />
+
+                <SettingRow
+                    icon={Archive}
+                    label="Archived Habits"
+                    description="Restore or delete archived habits"
+                    onPress={() => {
+                        Haptics.selectionAsync();
+                        router.push('/archive');
+                    }}
+                />
+
                 <SettingRow
                     icon={Trash2}
                     label="Clear All Data"
                     description="Reset all habits and history"
                     isLast
-                    onPress={() => console.log('Clear data')}
+                    onPress={() => {
+                        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        setIsClearSheetVisible(true);
+                    }}
                 />
             </GlassCard>
 
+            {/* Undo banner for a recent wipe */}
+            {undoExpiresAt && (
+                <GlassCard style={styles.undoBanner}>
+                    <Text style={styles.undoText}>All data cleared</Text>
+                    <Pressable onPress={handleUndoClear} hitSlop={10}>
+                        <Text style={styles.undoAction}>UNDO ({undoSecondsLeft}s)</Text>
+                    </Pressable>
+                </GlassCard>
+            )}
+
             {/* About Group */}
             <Text style={styles.groupTitle}>About</Text>
             <GlassCard style={styles.settingsCard}>
@@ -115,6 +364,25 @@ export default function SettingsScreen() {
                 />
             </GlassCard>
 
+            <CsvExportSheet
+                visible={isCsvSheetVisible}
+                onClose={() => setIsCsvSheetVisible(false)}
+            />
+
+            <PauseSheet
+                visible={isPauseSheetVisible}
+                onClose={() => {
+                    setIsPauseSheetVisible(false);
+                    setReconciliation(NotificationManager.getLastReconciliation());
+                }}
+            />
+
+            <ClearDataSheet
+                visible={isClearSheetVisible}
+                onClose={() => setIsClearSheetVisible(false)}
+                onConfirm={handleClearData}
+            />
+
             {/* Footer */}
             <View style={styles.footer}>
                 <Text style={styles.footerText}>
@@ -213,6 +481,24 @@ const styles = StyleSheet.create({
         color: COLORS.mist,
         opacity: 0.5,
     },
+    undoBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingVertical: 14,
+        marginBottom: 16,
+    },
+    undoText: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+    },
+    undoAction: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.bioOrange,
+        letterSpacing: 1,
+    },
     footer: {
         alignItems: 'center',
         paddingVertical: 40,
@@ -0,0 +1,9 @@
+/**
+ * Jest global setup
+ *
+ * Runs every test in a time zone with daylight saving time, so date keys and
+ * streaks are exercised across the 23- and 25-hour days.
+ */
+module.exports = () => {
+    process.env.TZ = 'Europe/Berlin';
+};
@@ -0,0 +1,216 @@
+/**
+ * Clear Data Sheet
+ *
+ * Bottom sheet guarding the "Clear All Data" action.
+ * The wipe only unlocks once the user types the confirmation word.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+    View, Text, StyleSheet, Modal, TextInput, Pressable,
+    KeyboardAvoidingView, Platform
+} from 'react-native';
+import { X, Trash2 } from 'lucide-react-native';
+import Animated, { SlideInDown, SlideOutDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+
+import { COLORS, TYPOGRAPHY } from '../theme';
+
+// Word the user must type to confirm
+const CONFIRM_WORD = 'DELETE';
+
+// Crimson for destructive actions
+const CRIMSON = '#ff4d4d';
+
+interface ClearDataSheetProps {
+    visible: boolean;
+    onClose: () => void;
+    onConfirm: () => Promise<void>;
+}
+
+export const ClearDataSheet: React.FC<ClearDataSheetProps> = ({ visible, onClose, onConfirm }) => {
+    const [confirmText, setConfirmText] = useState('');
+    const [isClearing, setIsClearing] = useState(false);
+
+    // Reset input when opening
+    useEffect(() => {
+        if (visible) {
+            setConfirmText('');
+            setIsClearing(false);
+        }
+    }, [visible]);
+
+    const isConfirmed = confirmText.trim().toUpperCase() === CONFIRM_WORD;
+
+    const handleConfirm = async () => {
+        if (!isConfirmed || isClearing) return;
+
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        setIsClearing(true);
+        try {
+            await onConfirm();
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    if (!visible) return null;
+
+    return (
+        <Modal
+            transparent
+            visible={visible}
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <KeyboardAvoidingView
+                behavior={Platform.OS === "ios" ? "padding" : "height"}
+                style={styles.overlay}
+            >
+                <Pressable style={styles.backdrop} onPress={onClose} />
+
+                <Animated.View
+                    entering={SlideInDown}
+                    exiting={SlideOutDown}
+                    style={styles.sheet}
+                >
+                    {/* Handle Bar */}
+                    <View style={styles.handleBar} />
+
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <Text style={styles.headerTitle}>CLEAR ALL DATA</Text>
+                        <Pressable onPress={onClose} style={styles.closeButton}>
+                            <X size={24} color={COLORS.mist} />
+                        </Pressable>
+                    </View>
+
+                    <Text style={styles.warningText}>
+                        Every habit, every log and every reminder will be returned to the void.
+                        You'll have a few seconds to undo.
+                    </Text>
+
+                    {/* Confirmation Input */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>TYPE {CONFIRM_WORD} TO CONFIRM</Text>
+                        <TextInput
+                            style={styles.textInput}
+                            value={confirmText}
+                            onChangeText={setConfirmText}
+                            placeholder={CONFIRM_WORD}
+                            placeholderTextColor="rgba(255, 255, 255, 0.2)"
+                            autoCapitalize="characters"
+                            autoCorrect={false}
+                            autoFocus
+                        />
+                    </View>
+
+                    {/* Confirm Button */}
+                    <Pressable
+                        style={[
+                            styles.submitButton,
+                            (!isConfirmed || isClearing) && styles.submitButtonDisabled
+                        ]}
+                        onPress={handleConfirm}
+                        disabled={!isConfirmed || isClearing}
+                    >
+                        <Text style={styles.submitButtonText}>CLEAR EVERYTHING</Text>
+                        <Trash2 size={20} color={COLORS.voidBlue} strokeWidth={3} />
+                    </Pressable>
+
+                    <View style={{ height: Platform.OS === 'ios' ? 40 : 20 }} />
+                </Animated.View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    backdrop: {
+        flex: 1,
+    },
+    sheet: {
+        backgroundColor: COLORS.voidBlue,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingHorizontal: 24,
+        maxHeight: '85%',
+    },
+    handleBar: {
+        width: 40,
+        height: 4,
+        backgroundColor: COLORS.mist,
+        opacity: 0.3,
+        borderRadius: 2,
+        alignSelf: 'center',
+        marginTop: 12,
+        marginBottom: 16,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    headerTitle: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: CRIMSON,
+        letterSpacing: 2,
+    },
+    closeButton: {
+        padding: 8,
+    },
+    warningText: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+        opacity: 0.7,
+        lineHeight: 20,
+        marginBottom: 24,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 2,
+        marginBottom: 12,
+    },
+    textInput: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+        paddingVertical: 12,
+        letterSpacing: 2,
+    },
+    submitButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: CRIMSON,
+        paddingVertical: 16,
+        borderRadius: 16,
+        gap: 8,
+    },
+    submitButtonDisabled: {
+        opacity: 0.3,
+    },
+    submitButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.voidBlue,
+        fontWeight: '600',
+        letterSpacing: 1,
+    },
+});
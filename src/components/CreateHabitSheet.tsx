@@ -4,12 +4,17 @@
  * Bottom sheet modal for creating new habits.
  * Supports both "Build" (positive) and "Break" (negative) habits.
  * Includes "Protocols" - preset bundles of habits.
+ * Pass an existing habit to edit it instead (protocols are hidden).
+ * Build habits can run on a schedule other than daily,
+ * and can track an amount toward a daily target (e.g. 8 glasses).
+ * Counter habits are logged several times a day instead of once.
+ * Each habit gets a monthly allowance of freezes for skipping days without breaking its streak.
  */
 
 import React, { useState, useEffect } from 'react';
 import {
     View, Text, StyleSheet, Modal, TextInput, Pressable,
-    Switch, ScrollView, KeyboardAvoidingView, Platform
+    Switch, ScrollView, KeyboardAvoidingView, Platform, Alert
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { X, Check, Plus, Minus, Sparkles, Brain, Dumbbell, Eye, ChevronRight } from 'lucide-react-native';
@@ -20,6 +25,11 @@ import * as Haptics from 'expo-haptics';
 import { COLORS, TYPOGRAPHY, BORDER_RADIUS } from '../theme';
 import { useHabitStore } from '../stores';
 import { NotificationManager } from '../utils/NotificationManager';
+import {
+    getHabitSchedule, scheduleToColumns, getHabitMeasure,
+    DEFAULT_FREEZES_PER_MONTH, MAX_FREEZES_PER_MONTH,
+    type Habit, type HabitSchedule, type ScheduleType, type HabitMeasure,
+} from '../db';
 
 // Selected set of icons for the picker
 const ICONS = ['Circle', 'CheckCircle', 'Zap', 'Brain', 'Book', 'Dumbbell', 'Droplets', 'Coffee', 'Code', 'Music', 'Sun', 'Moon', 'Star', 'Heart', 'Smile'];
@@ -27,6 +37,31 @@ const ICONS = ['Circle', 'CheckCircle', 'Zap', 'Brain', 'Book', 'Dumbbell', 'Dro
 // Crimson color for negative habits
 const CRIMSON = '#ff4d4d';
 
+// Accent colors for the picker (first two are the Build/Break defaults)
+const COLOR_OPTIONS = [COLORS.bioOrange, CRIMSON, '#4ecdc4', '#45b7d1', '#9b59b6', '#27ae60', '#a8a8a8'];
+
+// Default accent color for a habit type
+const getDefaultColor = (type: 'positive' | 'negative') => type === 'positive' ? COLORS.bioOrange : CRIMSON;
+
+// Schedule choices (Break habits are always daily)
+const SCHEDULE_OPTIONS: Array<{ type: ScheduleType; label: string }> = [
+    { type: 'daily', label: 'Daily' },
+    { type: 'weekdays', label: 'Set Days' },
+    { type: 'weekly', label: 'Per Week' },
+    { type: 'interval', label: 'Every N' },
+];
+
+// Day toggles, Sunday first to match Date.getDay()
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Parse an "HH:MM" reminder into a Date today
+const parseReminderTime = (time: string): Date => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+};
+
 // Protocol type definition
 interface Protocol {
     id: string;
@@ -38,6 +73,7 @@ interface Protocol {
         title: string;
         iconKey: string;
         type: 'positive' | 'negative';
+        measure?: HabitMeasure;
     }>;
 }
 
@@ -64,7 +100,7 @@ const PROTOCOLS: Protocol[] = [
         habits: [
             { title: 'Workout', iconKey: 'Dumbbell', type: 'positive' },
             { title: '8h Sleep', iconKey: 'Moon', type: 'positive' },
-            { title: 'Hit Protein Goal', iconKey: 'Droplets', type: 'positive' },
+            { title: 'Hit Protein Goal', iconKey: 'Droplets', type: 'positive', measure: { target: 150, unit: 'g' } },
         ],
     },
     {
@@ -84,12 +120,14 @@ const PROTOCOLS: Protocol[] = [
 interface CreateHabitSheetProps {
     visible: boolean;
     onClose: () => void;
+    habit?: Habit | null; // Habit to edit (omit to create)
 }
 
 type TabType = 'create' | 'protocols';
 
-export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onClose }) => {
-    const { addHabit } = useHabitStore();
+export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onClose, habit }) => {
+    const { addHabit, updateHabit } = useHabitStore();
+    const isEditing = !!habit;
 
     // Tab State
     const [activeTab, setActiveTab] = useState<TabType>('create');
@@ -98,51 +136,134 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
     const [title, setTitle] = useState('');
     const [selectedIcon, setSelectedIcon] = useState('Circle');
     const [habitType, setHabitType] = useState<'positive' | 'negative'>('positive');
+    const [selectedColor, setSelectedColor] = useState<string>(COLORS.bioOrange);
     const [reminderEnabled, setReminderEnabled] = useState(false);
     const [reminderTime, setReminderTime] = useState(new Date());
     const [showAndroidPicker, setShowAndroidPicker] = useState(false);
 
-    // Reset form when opening
+    // Schedule State (each type keeps its own value while switching between them)
+    const [scheduleType, setScheduleType] = useState<ScheduleType>('daily');
+    const [scheduleDays, setScheduleDays] = useState<number[]>([1, 3, 5]);
+    const [timesPerWeek, setTimesPerWeek] = useState(3);
+    const [intervalDays, setIntervalDays] = useState(2);
+
+    // Target State (text so the field can be cleared while typing)
+    const [measureEnabled, setMeasureEnabled] = useState(false);
+    const [targetText, setTargetText] = useState('');
+    const [unit, setUnit] = useState('');
+
+    // Counter State
+    const [isCounter, setIsCounter] = useState(false);
+
+    // Skipped days allowed per month
+    const [freezesPerMonth, setFreezesPerMonth] = useState(DEFAULT_FREEZES_PER_MONTH);
+
+    // Reset form when opening (or prefill it when editing)
     useEffect(() => {
         if (visible) {
+            const type = habit?.type === 'negative' ? 'negative' : 'positive';
+            const schedule = habit ? getHabitSchedule(habit) : null;
+            const measure = habit ? getHabitMeasure(habit) : null;
             setActiveTab('create');
-            setTitle('');
-            setSelectedIcon('Circle');
-            setHabitType('positive');
-            setReminderEnabled(false);
-            setReminderTime(new Date());
+            setTitle(habit?.title ?? '');
+            setSelectedIcon(habit?.iconKey ?? 'Circle');
+            setHabitType(type);
+            setSelectedColor(habit?.color ?? getDefaultColor(type));
+            setReminderEnabled(!!habit?.reminderTime);
+            setReminderTime(habit?.reminderTime ? parseReminderTime(habit.reminderTime) : new Date());
             setShowAndroidPicker(false);
+            setScheduleType(schedule?.type ?? 'daily');
+            setScheduleDays(schedule?.type === 'weekdays' ? schedule.days : [1, 3, 5]);
+            setTimesPerWeek(schedule?.type === 'weekly' ? schedule.timesPerWeek : 3);
+            setIntervalDays(schedule?.type === 'interval' ? schedule.everyDays : 2);
+            setMeasureEnabled(!!measure);
+            setTargetText(measure ? String(measure.target) : '');
+            setUnit(measure?.unit ?? '');
+            setIsCounter(!!habit?.counter);
+            setFreezesPerMonth(habit?.freezesPerMonth ?? DEFAULT_FREEZES_PER_MONTH);
+        }
+    }, [visible, habit]);
+
+    // Switching type carries the default color along unless a custom one was picked
+    const handleTypeChange = (type: 'positive' | 'negative') => {
+        if (selectedColor === getDefaultColor(habitType)) {
+            setSelectedColor(getDefaultColor(type));
+        }
+        setHabitType(type);
+    };
+
+    const toggleScheduleDay = (day: number) => {
+        Haptics.selectionAsync();
+        setScheduleDays(days => {
+            // Keep at least one day selected
+            if (days.includes(day)) return days.length > 1 ? days.filter(d => d !== day) : days;
+            return [...days, day];
+        });
+    };
+
+    const buildSchedule = (): HabitSchedule => {
+        if (habitType === 'negative') return { type: 'daily' };
+        switch (scheduleType) {
+            case 'weekdays': return { type: 'weekdays', days: scheduleDays };
+            case 'weekly': return { type: 'weekly', timesPerWeek };
+            case 'interval': return { type: 'interval', everyDays: intervalDays };
+            default: return { type: 'daily' };
         }
-    }, [visible]);
+    };
+
+    // Null unless a positive number was entered
+    const buildMeasure = (): HabitMeasure | null => {
+        if (habitType === 'negative' || isCounter || !measureEnabled) return null;
+        const target = Number(targetText.replace(',', '.'));
+        if (!Number.isFinite(target) || target <= 0) return null;
+        return { target, unit: unit.trim() };
+    };
 
     const handleSave = async () => {
         if (!title.trim()) return;
 
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-        // Color based on habit type
-        const color = habitType === 'positive' ? COLORS.bioOrange : CRIMSON;
-
-        // Format time string if enabled
+        // Format time string if enabled (the store schedules the reminder)
         let timeStr: string | undefined;
         if (reminderEnabled) {
-            const hasPerms = await NotificationManager.requestPermissions();
-            if (hasPerms) {
-                const hours = reminderTime.getHours();
-                const minutes = reminderTime.getMinutes();
-                timeStr = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-
-                await NotificationManager.scheduleDailyReminder(
-                    title,
-                    "Time for the Void",
-                    `Time to ${title}.`,
-                    hours,
-                    minutes
+            const hours = reminderTime.getHours();
+            const minutes = reminderTime.getMinutes();
+            timeStr = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+
+            // An unchanged reminder is kept as it is; a new or moved one needs permission
+            const isUnchanged = !!habit && habit.reminderTime === timeStr;
+            if (!isUnchanged && !(await NotificationManager.requestPermissions())) {
+                Alert.alert(
+                    'Notifications blocked',
+                    'Allow notifications for Void Tracker in system settings, or turn the reminder off to save.',
+                    [
+                        { text: 'Cancel', style: 'cancel' },
+                        { text: 'Open Settings', onPress: NotificationManager.openSystemSettings },
+                    ]
                 );
+                return;
             }
         }
 
-        await addHabit(title, selectedIcon, color, timeStr, habitType);
+        const measure = buildMeasure();
+
+        if (habit) {
+            await updateHabit(habit.id, {
+                title: title.trim(),
+                iconKey: selectedIcon,
+                color: selectedColor,
+                type: habitType,
+                reminderTime: timeStr ?? null,
+                ...scheduleToColumns(buildSchedule()),
+                targetValue: measure?.target ?? null,
+                unit: measure?.unit ?? null,
+                counter: isCounter,
+                freezesPerMonth,
+            });
+        } else {
+            await addHabit(title, selectedIcon, selectedColor, timeStr, habitType, buildSchedule(), measure, isCounter, freezesPerMonth);
+        }
         onClose();
     };
 
@@ -154,7 +275,7 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
         // Batch insert all habits from the protocol
         for (const habit of protocol.habits) {
             const color = habit.type === 'positive' ? COLORS.bioOrange : CRIMSON;
-            await addHabit(habit.title, habit.iconKey, color, undefined, habit.type);
+            await addHabit(habit.title, habit.iconKey, color, undefined, habit.type, undefined, habit.measure);
         }
 
         // Close modal
@@ -195,29 +316,31 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
 
                     {/* Header */}
                     <View style={styles.header}>
-                        <Text style={styles.headerTitle}>MANIFEST HABIT</Text>
+                        <Text style={styles.headerTitle}>{isEditing ? 'EDIT HABIT' : 'MANIFEST HABIT'}</Text>
                         <Pressable onPress={onClose} style={styles.closeButton}>
                             <X size={24} color={COLORS.mist} />
                         </Pressable>
                     </View>
 
-                    {/* Tab Switcher */}
-                    <View style={styles.tabContainer}>
-                        <Pressable
-                            style={[styles.tab, activeTab === 'create' && styles.tabActive]}
-                            onPress={() => setActiveTab('create')}
-                        >
-                            <Plus size={16} color={activeTab === 'create' ? COLORS.voidBlue : COLORS.mist} />
-                            <Text style={[styles.tabText, activeTab === 'create' && styles.tabTextActive]}>Create</Text>
-                        </Pressable>
-                        <Pressable
-                            style={[styles.tab, activeTab === 'protocols' && styles.tabActive]}
-                            onPress={() => setActiveTab('protocols')}
-                        >
-                            <Sparkles size={16} color={activeTab === 'protocols' ? COLORS.voidBlue : COLORS.mist} />
-                            <Text style={[styles.tabText, activeTab === 'protocols' && styles.tabTextActive]}>Protocols</Text>
-                        </Pressable>
-                    </View>
+                    {/* Tab Switcher (protocols only make sense when creating) */}
+                    {!isEditing && (
+                        <View style={styles.tabContainer}>
+                            <Pressable
+                                style={[styles.tab, activeTab === 'create' && styles.tabActive]}
+                                onPress={() => setActiveTab('create')}
+                            >
+                                <Plus size={16} color={activeTab === 'create' ? COLORS.voidBlue : COLORS.mist} />
+                                <Text style={[styles.tabText, activeTab === 'create' && styles.tabTextActive]}>Create</Text>
+                            </Pressable>
+                            <Pressable
+                                style={[styles.tab, activeTab === 'protocols' && styles.tabActive]}
+                                onPress={() => setActiveTab('protocols')}
+                            >
+                                <Sparkles size={16} color={activeTab === 'protocols' ? COLORS.voidBlue : COLORS.mist} />
+                                <Text style={[styles.tabText, activeTab === 'protocols' && styles.tabTextActive]}>Protocols</Text>
+                            </Pressable>
+                        </View>
+                    )}
 
                     {/* Content based on tab */}
                     {activeTab === 'create' ? (
@@ -232,7 +355,7 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
                                                 styles.typeOption,
                                                 habitType === 'positive' && styles.typeOptionActivePositive
                                             ]}
-                                            onPress={() => setHabitType('positive')}
+                                            onPress={() => handleTypeChange('positive')}
                                         >
                                             <Plus size={18} color={habitType === 'positive' ? COLORS.voidBlue : COLORS.mist} strokeWidth={3} />
                                             <Text style={[
@@ -245,7 +368,7 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
                                                 styles.typeOption,
                                                 habitType === 'negative' && styles.typeOptionActiveNegative
                                             ]}
-                                            onPress={() => setHabitType('negative')}
+                                            onPress={() => handleTypeChange('negative')}
                                         >
                                             <Minus size={18} color={habitType === 'negative' ? COLORS.voidBlue : COLORS.mist} strokeWidth={3} />
                                             <Text style={[
@@ -301,6 +424,185 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
                                     </ScrollView>
                                 </View>
 
+                                {/* Color Picker */}
+                                <View style={styles.inputGroup}>
+                                    <Text style={styles.label}>CHOOSE A COLOR</Text>
+                                    <ScrollView
+                                        horizontal
+                                        showsHorizontalScrollIndicator={false}
+                                        contentContainerStyle={styles.iconList}
+                                    >
+                                        {COLOR_OPTIONS.map(color => (
+                                            <Pressable
+                                                key={color}
+                                                style={[
+                                                    styles.colorOption,
+                                                    selectedColor === color && styles.colorOptionSelected
+                                                ]}
+                                                onPress={() => setSelectedColor(color)}
+                                            >
+                                                <View style={[styles.colorSwatch, { backgroundColor: color }]} />
+                                            </Pressable>
+                                        ))}
+                                    </ScrollView>
+                                </View>
+
+                                {/* Schedule (Build habits only) */}
+                                {habitType === 'positive' && (
+                                    <View style={styles.inputGroup}>
+                                        <Text style={styles.label}>SCHEDULE</Text>
+                                        <View style={styles.scheduleOptions}>
+                                            {SCHEDULE_OPTIONS.map(option => (
+                                                <Pressable
+                                                    key={option.type}
+                                                    style={[
+                                                        styles.scheduleOption,
+                                                        scheduleType === option.type && styles.scheduleOptionActive
+                                                    ]}
+                                                    onPress={() => {
+                                                        Haptics.selectionAsync();
+                                                        setScheduleType(option.type);
+                                                    }}
+                                                >
+                                                    <Text style={[
+                                                        styles.scheduleOptionText,
+                                                        scheduleType === option.type && styles.scheduleOptionTextActive
+                                                    ]}>{option.label}</Text>
+                                                </Pressable>
+                                            ))}
+                                        </View>
+
+                                        {scheduleType === 'weekdays' && (
+                                            <View style={styles.weekdayRow}>
+                                                {WEEKDAY_LABELS.map((label, day) => {
+                                                    const isSelected = scheduleDays.includes(day);
+                                                    return (
+                                                        <Pressable
+                                                            key={day}
+                                                            style={[styles.weekdayOption, isSelected && styles.weekdayOptionSelected]}
+                                                            onPress={() => toggleScheduleDay(day)}
+                                                        >
+                                                            <Text style={[
+                                                                styles.weekdayText,
+                                                                isSelected && styles.weekdayTextSelected
+                                                            ]}>{label}</Text>
+                                                        </Pressable>
+                                                    );
+                                                })}
+                                            </View>
+                                        )}
+
+                                        {scheduleType === 'weekly' && (
+                                            <View style={styles.stepperRow}>
+                                                <Pressable
+                                                    style={styles.stepperButton}
+                                                    onPress={() => setTimesPerWeek(n => Math.max(1, n - 1))}
+                                                >
+                                                    <Minus size={16} color={COLORS.mist} />
+                                                </Pressable>
+                                                <Text style={styles.stepperValue}>{timesPerWeek}× a week</Text>
+                                                <Pressable
+                                                    style={styles.stepperButton}
+                                                    onPress={() => setTimesPerWeek(n => Math.min(6, n + 1))}
+                                                >
+                                                    <Plus size={16} color={COLORS.mist} />
+                                                </Pressable>
+                                            </View>
+                                        )}
+
+                                        {scheduleType === 'interval' && (
+                                            <View style={styles.stepperRow}>
+                                                <Pressable
+                                                    style={styles.stepperButton}
+                                                    onPress={() => setIntervalDays(n => Math.max(2, n - 1))}
+                                                >
+                                                    <Minus size={16} color={COLORS.mist} />
+                                                </Pressable>
+                                                <Text style={styles.stepperValue}>Every {intervalDays} days</Text>
+                                                <Pressable
+                                                    style={styles.stepperButton}
+                                                    onPress={() => setIntervalDays(n => Math.min(30, n + 1))}
+                                                >
+                                                    <Plus size={16} color={COLORS.mist} />
+                                                </Pressable>
+                                            </View>
+                                        )}
+                                    </View>
+                                )}
+
+                                {/* Counter */}
+                                <View style={styles.inputGroup}>
+                                    <View style={styles.switchRow}>
+                                        <Text style={styles.label}>
+                                            {habitType === 'positive' ? 'LOG SEVERAL TIMES A DAY' : 'COUNT EVERY SLIP'}
+                                        </Text>
+                                        <Switch
+                                            value={isCounter}
+                                            onValueChange={setIsCounter}
+                                            trackColor={{ false: '#333', true: habitType === 'positive' ? COLORS.bioOrange : CRIMSON }}
+                                            thumbColor={COLORS.mist}
+                                        />
+                                    </View>
+                                </View>
+
+                                {/* Daily Target (Build habits that aren't counters) */}
+                                {habitType === 'positive' && !isCounter && (
+                                    <View style={styles.inputGroup}>
+                                        <View style={styles.switchRow}>
+                                            <Text style={styles.label}>TRACK AN AMOUNT</Text>
+                                            <Switch
+                                                value={measureEnabled}
+                                                onValueChange={setMeasureEnabled}
+                                                trackColor={{ false: '#333', true: COLORS.bioOrange }}
+                                                thumbColor={COLORS.mist}
+                                            />
+                                        </View>
+
+                                        {measureEnabled && (
+                                            <View style={styles.measureRow}>
+                                                <TextInput
+                                                    style={[styles.textInput, styles.targetInput]}
+                                                    value={targetText}
+                                                    onChangeText={setTargetText}
+                                                    placeholder="8"
+                                                    placeholderTextColor="rgba(255, 255, 255, 0.2)"
+                                                    keyboardType="decimal-pad"
+                                                />
+                                                <TextInput
+                                                    style={[styles.textInput, styles.unitInput]}
+                                                    value={unit}
+                                                    onChangeText={setUnit}
+                                                    placeholder="glasses, minutes, pages..."
+                                                    placeholderTextColor="rgba(255, 255, 255, 0.2)"
+                                                    autoCapitalize="none"
+                                                />
+                                            </View>
+                                        )}
+                                    </View>
+                                )}
+
+                                {/* Freezes */}
+                                <View style={styles.inputGroup}>
+                                    <Text style={styles.label}>SKIPS PER MONTH</Text>
+                                    <View style={styles.stepperRow}>
+                                        <Pressable
+                                            style={styles.stepperButton}
+                                            onPress={() => setFreezesPerMonth(n => Math.max(0, n - 1))}
+                                        >
+                                            <Minus size={16} color={COLORS.mist} />
+                                        </Pressable>
+                                        <Text style={styles.stepperValue}>
+                                            {freezesPerMonth === 0 ? 'No skips' : `${freezesPerMonth} skip${freezesPerMonth === 1 ? '' : 's'}`}
+                                        </Text>
+                                        <Pressable
+                                            style={styles.stepperButton}
+                                            onPress={() => setFreezesPerMonth(n => Math.min(MAX_FREEZES_PER_MONTH, n + 1))}
+                                        >
+                                            <Plus size={16} color={COLORS.mist} />
+                                        </Pressable>
+                                    </View>
+                                </View>
+
                                 {/* Reminder Settings */}
                                 <View style={styles.inputGroup}>
                                     <View style={styles.switchRow}>
@@ -359,7 +661,7 @@ export const CreateHabitSheet: React.FC<CreateHabitSheetProps> = ({ visible, onC
                                 onPress={handleSave}
                                 disabled={!title.trim()}
                             >
-                                <Text style={styles.submitButtonText}>MANIFEST</Text>
+                                <Text style={styles.submitButtonText}>{isEditing ? 'SAVE' : 'MANIFEST'}</Text>
                                 <Check size={20} color={COLORS.voidBlue} strokeWidth={3} />
                             </Pressable>
                         </>
@@ -555,11 +857,107 @@ const styles = StyleSheet.create({
     iconOptionSelectedNegative: {
         backgroundColor: '#ff4d4d',
     },
+    colorOption: {
+        width: 48,
+        height: 48,
+        borderRadius: 24,
+        borderWidth: 2,
+        borderColor: 'transparent',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    colorOptionSelected: {
+        borderColor: COLORS.mist,
+    },
+    colorSwatch: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+    },
+    scheduleOptions: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    scheduleOption: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    scheduleOptionActive: {
+        backgroundColor: COLORS.bioOrange,
+        borderColor: COLORS.bioOrange,
+    },
+    scheduleOptionText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+    },
+    scheduleOptionTextActive: {
+        color: COLORS.voidBlue,
+    },
+    weekdayRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 16,
+    },
+    weekdayOption: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    weekdayOptionSelected: {
+        backgroundColor: COLORS.bioOrange,
+    },
+    weekdayText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+    },
+    weekdayTextSelected: {
+        color: COLORS.voidBlue,
+    },
+    stepperRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginTop: 16,
+    },
+    stepperButton: {
+        width: 40,
+        height: 40,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    stepperValue: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.mist,
+    },
     switchRow: {
         flexDirection: 'row',
         justifyContent: 'space-between',
         alignItems: 'center',
     },
+    measureRow: {
+        flexDirection: 'row',
+        gap: 16,
+        marginTop: 4,
+    },
+    targetInput: {
+        width: 80,
+        fontFamily: TYPOGRAPHY.fonts.mono,
+    },
+    unitInput: {
+        flex: 1,
+    },
     timePickerContainer: {
         marginTop: 12,
     },
@@ -0,0 +1,288 @@
+/**
+ * CSV Export Sheet
+ *
+ * Bottom sheet for exporting completion logs as CSV.
+ * Lets the user narrow the export to a date range and a single habit.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView, Platform, Alert } from 'react-native';
+import { X, Share2 } from 'lucide-react-native';
+import Animated, { SlideInDown, SlideOutDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+
+import { COLORS, TYPOGRAPHY } from '../theme';
+import { useHabitStore } from '../stores';
+import { BackupManager } from '../utils/BackupManager';
+import { getDateKey, type LogExportFilter } from '../db';
+
+type RangeOption = 'all' | '30d' | '90d' | 'year';
+
+const RANGES: Array<{ key: RangeOption; label: string }> = [
+    { key: 'all', label: 'All time' },
+    { key: '30d', label: '30 days' },
+    { key: '90d', label: '90 days' },
+    { key: 'year', label: 'This year' },
+];
+
+// First date key included by a range option
+const getRangeStart = (range: RangeOption): string | undefined => {
+    const today = new Date();
+    switch (range) {
+        case '30d':
+        case '90d': {
+            const start = new Date(today);
+            start.setDate(start.getDate() - (range === '30d' ? 29 : 89));
+            return getDateKey(start);
+        }
+        case 'year':
+            return `${today.getFullYear()}-01-01`;
+        default:
+            return undefined;
+    }
+};
+
+interface CsvExportSheetProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+export const CsvExportSheet: React.FC<CsvExportSheetProps> = ({ visible, onClose }) => {
+    const { habits, loadHabits } = useHabitStore();
+
+    const [range, setRange] = useState<RangeOption>('all');
+    const [habitId, setHabitId] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Reset filters when opening
+    useEffect(() => {
+        if (visible) {
+            if (habits.length === 0) {
+                loadHabits();
+            }
+            setRange('all');
+            setHabitId(null);
+            setIsExporting(false);
+        }
+    }, [visible]);
+
+    const handleExport = async () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setIsExporting(true);
+
+        const filter: LogExportFilter = {
+            fromDateKey: getRangeStart(range),
+            habitIds: habitId ? [habitId] : undefined,
+        };
+
+        try {
+            await BackupManager.exportLogsCsv(filter);
+            onClose();
+        } catch (error) {
+            Alert.alert('Export failed', error instanceof Error ? error.message : 'Unknown error');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (!visible) return null;
+
+    return (
+        <Modal
+            transparent
+            visible={visible}
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <View style={styles.overlay}>
+                <Pressable style={styles.backdrop} onPress={onClose} />
+
+                <Animated.View
+                    entering={SlideInDown}
+                    exiting={SlideOutDown}
+                    style={styles.sheet}
+                >
+                    {/* Handle Bar */}
+                    <View style={styles.handleBar} />
+
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <Text style={styles.headerTitle}>EXPORT CSV</Text>
+                        <Pressable onPress={onClose} style={styles.closeButton}>
+                            <X size={24} color={COLORS.mist} />
+                        </Pressable>
+                    </View>
+
+                    {/* Date Range */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>DATE RANGE</Text>
+                        <View style={styles.chipRow}>
+                            {RANGES.map(option => (
+                                <Pressable
+                                    key={option.key}
+                                    style={[styles.chip, range === option.key && styles.chipActive]}
+                                    onPress={() => {
+                                        Haptics.selectionAsync();
+                                        setRange(option.key);
+                                    }}
+                                >
+                                    <Text style={[styles.chipText, range === option.key && styles.chipTextActive]}>
+                                        {option.label}
+                                    </Text>
+                                </Pressable>
+                            ))}
+                        </View>
+                    </View>
+
+                    {/* Habit */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>HABIT</Text>
+                        <ScrollView
+                            horizontal
+                            showsHorizontalScrollIndicator={false}
+                            contentContainerStyle={styles.chipScroll}
+                        >
+                            <Pressable
+                                style={[styles.chip, habitId === null && styles.chipActive]}
+                                onPress={() => {
+                                    Haptics.selectionAsync();
+                                    setHabitId(null);
+                                }}
+                            >
+                                <Text style={[styles.chipText, habitId === null && styles.chipTextActive]}>
+                                    All habits
+                                </Text>
+                            </Pressable>
+                            {habits.map(habit => (
+                                <Pressable
+                                    key={habit.id}
+                                    style={[styles.chip, habitId === habit.id && styles.chipActive]}
+                                    onPress={() => {
+                                        Haptics.selectionAsync();
+                                        setHabitId(habit.id);
+                                    }}
+                                >
+                                    <Text style={[styles.chipText, habitId === habit.id && styles.chipTextActive]}>
+                                        {habit.title}
+                                    </Text>
+                                </Pressable>
+                            ))}
+                        </ScrollView>
+                    </View>
+
+                    {/* Submit Button */}
+                    <Pressable
+                        style={[styles.submitButton, isExporting && styles.submitButtonDisabled]}
+                        onPress={handleExport}
+                        disabled={isExporting}
+                    >
+                        <Text style={styles.submitButtonText}>EXPORT</Text>
+                        <Share2 size={20} color={COLORS.voidBlue} strokeWidth={3} />
+                    </Pressable>
+
+                    <View style={{ height: Platform.OS === 'ios' ? 40 : 20 }} />
+                </Animated.View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    backdrop: {
+        flex: 1,
+    },
+    sheet: {
+        backgroundColor: COLORS.voidBlue,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingHorizontal: 24,
+        maxHeight: '85%',
+    },
+    handleBar: {
+        width: 40,
+        height: 4,
+        backgroundColor: COLORS.mist,
+        opacity: 0.3,
+        borderRadius: 2,
+        alignSelf: 'center',
+        marginTop: 12,
+        marginBottom: 16,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    headerTitle: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+        letterSpacing: 2,
+    },
+    closeButton: {
+        padding: 8,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 2,
+        marginBottom: 12,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chipScroll: {
+        gap: 8,
+    },
+    chip: {
+        paddingVertical: 10,
+        paddingHorizontal: 16,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    chipActive: {
+        backgroundColor: COLORS.bioOrange,
+        borderColor: COLORS.bioOrange,
+    },
+    chipText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+    },
+    chipTextActive: {
+        color: COLORS.voidBlue,
+    },
+    submitButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: COLORS.bioOrange,
+        paddingVertical: 16,
+        borderRadius: 16,
+        gap: 8,
+    },
+    submitButtonDisabled: {
+        opacity: 0.5,
+    },
+    submitButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.voidBlue,
+        fontWeight: '600',
+        letterSpacing: 1,
+    },
+});
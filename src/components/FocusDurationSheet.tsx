@@ -0,0 +1,306 @@
+/**
+ * Focus Duration Sheet
+ *
+ * Bottom sheet for picking any countdown length (see FOCUS_MINUTES_LIMITS),
+ * optionally saving it as a named preset. Saved presets are listed here so they
+ * can be removed; they show up next to the built-in lengths on the focus screen.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+    View, Text, StyleSheet, Modal, Pressable, TextInput, KeyboardAvoidingView, Platform
+} from 'react-native';
+import { X, Check } from 'lucide-react-native';
+import Animated, { SlideInDown, SlideOutDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+
+import { COLORS, TYPOGRAPHY } from '../theme';
+import { useFocusStore } from '../stores';
+import { clampFocusMinutes, normalizePresetName, MAX_PRESET_NAME_LENGTH } from '../db';
+
+// Steps on either side of the length
+const STEPS = [-5, -1, 1, 5];
+
+interface FocusDurationSheetProps {
+    visible: boolean;
+    // Length to start from
+    minutes: number;
+    onClose: () => void;
+    // Called with the chosen length and the preset it was saved as, if any
+    onSelect: (minutes: number, presetId: string | null) => void;
+}
+
+export const FocusDurationSheet: React.FC<FocusDurationSheetProps> = ({ visible, minutes, onClose, onSelect }) => {
+    const customPresets = useFocusStore(state => state.customPresets);
+    const savePreset = useFocusStore(state => state.savePreset);
+    const removePreset = useFocusStore(state => state.removePreset);
+    const [length, setLength] = useState(minutes);
+    const [minutesText, setMinutesText] = useState(String(minutes));
+    const [name, setName] = useState('');
+
+    // Reset form when opening
+    useEffect(() => {
+        if (visible) {
+            setLength(minutes);
+            setMinutesText(String(minutes));
+            setName('');
+        }
+    }, [visible, minutes]);
+
+    const changeLength = (value: number) => {
+        const next = clampFocusMinutes(value);
+        setLength(next);
+        setMinutesText(String(next));
+    };
+
+    // A typed length counts straight away; the field shows it clamped once it loses focus
+    const handleMinutesText = (text: string) => {
+        setMinutesText(text);
+        const value = parseInt(text, 10);
+        if (!Number.isNaN(value)) setLength(clampFocusMinutes(value));
+    };
+
+    const presetName = normalizePresetName(name);
+
+    const handleSubmit = () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        const preset = presetName ? savePreset(presetName, length) : null;
+        onSelect(length, preset?.id ?? null);
+        onClose();
+    };
+
+    if (!visible) return null;
+
+    return (
+        <Modal
+            transparent
+            visible={visible}
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                style={styles.overlay}
+            >
+                <Pressable style={styles.backdrop} onPress={onClose} />
+
+                <Animated.View
+                    entering={SlideInDown}
+                    exiting={SlideOutDown}
+                    style={styles.sheet}
+                >
+                    {/* Handle Bar */}
+                    <View style={styles.handleBar} />
+
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <Text style={styles.headerTitle}>FOCUS LENGTH</Text>
+                        <Pressable onPress={onClose} style={styles.closeButton}>
+                            <X size={24} color={COLORS.mist} />
+                        </Pressable>
+                    </View>
+
+                    {/* Length */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>MINUTES</Text>
+                        <View style={styles.stepperRow}>
+                            {STEPS.slice(0, 2).map(step => (
+                                <Pressable key={step} style={styles.stepperButton} onPress={() => changeLength(length + step)}>
+                                    <Text style={styles.stepperButtonText}>{step}</Text>
+                                </Pressable>
+                            ))}
+                            <TextInput
+                                style={styles.minutesInput}
+                                value={minutesText}
+                                onChangeText={handleMinutesText}
+                                onBlur={() => setMinutesText(String(length))}
+                                keyboardType="number-pad"
+                                maxLength={3}
+                                selectTextOnFocus
+                            />
+                            {STEPS.slice(2).map(step => (
+                                <Pressable key={step} style={styles.stepperButton} onPress={() => changeLength(length + step)}>
+                                    <Text style={styles.stepperButtonText}>+{step}</Text>
+                                </Pressable>
+                            ))}
+                        </View>
+                    </View>
+
+                    {/* Preset name */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>SAVE AS PRESET (OPTIONAL)</Text>
+                        <TextInput
+                            style={styles.textInput}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder="e.g. Deep work, Quick review..."
+                            placeholderTextColor="rgba(255, 255, 255, 0.2)"
+                            maxLength={MAX_PRESET_NAME_LENGTH}
+                        />
+                    </View>
+
+                    {/* Saved presets */}
+                    {customPresets.length > 0 && (
+                        <View style={styles.inputGroup}>
+                            <Text style={styles.label}>SAVED</Text>
+                            {customPresets.map(preset => (
+                                <View key={preset.id} style={styles.presetRow}>
+                                    <Text style={styles.presetName} numberOfLines={1}>{preset.name}</Text>
+                                    <Text style={styles.presetMinutes}>{preset.minutes}m</Text>
+                                    <Pressable
+                                        onPress={() => {
+                                            Haptics.selectionAsync();
+                                            removePreset(preset.id);
+                                        }}
+                                        hitSlop={10}
+                                        style={styles.removeButton}
+                                    >
+                                        <X size={16} color={COLORS.mist} />
+                                    </Pressable>
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
+                    <Pressable style={styles.submitButton} onPress={handleSubmit}>
+                        <Text style={styles.submitButtonText}>
+                            {presetName ? 'SAVE & USE' : `USE ${length} MIN`}
+                        </Text>
+                        <Check size={20} color={COLORS.voidBlue} strokeWidth={3} />
+                    </Pressable>
+
+                    <View style={{ height: Platform.OS === 'ios' ? 40 : 20 }} />
+                </Animated.View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    backdrop: {
+        flex: 1,
+    },
+    sheet: {
+        backgroundColor: COLORS.voidBlue,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingHorizontal: 24,
+        maxHeight: '85%',
+    },
+    handleBar: {
+        width: 40,
+        height: 4,
+        backgroundColor: COLORS.mist,
+        opacity: 0.3,
+        borderRadius: 2,
+        alignSelf: 'center',
+        marginTop: 12,
+        marginBottom: 16,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    headerTitle: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+        letterSpacing: 2,
+    },
+    closeButton: {
+        padding: 8,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 2,
+        marginBottom: 12,
+    },
+    stepperRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    stepperButton: {
+        width: 44,
+        height: 40,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    stepperButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+    },
+    minutesInput: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.xl,
+        color: COLORS.mist,
+        textAlign: 'center',
+        minWidth: 72,
+        paddingVertical: 4,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    textInput: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+        paddingVertical: 12,
+    },
+    presetRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+    },
+    presetName: {
+        flex: 1,
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.mist,
+    },
+    presetMinutes: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+        opacity: 0.6,
+    },
+    removeButton: {
+        padding: 4,
+    },
+    submitButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: COLORS.bioOrange,
+        paddingVertical: 16,
+        borderRadius: 16,
+        gap: 8,
+    },
+    submitButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.voidBlue,
+        fontWeight: '600',
+        letterSpacing: 1,
+    },
+});
@@ -9,6 +9,11 @@
  * - Negative: Yellow dots for abstinence, red dots for failures
  * 
  * Days before habit creation are shown as dimmed/gray.
+ * Skipped (excused) days are shown as an icy dashed ring, vacation days as a faint dotted ring.
+ * The streak comes from the shared stats engine, so it matches the detail screen.
+ * Measurable habits show today's progress with -/+ buttons.
+ * Counter habits show today's count with undo-last / add-one buttons.
+ * Long-pressing a sparkline dot opens that day's journal entry.
  */
 
 import React from 'react';
@@ -18,16 +23,22 @@ import * as Haptics from 'expo-haptics';
 import * as Icons from 'lucide-react-native';
 import { COLORS, TYPOGRAPHY } from '../theme';
 import { GlassCard } from './ui/GlassCard';
+import { formatMeasure, getMeasureStep, type HabitMeasure } from '../db';
 
 // Colors for habit types
 const CRIMSON = '#ff4d4d';      // Failure red
 const GOLD = '#FFD700';         // Abstinence gold/yellow
 const DIM_GRAY = 'rgba(255, 255, 255, 0.05)'; // Pre-creation dimmed
+const ICE = '#7ec8e3';          // Skipped (frozen) day
 
-// Sparkline data type - now includes isBeforeCreation
+// Sparkline data type - now includes isBeforeCreation and isScheduled
 type SparklineDay = {
+    dateKey?: string;
     hasLog: boolean;
+    isSkipped?: boolean; // Excused day
+    isPaused?: boolean; // Vacation mode was on
     isBeforeCreation: boolean;
+    isScheduled?: boolean; // false on rest days; missing means scheduled
 } | boolean; // Support both old (boolean) and new format
 
 interface HabitSparklineCardProps {
@@ -36,9 +47,17 @@ interface HabitSparklineCardProps {
     iconKey: string;
     color: string;
     sparkline: SparklineDay[]; // Last 7 days
+    currentStreak: number; // Over the habit's whole history (see db/stats.ts)
     isCompletedToday: boolean;
     type?: 'positive' | 'negative';
+    measure?: HabitMeasure | null; // Target for measurable habits
+    todayValue?: number;
+    counter?: boolean; // Logged several times a day
+    todayCount?: number;
     onToggle: () => void;
+    onLogValue?: (amount: number) => void;
+    onUndo?: () => void; // Remove today's latest completion (counter habits)
+    onEditEntry?: (dateKey: string) => void; // Open a day's journal entry
 }
 
 // Helper for color opacity
@@ -55,9 +74,17 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
     iconKey,
     color,
     sparkline,
+    currentStreak,
     isCompletedToday,
     type = 'positive',
+    measure = null,
+    todayValue = 0,
+    counter = false,
+    todayCount = 0,
     onToggle,
+    onLogValue,
+    onUndo,
+    onEditEntry,
 }) => {
     const router = useRouter();
     const isNegative = type === 'negative';
@@ -68,45 +95,11 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
     // Normalize sparkline to new format
     const normalizedSparkline = sparkline.map(day => {
         if (typeof day === 'boolean') {
-            return { hasLog: day, isBeforeCreation: false };
+            return { hasLog: day, isSkipped: false, isPaused: false, isBeforeCreation: false, isScheduled: true };
         }
-        return day;
+        return { ...day, isSkipped: day.isSkipped ?? false, isPaused: day.isPaused ?? false, isScheduled: day.isScheduled ?? true };
     });
 
-    // Calculate streak based on habit type (only count days after creation)
-    const calculateStreak = () => {
-        if (isNegative) {
-            // Negative habit: consecutive days WITHOUT a log from today backwards
-            let streak = 0;
-            for (let i = normalizedSparkline.length - 1; i >= 0; i--) {
-                const day = normalizedSparkline[i];
-                if (day.isBeforeCreation) continue; // Skip pre-creation
-                if (!day.hasLog) {
-                    streak++;
-                } else {
-                    break; // Hit a failure day
-                }
-            }
-            return streak;
-        } else {
-            // Positive habit: consecutive days WITH a log
-            let streak = 0;
-            for (let i = normalizedSparkline.length - 1; i >= 0; i--) {
-                const day = normalizedSparkline[i];
-                if (day.isBeforeCreation) continue; // Skip pre-creation
-                if (day.hasLog) {
-                    streak++;
-                } else {
-                    if (i === normalizedSparkline.length - 1) continue; // Today not done yet
-                    break;
-                }
-            }
-            return streak;
-        }
-    };
-
-    const currentStreak = calculateStreak();
-
     const handlePress = () => {
         router.push(`/habit/${id}`);
     };
@@ -116,8 +109,33 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
         onToggle();
     };
 
+    const handleLogValue = (direction: 1 | -1) => {
+        if (!measure || !onLogValue) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onLogValue(direction * getMeasureStep(measure.target));
+    };
+
+    const handleDotLongPress = (dateKey: string) => {
+        if (!onEditEntry) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        onEditEntry(dateKey);
+    };
+
+    const handleAdd = () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onToggle();
+    };
+
+    const handleUndo = () => {
+        if (!onUndo) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onUndo();
+    };
+
     // Get accent color for the habit based on type
     const accentColor = isNegative ? GOLD : COLORS.bioOrange;
+    // Counting slips is bad news for a Break habit
+    const countColor = isNegative ? CRIMSON : COLORS.bioOrange;
 
     return (
         <Pressable
@@ -151,17 +169,74 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
                         )}
                     </View>
 
+                    {/* Progress Row: today's amount for measurable habits */}
+                    {measure && (
+                        <View style={styles.measureRow}>
+                            <Pressable
+                                style={styles.measureButton}
+                                onPress={() => handleLogValue(-1)}
+                                disabled={todayValue <= 0}
+                                hitSlop={8}
+                            >
+                                <Icons.Minus size={14} color={COLORS.mist} opacity={todayValue <= 0 ? 0.2 : 0.7} />
+                            </Pressable>
+                            <View style={styles.measureTrack}>
+                                <View style={[
+                                    styles.measureFill,
+                                    { width: `${Math.min(100, (todayValue / measure.target) * 100)}%` }
+                                ]} />
+                            </View>
+                            <Text style={[styles.measureText, isCompletedToday && { color: COLORS.bioOrange }]}>
+                                {formatMeasure(todayValue, measure)}
+                            </Text>
+                            <Pressable style={styles.measureButton} onPress={() => handleLogValue(1)} hitSlop={8}>
+                                <Icons.Plus size={14} color={COLORS.bioOrange} />
+                            </Pressable>
+                        </View>
+                    )}
+
+                    {/* Count Row: today's completions for counter habits */}
+                    {counter && (
+                        <View style={styles.measureRow}>
+                            <Pressable
+                                style={styles.measureButton}
+                                onPress={handleUndo}
+                                disabled={todayCount <= 0}
+                                hitSlop={8}
+                            >
+                                <Icons.Undo2 size={14} color={COLORS.mist} opacity={todayCount <= 0 ? 0.2 : 0.7} />
+                            </Pressable>
+                            <Text style={[styles.countText, todayCount > 0 && { color: countColor, opacity: 1 }]}>
+                                {todayCount}× today
+                            </Text>
+                            <Pressable style={styles.measureButton} onPress={handleAdd} hitSlop={8}>
+                                <Icons.Plus size={14} color={countColor} />
+                            </Pressable>
+                        </View>
+                    )}
+
                     {/* Bottom Row: Sparkline */}
                     <View style={styles.sparklineContainer}>
                         {normalizedSparkline.map((day, index) => {
                             let dotColor: string;
                             let isFilled: boolean;
-                            let isDimmed = day.isBeforeCreation;
+                            // Rest days without a log are dimmed like pre-creation days
+                            let isDimmed = day.isBeforeCreation || (!day.isScheduled && !day.hasLog);
+                            // A completion logged on vacation still shows as one
+                            const isPausedDot = day.isPaused && !(day.hasLog && !isNegative);
 
                             if (isDimmed) {
                                 // Pre-creation: show as very dim, no glow
                                 dotColor = DIM_GRAY;
                                 isFilled = false;
+                            } else if (isPausedDot) {
+                                // Paused: faint ring, the habit was resting
+                                dotColor = COLORS.mist;
+                                isFilled = false;
+                            } else if (day.isSkipped) {
+                                // Skipped: neutral ring, neither success nor failure
+                                dotColor = ICE;
+                                isFilled = false;
                             } else if (isNegative) {
                                 // Negative habit:
                                 // No log = abstinence (success) = Yellow filled
@@ -176,8 +251,18 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
                                 dotColor = COLORS.bioOrange;
                             }
 
+                            const { dateKey } = day;
+                            const canEditEntry = !!onEditEntry && !!dateKey && !day.isBeforeCreation;
+
                             return (
-                                <View key={index} style={styles.dotWrapper}>
+                                <Pressable
+                                    key={index}
+                                    style={styles.dotWrapper}
+                                    onLongPress={canEditEntry ? () => handleDotLongPress(dateKey!) : undefined}
+                                    delayLongPress={400}
+                                    disabled={!canEditEntry}
+                                    hitSlop={8}
+                                >
                                     <View
                                         style={[
                                             styles.dot,
@@ -185,7 +270,11 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
                                                 ? { backgroundColor: dotColor, borderColor: dotColor }
                                                 : isDimmed
                                                     ? styles.dotDimmed
-                                                    : styles.dotEmpty
+                                                    : isPausedDot
+                                                        ? styles.dotPaused
+                                                        : day.isSkipped
+                                                            ? styles.dotSkipped
+                                                            : styles.dotEmpty
                                         ]}
                                     />
                                     {/* Glow effect for filled dots (not for dimmed) */}
@@ -195,7 +284,7 @@ export const HabitSparklineCard: React.FC<HabitSparklineCardProps> = ({
                                             { backgroundColor: dotColor }
                                         ]} />
                                     )}
-                                </View>
+                                </Pressable>
                             );
                         })}
                     </View>
@@ -252,6 +341,46 @@ const styles = StyleSheet.create({
         fontFamily: TYPOGRAPHY.fonts.monoBold,
         fontSize: 10,
     },
+    measureRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        marginTop: 12,
+    },
+    measureButton: {
+        width: 24,
+        height: 24,
+        borderRadius: 8,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    measureTrack: {
+        flex: 1,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: 'rgba(238, 238, 238, 0.1)',
+        overflow: 'hidden',
+    },
+    measureFill: {
+        height: '100%',
+        borderRadius: 2,
+        backgroundColor: COLORS.bioOrange,
+    },
+    measureText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.8,
+    },
+    countText: {
+        flex: 1,
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.5,
+        textAlign: 'center',
+    },
     sparklineContainer: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -275,6 +404,16 @@ const styles = StyleSheet.create({
         backgroundColor: 'transparent',
         borderColor: 'rgba(238, 238, 238, 0.2)',
     },
+    dotSkipped: {
+        backgroundColor: 'transparent',
+        borderColor: ICE,
+        borderStyle: 'dashed',
+    },
+    dotPaused: {
+        backgroundColor: 'transparent',
+        borderColor: 'rgba(255, 255, 255, 0.25)',
+        borderStyle: 'dotted',
+    },
     dotDimmed: {
         backgroundColor: 'rgba(255, 255, 255, 0.03)',
         borderColor: 'rgba(255, 255, 255, 0.05)',
@@ -1,10 +1,11 @@
 /**
  * HistoryMap - Constellation View of Habit Progress
  * 
- * Displays the last 30 days as a grid of stars.
+ * Displays a range of days as a grid of stars, aligned to weekday columns.
  * - Perfect days are glowing orange stars
  * - Partial days are smaller white stars
  * - Empty days are dim grey dots
+ * - Paused days (vacation mode) are faint hollow rings
  * 
  * Includes a glowing "Constellation" effect where perfect days
  * pulse with energy.
@@ -33,15 +34,19 @@ export interface DayData {
     dateKey: string;
     completedCount: number;
     totalCount: number;
+    isPaused?: boolean;
 }
 
 interface HistoryMapProps {
     data: DayData[];
+    subtitle?: string;
 }
 
 // Star component purely for visual representation
+type StarStatus = 'perfect' | 'partial' | 'empty' | 'paused';
+
 const StarNode: React.FC<{
-    status: 'perfect' | 'partial' | 'empty';
+    status: StarStatus;
     index: number;
 }> = ({ status, index }) => {
     // Animation for pulsing glow (perfect days only)
@@ -78,6 +83,14 @@ const StarNode: React.FC<{
     const size = status === 'perfect' ? 14 : status === 'partial' ? 8 : 4;
     const color = status === 'perfect' ? COLORS.bioOrange : status === 'partial' ? COLORS.mist : '#333333';
 
+    if (status === 'paused') {
+        return (
+            <View style={[styles.starContainer, { width: STAR_SIZE_BASE, height: STAR_SIZE_BASE }]}>
+                <View style={styles.pausedStar} />
+            </View>
+        );
+    }
+
     return (
         <View style={[styles.starContainer, { width: STAR_SIZE_BASE, height: STAR_SIZE_BASE }]}>
             {status === 'perfect' && (
@@ -99,12 +112,18 @@ const StarNode: React.FC<{
     );
 };
 
-export const HistoryMap: React.FC<HistoryMapProps> = ({ data }) => {
+export const HistoryMap: React.FC<HistoryMapProps> = ({ data, subtitle = 'Last 30 Days' }) => {
     // Weekday headers
     const weekDays = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
+    // Blank cells so the first day lands under its weekday
+    const leadingBlanks = data.length > 0
+        ? new Date(`${data[0].dateKey}T00:00:00`).getDay()
+        : 0;
+
     // Helper to determine status
-    const getStatus = (day: DayData) => {
+    const getStatus = (day: DayData): StarStatus => {
+        if (day.isPaused) return 'paused';
         if (day.completedCount === 0) return 'empty';
         if (day.completedCount >= day.totalCount) return 'perfect';
         return 'partial';
@@ -113,7 +132,7 @@ export const HistoryMap: React.FC<HistoryMapProps> = ({ data }) => {
     return (
         <View style={styles.container}>
             <Text style={styles.title}>CONSTELLATION</Text>
-            <Text style={styles.subtitle}>Last 30 Days</Text>
+            <Text style={styles.subtitle}>{subtitle}</Text>
 
             <View style={styles.gridContainer}>
                 {/* Headers */}
@@ -127,6 +146,9 @@ export const HistoryMap: React.FC<HistoryMapProps> = ({ data }) => {
 
                 {/* Stars Grid */}
                 <View style={styles.grid}>
+                    {Array.from({ length: leadingBlanks }, (_, i) => (
+                        <View key={`blank-${i}`} style={[styles.starContainer, { width: STAR_SIZE_BASE, height: STAR_SIZE_BASE }]} />
+                    ))}
                     {data.map((day, i) => (
                         <StarNode
                             key={day.dateKey}
@@ -143,6 +165,12 @@ export const HistoryMap: React.FC<HistoryMapProps> = ({ data }) => {
                     <View style={[styles.legendDot, { backgroundColor: '#333', opacity: 0.5 }]} />
                     <Text style={styles.legendText}>No tasks</Text>
                 </View>
+                {data.some(day => day.isPaused) && (
+                    <View style={styles.legendItem}>
+                        <View style={[styles.legendDot, styles.pausedStar]} />
+                        <Text style={styles.legendText}>Paused</Text>
+                    </View>
+                )}
                 <View style={styles.legendItem}>
                     <View style={[styles.legendDot, { backgroundColor: COLORS.mist, opacity: 0.8 }]} />
                     <Text style={styles.legendText}>Partial</Text>
@@ -186,7 +214,7 @@ const styles = StyleSheet.create({
     grid: {
         flexDirection: 'row',
         flexWrap: 'wrap',
-        justifyContent: 'center',
+        justifyContent: 'flex-start',
         width: STAR_SIZE_BASE * GRID_COLS,
     },
     cell: {
@@ -207,6 +235,15 @@ const styles = StyleSheet.create({
     star: {
         // Base styles handled inline
     },
+    pausedStar: {
+        width: 8,
+        height: 8,
+        borderRadius: 4,
+        borderWidth: 1,
+        borderColor: COLORS.mist,
+        borderStyle: 'dotted',
+        opacity: 0.4,
+    },
     glow: {
         position: 'absolute',
         width: 32,
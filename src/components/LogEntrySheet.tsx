@@ -0,0 +1,403 @@
+/**
+ * Log Entry Sheet
+ *
+ * Bottom sheet for writing a journal entry on one day of a habit:
+ * a free-text note and a 1-5 mood / effort rating.
+ * Opened by long-pressing a day in the habit calendar or on a sparkline card.
+ * Saving on a Break habit's day without a log records a slip; a Build habit's day
+ * has to be logged (or skipped) before it takes a note, so writing never completes it.
+ * A day with nothing logged can be skipped instead, using one of the month's freezes.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+    View, Text, StyleSheet, Modal, TextInput, Pressable,
+    KeyboardAvoidingView, Platform, Alert
+} from 'react-native';
+import { X, Check, Snowflake, Angry, Frown, Meh, Smile, Laugh, type LucideIcon } from 'lucide-react-native';
+import Animated, { SlideInDown, SlideOutDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+
+import { COLORS, TYPOGRAPHY } from '../theme';
+import { useHabitStore } from '../stores';
+import { NOTE_MAX_LENGTH, isSkippedLog } from '../db';
+
+const CRIMSON = '#ff4d4d';
+const ICE = '#7ec8e3';
+
+// Mood ratings, worst to best
+export const MOODS: Array<{ value: number; label: string; Icon: LucideIcon }> = [
+    { value: 1, label: 'Awful', Icon: Angry },
+    { value: 2, label: 'Rough', Icon: Frown },
+    { value: 3, label: 'Okay', Icon: Meh },
+    { value: 4, label: 'Good', Icon: Smile },
+    { value: 5, label: 'Great', Icon: Laugh },
+];
+
+// Readable date for a "YYYY-MM-DD" key, e.g. "Mon, Mar 3"
+export const formatDateKey = (dateKey: string): string => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+        weekday: 'short', month: 'short', day: 'numeric'
+    });
+};
+
+interface LogEntrySheetProps {
+    visible: boolean;
+    onClose: () => void;
+    habitId: string;
+    habitTitle: string;
+    type?: 'positive' | 'negative';
+    dateKey: string;
+}
+
+export const LogEntrySheet: React.FC<LogEntrySheetProps> = ({
+    visible,
+    onClose,
+    habitId,
+    habitTitle,
+    type = 'positive',
+    dateKey,
+}) => {
+    const { getDayLog, saveLogEntry, setDaySkipped, getFreezesLeft } = useHabitStore();
+    const isNegative = type === 'negative';
+    const accentColor = isNegative ? CRIMSON : COLORS.bioOrange;
+
+    const [note, setNote] = useState('');
+    const [mood, setMood] = useState<number | null>(null);
+    const [hasLog, setHasLog] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Skip state: whether the day was skipped when opened, and what the user picked
+    const [wasSkipped, setWasSkipped] = useState(false);
+    const [skipped, setSkipped] = useState(false);
+    const [freezesLeft, setFreezesLeft] = useState(0);
+
+    // Load the day's existing entry when opening
+    useEffect(() => {
+        if (!visible) return;
+
+        let cancelled = false;
+        setIsSaving(false);
+        Promise.all([getDayLog(habitId, dateKey), getFreezesLeft(habitId, dateKey)]).then(([log, freezes]) => {
+            if (cancelled) return;
+            setNote(log?.note ?? '');
+            setMood(log?.mood ?? null);
+            setHasLog(!!log);
+            setWasSkipped(!!log && isSkippedLog(log));
+            setSkipped(!!log && isSkippedLog(log));
+            setFreezesLeft(freezes);
+        });
+        return () => { cancelled = true; };
+    }, [visible, habitId, dateKey]);
+
+    const handleMoodPress = (value: number) => {
+        Haptics.selectionAsync();
+        // Tapping the selected mood clears it
+        setMood(current => current === value ? null : value);
+    };
+
+    const handleSkipPress = () => {
+        Haptics.selectionAsync();
+        setSkipped(current => !current);
+    };
+
+    const handleSave = async () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setIsSaving(true);
+        if (skipped !== wasSkipped) {
+            try {
+                await setDaySkipped(habitId, dateKey, skipped);
+            } catch (error) {
+                // Keep the sheet open; saving the entry now would log the day instead
+                Alert.alert(skipped ? 'Could not skip this day' : 'Could not unskip this day', error instanceof Error ? error.message : 'Unknown error');
+                setIsSaving(false);
+                return;
+            }
+        }
+        if (!needsLog || isNegative) {
+            await saveLogEntry(habitId, dateKey, { note, mood });
+        }
+        onClose();
+    };
+
+    if (!visible) return null;
+
+    // Only a day with nothing logged (or already skipped) can be skipped
+    const canSkip = !hasLog || wasSkipped;
+    // An empty (or no longer skipped) day: a note creates a slip for Break habits,
+    // but a Build habit has to be logged first
+    const needsLog = !skipped && (!hasLog || wasSkipped);
+    const canSave = hasLog || skipped || (isNegative && (!!note.trim() || mood !== null));
+    const [year, month] = dateKey.split('-').map(Number);
+    const monthName = new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long' });
+
+    return (
+        <Modal
+            transparent
+            visible={visible}
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <KeyboardAvoidingView
+                behavior={Platform.OS === "ios" ? "padding" : "height"}
+                style={styles.overlay}
+            >
+                <Pressable style={styles.backdrop} onPress={onClose} />
+
+                <Animated.View
+                    entering={SlideInDown}
+                    exiting={SlideOutDown}
+                    style={styles.sheet}
+                >
+                    {/* Handle Bar */}
+                    <View style={styles.handleBar} />
+
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <View style={styles.headerText}>
+                            <Text style={styles.headerTitle}>JOURNAL</Text>
+                            <Text style={styles.headerSubtitle} numberOfLines={1}>
+                                {habitTitle} · {formatDateKey(dateKey)}
+                            </Text>
+                        </View>
+                        <Pressable onPress={onClose} style={styles.closeButton}>
+                            <X size={24} color={COLORS.mist} />
+                        </Pressable>
+                    </View>
+
+                    {/* Mood */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{isNegative ? 'HOW WERE YOU FEELING?' : 'HOW DID IT GO?'}</Text>
+                        <View style={styles.moodRow}>
+                            {MOODS.map(({ value, label, Icon }) => {
+                                const isSelected = mood === value;
+                                return (
+                                    <Pressable
+                                        key={value}
+                                        style={[styles.moodOption, isSelected && { backgroundColor: accentColor }]}
+                                        onPress={() => handleMoodPress(value)}
+                                    >
+                                        <Icon size={22} color={isSelected ? COLORS.voidBlue : COLORS.mist} />
+                                        <Text style={[styles.moodLabel, isSelected && styles.moodLabelSelected]}>{label}</Text>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+                    </View>
+
+                    {/* Note */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{isNegative ? 'WHAT TRIGGERED IT?' : 'NOTES'}</Text>
+                        <TextInput
+                            style={styles.noteInput}
+                            value={note}
+                            onChangeText={setNote}
+                            placeholder={isNegative ? "Where were you, who with, what happened..." : "What helped, what got in the way..."}
+                            placeholderTextColor="rgba(255, 255, 255, 0.2)"
+                            maxLength={NOTE_MAX_LENGTH}
+                            multiline
+                            textAlignVertical="top"
+                        />
+                        {needsLog && (
+                            <Text style={styles.hint}>
+                                {isNegative ? 'Saving also records a slip on this day.' : 'Log this day first to keep a note on it.'}
+                            </Text>
+                        )}
+                    </View>
+
+                    {/* Skip (sick, travelling...) */}
+                    {canSkip && (
+                        <View style={styles.inputGroup}>
+                            <Pressable
+                                style={[styles.skipButton, skipped && styles.skipButtonActive]}
+                                onPress={handleSkipPress}
+                                disabled={!wasSkipped && freezesLeft <= 0}
+                            >
+                                <Snowflake size={18} color={skipped ? COLORS.voidBlue : ICE} />
+                                <View style={styles.skipText}>
+                                    <Text style={[styles.skipTitle, skipped && styles.skipTitleActive]}>
+                                        {skipped ? 'Day skipped' : 'Skip this day'}
+                                    </Text>
+                                    <Text style={[styles.skipSubtitle, skipped && styles.skipTitleActive]}>
+                                        {wasSkipped
+                                            ? `Uses a freeze · ${freezesLeft} left in ${monthName}`
+                                            : `${freezesLeft} freeze${freezesLeft === 1 ? '' : 's'} left in ${monthName}`}
+                                    </Text>
+                                </View>
+                            </Pressable>
+                        </View>
+                    )}
+
+                    {/* Submit Button */}
+                    <Pressable
+                        style={[
+                            styles.submitButton,
+                            { backgroundColor: accentColor },
+                            (!canSave || isSaving) && styles.submitButtonDisabled
+                        ]}
+                        onPress={handleSave}
+                        disabled={!canSave || isSaving}
+                    >
+                        <Text style={styles.submitButtonText}>SAVE</Text>
+                        <Check size={20} color={COLORS.voidBlue} strokeWidth={3} />
+                    </Pressable>
+
+                    <View style={{ height: Platform.OS === 'ios' ? 40 : 20 }} />
+                </Animated.View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    backdrop: {
+        flex: 1,
+    },
+    sheet: {
+        backgroundColor: COLORS.voidBlue,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingHorizontal: 24,
+        maxHeight: '85%',
+    },
+    handleBar: {
+        width: 40,
+        height: 4,
+        backgroundColor: COLORS.mist,
+        opacity: 0.3,
+        borderRadius: 2,
+        alignSelf: 'center',
+        marginTop: 12,
+        marginBottom: 16,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 24,
+    },
+    headerText: {
+        flex: 1,
+    },
+    headerTitle: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+        letterSpacing: 2,
+    },
+    headerSubtitle: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        marginTop: 4,
+    },
+    closeButton: {
+        padding: 8,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 2,
+        marginBottom: 12,
+    },
+    moodRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    moodOption: {
+        flex: 1,
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 10,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    },
+    moodLabel: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 9,
+        color: COLORS.mist,
+        opacity: 0.6,
+    },
+    moodLabelSelected: {
+        color: COLORS.voidBlue,
+        opacity: 1,
+    },
+    noteInput: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.mist,
+        minHeight: 100,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+        padding: 12,
+    },
+    hint: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.4,
+        marginTop: 8,
+    },
+    skipButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 14,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: ICE,
+        borderStyle: 'dashed',
+    },
+    skipButtonActive: {
+        backgroundColor: ICE,
+        borderStyle: 'solid',
+    },
+    skipText: {
+        flex: 1,
+    },
+    skipTitle: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: ICE,
+    },
+    skipTitleActive: {
+        color: COLORS.voidBlue,
+    },
+    skipSubtitle: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: 10,
+        color: COLORS.mist,
+        opacity: 0.6,
+        marginTop: 2,
+    },
+    submitButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 16,
+        borderRadius: 16,
+        gap: 8,
+    },
+    submitButtonDisabled: {
+        opacity: 0.5,
+    },
+    submitButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.voidBlue,
+        fontWeight: '600',
+        letterSpacing: 1,
+    },
+});
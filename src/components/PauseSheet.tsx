@@ -0,0 +1,315 @@
+/**
+ * Pause Sheet
+ *
+ * Bottom sheet for vacation mode: pause every habit over a range of days.
+ * With a pause running or coming up it shows that pause and lets the user end it early.
+ * Paused days freeze streaks and hold back reminders (see db/pause.ts).
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+    View, Text, StyleSheet, Modal, Pressable, Platform, Alert
+} from 'react-native';
+import { X, Plus, Minus, Moon } from 'lucide-react-native';
+import Animated, { SlideInDown, SlideOutDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+
+import { COLORS, TYPOGRAPHY } from '../theme';
+import { useHabitStore } from '../stores';
+import {
+    getDateKey, getTodayDateKey, getCurrentOrUpcomingPause, getPauseLength, MAX_PAUSE_DAYS,
+} from '../db';
+import { formatDateKey } from './LogEntrySheet';
+
+// How far ahead a pause can be planned
+const MAX_START_OFFSET_DAYS = 60;
+
+// Date key `days` days after today
+const addDaysToToday = (days: number): string => {
+    const today = new Date();
+    return getDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + days));
+};
+
+const describeStart = (offset: number): string => {
+    if (offset === 0) return 'Today';
+    if (offset === 1) return 'Tomorrow';
+    return formatDateKey(addDaysToToday(offset));
+};
+
+interface PauseSheetProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+export const PauseSheet: React.FC<PauseSheetProps> = ({ visible, onClose }) => {
+    const { pauses, startPause, endPause } = useHabitStore();
+    const [startOffset, setStartOffset] = useState(0);
+    const [length, setLength] = useState(7);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Reset form when opening
+    useEffect(() => {
+        if (visible) {
+            setStartOffset(0);
+            setLength(7);
+            setIsSaving(false);
+        }
+    }, [visible]);
+
+    const todayKey = getTodayDateKey();
+    const currentPause = getCurrentOrUpcomingPause(pauses, todayKey);
+    const isRunning = !!currentPause && currentPause.startDateKey <= todayKey;
+
+    const handleStart = async () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setIsSaving(true);
+        try {
+            await startPause(addDaysToToday(startOffset), addDaysToToday(startOffset + length - 1));
+            onClose();
+        } catch (error) {
+            Alert.alert('Could not pause', error instanceof Error ? error.message : 'Unknown error');
+            setIsSaving(false);
+        }
+    };
+
+    const handleEnd = async () => {
+        if (!currentPause) return;
+
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setIsSaving(true);
+        try {
+            await endPause(currentPause.id);
+            onClose();
+        } catch (error) {
+            Alert.alert('Could not end pause', error instanceof Error ? error.message : 'Unknown error');
+            setIsSaving(false);
+        }
+    };
+
+    if (!visible) return null;
+
+    return (
+        <Modal
+            transparent
+            visible={visible}
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <View style={styles.overlay}>
+                <Pressable style={styles.backdrop} onPress={onClose} />
+
+                <Animated.View
+                    entering={SlideInDown}
+                    exiting={SlideOutDown}
+                    style={styles.sheet}
+                >
+                    {/* Handle Bar */}
+                    <View style={styles.handleBar} />
+
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <Text style={styles.headerTitle}>VACATION MODE</Text>
+                        <Pressable onPress={onClose} style={styles.closeButton}>
+                            <X size={24} color={COLORS.mist} />
+                        </Pressable>
+                    </View>
+
+                    <Text style={styles.infoText}>
+                        Every habit rests while you're away: streaks are frozen, not broken,
+                        and reminders stay quiet.
+                    </Text>
+
+                    {currentPause ? (
+                        <>
+                            {/* Running or upcoming pause */}
+                            <View style={styles.inputGroup}>
+                                <Text style={styles.label}>{isRunning ? 'PAUSED' : 'COMING UP'}</Text>
+                                <Text style={styles.rangeText}>
+                                    {formatDateKey(currentPause.startDateKey)} – {formatDateKey(currentPause.endDateKey)}
+                                </Text>
+                                <Text style={styles.rangeSubtitle}>
+                                    {getPauseLength(currentPause)} day{getPauseLength(currentPause) === 1 ? '' : 's'}
+                                </Text>
+                            </View>
+
+                            <Pressable
+                                style={[styles.submitButton, isSaving && styles.submitButtonDisabled]}
+                                onPress={handleEnd}
+                                disabled={isSaving}
+                            >
+                                <Text style={styles.submitButtonText}>{isRunning ? 'END PAUSE' : 'CANCEL PAUSE'}</Text>
+                            </Pressable>
+                        </>
+                    ) : (
+                        <>
+                            {/* First day */}
+                            <View style={styles.inputGroup}>
+                                <Text style={styles.label}>STARTS</Text>
+                                <View style={styles.stepperRow}>
+                                    <Pressable
+                                        style={styles.stepperButton}
+                                        onPress={() => setStartOffset(n => Math.max(0, n - 1))}
+                                    >
+                                        <Minus size={16} color={COLORS.mist} />
+                                    </Pressable>
+                                    <Text style={styles.stepperValue}>{describeStart(startOffset)}</Text>
+                                    <Pressable
+                                        style={styles.stepperButton}
+                                        onPress={() => setStartOffset(n => Math.min(MAX_START_OFFSET_DAYS, n + 1))}
+                                    >
+                                        <Plus size={16} color={COLORS.mist} />
+                                    </Pressable>
+                                </View>
+                            </View>
+
+                            {/* Length */}
+                            <View style={styles.inputGroup}>
+                                <Text style={styles.label}>LASTS</Text>
+                                <View style={styles.stepperRow}>
+                                    <Pressable
+                                        style={styles.stepperButton}
+                                        onPress={() => setLength(n => Math.max(1, n - 1))}
+                                    >
+                                        <Minus size={16} color={COLORS.mist} />
+                                    </Pressable>
+                                    <Text style={styles.stepperValue}>{length} day{length === 1 ? '' : 's'}</Text>
+                                    <Pressable
+                                        style={styles.stepperButton}
+                                        onPress={() => setLength(n => Math.min(MAX_PAUSE_DAYS, n + 1))}
+                                    >
+                                        <Plus size={16} color={COLORS.mist} />
+                                    </Pressable>
+                                </View>
+                                <Text style={styles.rangeSubtitle}>
+                                    Back on {formatDateKey(addDaysToToday(startOffset + length))}
+                                </Text>
+                            </View>
+
+                            <Pressable
+                                style={[styles.submitButton, isSaving && styles.submitButtonDisabled]}
+                                onPress={handleStart}
+                                disabled={isSaving}
+                            >
+                                <Text style={styles.submitButtonText}>PAUSE HABITS</Text>
+                                <Moon size={20} color={COLORS.voidBlue} strokeWidth={3} />
+                            </Pressable>
+                        </>
+                    )}
+
+                    <View style={{ height: Platform.OS === 'ios' ? 40 : 20 }} />
+                </Animated.View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    backdrop: {
+        flex: 1,
+    },
+    sheet: {
+        backgroundColor: COLORS.voidBlue,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingHorizontal: 24,
+        maxHeight: '85%',
+    },
+    handleBar: {
+        width: 40,
+        height: 4,
+        backgroundColor: COLORS.mist,
+        opacity: 0.3,
+        borderRadius: 2,
+        alignSelf: 'center',
+        marginTop: 12,
+        marginBottom: 16,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    headerTitle: {
+        fontFamily: TYPOGRAPHY.fonts.monoBold,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+        letterSpacing: 2,
+    },
+    closeButton: {
+        padding: 8,
+    },
+    infoText: {
+        fontFamily: TYPOGRAPHY.fonts.sans,
+        fontSize: TYPOGRAPHY.sizes.sm,
+        color: COLORS.mist,
+        opacity: 0.7,
+        lineHeight: 20,
+        marginBottom: 24,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.5,
+        letterSpacing: 2,
+        marginBottom: 12,
+    },
+    stepperRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    stepperButton: {
+        width: 40,
+        height: 40,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.05)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    stepperValue: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.mist,
+    },
+    rangeText: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.lg,
+        color: COLORS.mist,
+    },
+    rangeSubtitle: {
+        fontFamily: TYPOGRAPHY.fonts.mono,
+        fontSize: TYPOGRAPHY.sizes.xs,
+        color: COLORS.mist,
+        opacity: 0.4,
+        marginTop: 8,
+    },
+    submitButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: COLORS.bioOrange,
+        paddingVertical: 16,
+        borderRadius: 16,
+        gap: 8,
+    },
+    submitButtonDisabled: {
+        opacity: 0.5,
+    },
+    submitButtonText: {
+        fontFamily: TYPOGRAPHY.fonts.sansMedium,
+        fontSize: TYPOGRAPHY.sizes.base,
+        color: COLORS.voidBlue,
+        fontWeight: '600',
+        letterSpacing: 1,
+    },
+});
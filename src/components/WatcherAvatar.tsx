@@ -3,6 +3,7 @@
  * 
  * A minimalist spirit avatar that watches over your progress.
  * Features mood-based expressions and random blinking.
+ * Falls asleep (closed eyes, no blinking) while vacation mode is on.
  */
 
 import React, { useEffect, useCallback, useRef } from 'react';
@@ -18,22 +19,25 @@ import { COLORS } from '../theme';
 
 interface WatcherAvatarProps {
     completionPercentage: number; // 0-100
+    isPaused?: boolean; // Vacation mode: the watcher sleeps
     size?: number;
 }
 
 // Colors
 const AVATAR_BODY_COLOR = '#052633'; // Slightly lighter than Void Blue
 const EYE_COLOR = COLORS.bioOrange;
+const SNORE_COLOR = COLORS.mist;
 
 // Animation constants
 const BLINK_DURATION = 150;
 const BLINK_MIN_INTERVAL = 4000;
 const BLINK_MAX_INTERVAL = 8000;
 
-type Mood = 'sleepy' | 'alert' | 'happy';
+type Mood = 'asleep' | 'sleepy' | 'alert' | 'happy';
 
 export const WatcherAvatar: React.FC<WatcherAvatarProps> = ({
     completionPercentage,
+    isPaused = false,
     size = 80,
 }) => {
     // Blink animation value (1 = open, 0 = closed)
@@ -43,12 +47,14 @@ export const WatcherAvatar: React.FC<WatcherAvatarProps> = ({
 
     // Determine mood based on completion
     const getMood = (): Mood => {
+        if (isPaused) return 'asleep';
         if (completionPercentage >= 100) return 'happy';
         if (completionPercentage >= 50) return 'alert';
         return 'sleepy';
     };
 
     const mood = getMood();
+    const isAsleep = mood === 'asleep';
 
     // Random blink function - web-compatible (no withSequence)
     const triggerBlink = useCallback(() => {
@@ -85,15 +91,17 @@ export const WatcherAvatar: React.FC<WatcherAvatarProps> = ({
         }, interval);
     }, [triggerBlink]);
 
-    // Start blinking on mount
+    // Start blinking on mount (no blinking while asleep)
     useEffect(() => {
+        if (isAsleep) return;
+
         scheduleNextBlink();
         return () => {
             if (blinkTimeoutRef.current) {
                 clearTimeout(blinkTimeoutRef.current);
             }
         };
-    }, [scheduleNextBlink]);
+    }, [scheduleNextBlink, isAsleep]);
 
     // Animated eye styles
     const leftEyeStyle = useAnimatedStyle(() => ({
@@ -165,10 +173,50 @@ export const WatcherAvatar: React.FC<WatcherAvatarProps> = ({
                         />
                     </>
                 )}
+
+                {/* Asleep: closed eyes u u and a trail of z's */}
+                {isAsleep && (
+                    <>
+                        <Path
+                            d="M 27 36 Q 32 41, 37 36"
+                            stroke={EYE_COLOR}
+                            strokeWidth={2.5}
+                            strokeLinecap="round"
+                            fill="none"
+                            opacity={0.6}
+                        />
+                        <Path
+                            d="M 43 36 Q 48 41, 53 36"
+                            stroke={EYE_COLOR}
+                            strokeWidth={2.5}
+                            strokeLinecap="round"
+                            fill="none"
+                            opacity={0.6}
+                        />
+                        <Path
+                            d="M 60 18 L 66 18 L 60 24 L 66 24"
+                            stroke={SNORE_COLOR}
+                            strokeWidth={1.5}
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            fill="none"
+                            opacity={0.5}
+                        />
+                        <Path
+                            d="M 68 8 L 72 8 L 68 12 L 72 12"
+                            stroke={SNORE_COLOR}
+                            strokeWidth={1.2}
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            fill="none"
+                            opacity={0.3}
+                        />
+                    </>
+                )}
             </Svg>
 
             {/* Animated eyes (for sleepy and alert moods) */}
-            {mood !== 'happy' && (
+            {(mood === 'sleepy' || mood === 'alert') && (
                 <>
                     <Animated.View
                         style={[
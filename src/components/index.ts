@@ -4,6 +4,11 @@ export { DailyList } from './DailyList';
 export { WatcherAvatar } from './WatcherAvatar';
 export { HabitSparklineCard } from './HabitSparklineCard';
 export { CreateHabitSheet } from './CreateHabitSheet';
+export { LogEntrySheet, MOODS, formatDateKey } from './LogEntrySheet';
+export { CsvExportSheet } from './CsvExportSheet';
+export { ClearDataSheet } from './ClearDataSheet';
+export { PauseSheet } from './PauseSheet';
+export { FocusDurationSheet } from './FocusDurationSheet';
 export { HistoryMap, type DayData } from './HistoryMap';
 export { VoidDock } from './VoidDock';
 export { GlassCard } from './ui/GlassCard';
@@ -0,0 +1,64 @@
+/**
+ * Date key helpers
+ *
+ * Tests run in Europe/Berlin (see jest.global-setup.js), which is an hour or two
+ * ahead of UTC and has daylight saving time.
+ */
+
+import { getDateKey, getTodayDateKey, getMonthKey } from '..';
+
+describe('getDateKey', () => {
+    it('formats a local date as YYYY-MM-DD with padding', () => {
+        expect(getDateKey(new Date(2025, 0, 5))).toBe('2025-01-05');
+        expect(getDateKey(new Date(2025, 11, 31))).toBe('2025-12-31');
+    });
+
+    it('uses the local day, not the UTC one', () => {
+        // Just after midnight in Berlin it's still the previous day in UTC
+        expect(getDateKey(new Date(2025, 0, 6, 0, 30))).toBe('2025-01-06');
+        expect(getDateKey(new Date(2025, 6, 6, 1, 30))).toBe('2025-07-06');
+    });
+
+    it('rolls over month and year boundaries', () => {
+        expect(getDateKey(new Date(2025, 0, 32))).toBe('2025-02-01');
+        expect(getDateKey(new Date(2024, 1, 29))).toBe('2024-02-29');
+        expect(getDateKey(new Date(2025, 1, 29))).toBe('2025-03-01');
+        expect(getDateKey(new Date(2025, 11, 32))).toBe('2026-01-01');
+    });
+
+    it('gives every day around a DST change its own key', () => {
+        // Berlin springs forward on 2025-03-30 and falls back on 2025-10-26
+        const keys = (year: number, month: number, from: number, to: number) =>
+            Array.from({ length: to - from + 1 }, (_, i) => getDateKey(new Date(year, month, from + i)));
+
+        expect(keys(2025, 2, 29, 31)).toEqual(['2025-03-29', '2025-03-30', '2025-03-31']);
+        expect(keys(2025, 9, 25, 27)).toEqual(['2025-10-25', '2025-10-26', '2025-10-27']);
+    });
+
+    it('shows why adding 24 hours is not the next day', () => {
+        // The 25-hour day: 00:00 plus 24h is still 2025-10-26
+        const midnight = new Date(2025, 9, 26);
+        expect(getDateKey(new Date(midnight.getTime() + 24 * 60 * 60 * 1000))).toBe('2025-10-26');
+    });
+});
+
+describe('getTodayDateKey', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('follows the local clock around midnight', () => {
+        jest.useFakeTimers({ now: new Date(2025, 2, 31, 23, 59) });
+        expect(getTodayDateKey()).toBe('2025-03-31');
+
+        jest.setSystemTime(new Date(2025, 3, 1, 0, 1));
+        expect(getTodayDateKey()).toBe('2025-04-01');
+    });
+});
+
+describe('getMonthKey', () => {
+    it('takes the YYYY-MM part of a date key', () => {
+        expect(getMonthKey('2025-01-31')).toBe('2025-01');
+        expect(getMonthKey('2025-02-01')).toBe('2025-02');
+    });
+});
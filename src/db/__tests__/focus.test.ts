@@ -0,0 +1,97 @@
+/**
+ * Focus timer maths, custom lengths and how sessions count towards habits
+ */
+
+import {
+    getTimerRemainingSeconds,
+    getTimerFocusedSeconds,
+    getTimerPausedMs,
+    getTimerEndsAt,
+    getFocusCredit,
+    getMinutesPerUnit,
+    clampFocusMinutes,
+    normalizePresetName,
+    DEFAULT_FOCUS_MINUTES,
+    FOCUS_MINUTES_LIMITS,
+    type FocusTimer,
+} from '../focus';
+
+const START = new Date(2025, 2, 10, 9).getTime();
+const seconds = (n: number) => START + n * 1000;
+
+const timer = (overrides: Partial<FocusTimer> = {}): FocusTimer => ({
+    startedAt: START,
+    plannedSeconds: 25 * 60,
+    pausedMs: 0,
+    pausedAt: null,
+    ...overrides,
+});
+
+describe('focus timer', () => {
+    it('counts down from the wall clock', () => {
+        expect(getTimerRemainingSeconds(timer(), START)).toBe(1500);
+        expect(getTimerRemainingSeconds(timer(), seconds(0.4))).toBe(1500);
+        expect(getTimerRemainingSeconds(timer(), seconds(600))).toBe(900);
+        expect(getTimerEndsAt(timer(), START)).toBe(seconds(1500));
+    });
+
+    it('stops at zero however long the app was away', () => {
+        const later = seconds(3 * 60 * 60);
+        expect(getTimerRemainingSeconds(timer(), later)).toBe(0);
+        expect(getTimerFocusedSeconds(timer(), later)).toBe(1500);
+    });
+
+    it('leaves paused time out and pushes the end back', () => {
+        // Ran 5 minutes, paused 2 earlier, paused again 1 minute ago
+        const paused = timer({ pausedMs: 120_000, pausedAt: seconds(360) });
+        const now = seconds(420);
+
+        expect(getTimerPausedMs(paused, now)).toBe(180_000);
+        expect(getTimerFocusedSeconds(paused, now)).toBe(240);
+        expect(getTimerRemainingSeconds(paused, now)).toBe(1260);
+        expect(getTimerEndsAt(paused, now)).toBe(seconds(180 + 1500));
+    });
+
+    it("doesn't move while paused", () => {
+        const paused = timer({ pausedAt: seconds(60) });
+        expect(getTimerRemainingSeconds(paused, seconds(60))).toBe(1440);
+        expect(getTimerRemainingSeconds(paused, seconds(6000))).toBe(1440);
+    });
+});
+
+describe('getFocusCredit', () => {
+    const habit = (targetValue: number | null, unit: string | null, counter = false) => ({ targetValue, unit, counter });
+
+    it('adds time to habits measured in minutes or hours', () => {
+        expect(getFocusCredit(habit(30, 'min'), 25 * 60)).toEqual({ type: 'amount', amount: 25 });
+        expect(getFocusCredit(habit(2, 'Hours'), 45 * 60)).toEqual({ type: 'amount', amount: 0.75 });
+    });
+
+    it('completes everything else', () => {
+        expect(getFocusCredit(habit(null, null), 1500)).toEqual({ type: 'complete' });
+        expect(getFocusCredit(habit(20, 'pages'), 1500)).toEqual({ type: 'complete' });
+        expect(getFocusCredit(habit(null, null, true), 1500)).toEqual({ type: 'completion' });
+    });
+
+    it('recognises units of time only', () => {
+        expect(getMinutesPerUnit(' minutes ')).toBe(1);
+        expect(getMinutesPerUnit('hr')).toBe(60);
+        expect(getMinutesPerUnit('glasses')).toBeNull();
+    });
+});
+
+describe('custom lengths', () => {
+    it('keeps a length within its limits, in whole minutes', () => {
+        expect(clampFocusMinutes(90)).toBe(90);
+        expect(clampFocusMinutes(12.6)).toBe(13);
+        expect(clampFocusMinutes(0)).toBe(FOCUS_MINUTES_LIMITS.min);
+        expect(clampFocusMinutes(1000)).toBe(FOCUS_MINUTES_LIMITS.max);
+        expect(clampFocusMinutes(NaN)).toBe(DEFAULT_FOCUS_MINUTES);
+    });
+
+    it('tidies preset names', () => {
+        expect(normalizePresetName('  Deep   work ')).toBe('Deep work');
+        expect(normalizePresetName('   ')).toBe('');
+        expect(normalizePresetName('x'.repeat(40))).toHaveLength(24);
+    });
+});
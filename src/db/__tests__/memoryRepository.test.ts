@@ -0,0 +1,107 @@
+/**
+ * In-memory repository: log queries and row isolation
+ */
+
+import { createMemoryRepository } from '../memoryRepository';
+import type { Habit, Log, FocusSession } from '../schema';
+
+const habit = (id: string): Habit => ({
+    id,
+    title: id,
+    iconKey: 'Circle',
+    reminderTime: null,
+    notificationId: null,
+    color: '#ffb347',
+    type: 'positive',
+    scheduleType: 'daily',
+    scheduleDays: null,
+    scheduleTimesPerWeek: null,
+    scheduleIntervalDays: null,
+    targetValue: null,
+    unit: null,
+    counter: false,
+    freezesPerMonth: 2,
+    archived: false,
+    archivedAt: null,
+    createdAt: new Date(2025, 0, 1),
+});
+
+const log = (id: string, habitId: string, dateKey: string, status = 'done'): Log => ({
+    id,
+    habitId,
+    dateKey,
+    value: null,
+    status,
+    note: null,
+    mood: null,
+    completedAt: new Date(2025, 0, 1),
+});
+
+const session = (id: string, habitId: string | null): FocusSession => ({
+    id,
+    habitId,
+    startedAt: new Date(2025, 0, 1, 9),
+    endedAt: new Date(2025, 0, 1, 9, 30),
+    plannedSeconds: 1800,
+    actualSeconds: 1800,
+    pausedSeconds: 0,
+    status: 'completed',
+    completedRounds: null,
+});
+
+describe('createMemoryRepository', () => {
+    const seed = () => createMemoryRepository({
+        habits: [habit('read'), { ...habit('walk'), archived: true }],
+        logs: [
+            log('1', 'read', '2025-01-30'),
+            log('2', 'read', '2025-01-31', 'skipped'),
+            log('3', 'read', '2025-02-01'),
+            log('4', 'walk', '2025-02-01'),
+        ],
+    });
+
+    it('filters habits by archive state', async () => {
+        const repository = seed();
+        expect((await repository.getHabits()).map(h => h.id)).toEqual(['read', 'walk']);
+        expect((await repository.getHabits({ archived: false })).map(h => h.id)).toEqual(['read']);
+    });
+
+    it('narrows logs by every field of the query', async () => {
+        const repository = seed();
+        const ids = async (query: Parameters<typeof repository.getLogs>[0]) =>
+            (await repository.getLogs(query)).map(l => l.id);
+
+        expect(await ids({})).toEqual(['1', '2', '3', '4']);
+        expect(await ids({ habitId: 'read', fromDateKey: '2025-01-31' })).toEqual(['2', '3']);
+        expect(await ids({ toDateKey: '2025-01-31', status: 'done' })).toEqual(['1']);
+        expect(await ids({ dateKey: '2025-02-01' })).toEqual(['3', '4']);
+    });
+
+    it('deletes only the matching logs', async () => {
+        const repository = seed();
+        await repository.deleteLogs({ habitId: 'read', status: 'skipped' });
+        expect((await repository.getLogs()).map(l => l.id)).toEqual(['1', '3', '4']);
+    });
+
+    it("deletes a habit's logs along with it", async () => {
+        const repository = seed();
+        await repository.deleteHabit('read');
+        expect((await repository.getLogs()).map(l => l.id)).toEqual(['4']);
+    });
+
+    it("keeps a habit's focus sessions without the link when it's deleted", async () => {
+        const repository = createMemoryRepository({
+            habits: [habit('read')],
+            focusSessions: [session('a', 'read'), session('b', null)],
+        });
+        await repository.deleteHabit('read');
+        expect((await repository.getFocusSessions()).map(s => [s.id, s.habitId])).toEqual([['a', null], ['b', null]]);
+    });
+
+    it("doesn't let callers change stored rows", async () => {
+        const repository = seed();
+        const [first] = await repository.getHabits();
+        first.title = 'changed';
+        expect((await repository.getHabit('read'))?.title).toBe('read');
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Pomodoro sets: phase order and where a set stands over time
+ */
+
+import {
+    getPomodoroPhases,
+    getPomodoroPosition,
+    getPomodoroSeconds,
+    clampPomodoroSettings,
+    DEFAULT_POMODORO_SETTINGS,
+} from '../pomodoro';
+
+const settings = { workMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, rounds: 3 };
+const minutes = (n: number) => n * 60;
+
+describe('getPomodoroPhases', () => {
+    it('puts short breaks between rounds and the long break last', () => {
+        expect(getPomodoroPhases(settings).map(p => `${p.type}:${p.round}`)).toEqual([
+            'work:1', 'shortBreak:1',
+            'work:2', 'shortBreak:2',
+            'work:3', 'longBreak:3',
+        ]);
+        expect(getPomodoroSeconds(settings)).toBe(minutes(25 * 3 + 5 * 2 + 15));
+    });
+});
+
+describe('getPomodoroPosition', () => {
+    it('starts in the first work round', () => {
+        expect(getPomodoroPosition(settings, 0)).toMatchObject({
+            index: 0,
+            phase: { type: 'work', round: 1 },
+            phaseRemainingSeconds: minutes(25),
+            completedRounds: 0,
+            workSeconds: 0,
+        });
+    });
+
+    it('moves on to the break once a round is done', () => {
+        expect(getPomodoroPosition(settings, minutes(27))).toMatchObject({
+            phase: { type: 'shortBreak', round: 1 },
+            phaseElapsedSeconds: minutes(2),
+            completedRounds: 1,
+            workSeconds: minutes(25),
+        });
+    });
+
+    it('counts work time without the breaks', () => {
+        // Round 2 is 10 minutes in
+        expect(getPomodoroPosition(settings, minutes(40))).toMatchObject({
+            phase: { type: 'work', round: 2 },
+            completedRounds: 1,
+            workSeconds: minutes(35),
+        });
+    });
+
+    it('ends in a finished long break', () => {
+        const end = getPomodoroPosition(settings, getPomodoroSeconds(settings) + 600);
+        expect(end).toMatchObject({
+            index: 5,
+            phase: { type: 'longBreak' },
+            phaseRemainingSeconds: 0,
+            completedRounds: 3,
+            workSeconds: minutes(75),
+        });
+    });
+});
+
+describe('clampPomodoroSettings', () => {
+    it('keeps settings within their limits', () => {
+        expect(clampPomodoroSettings({ workMinutes: 200, shortBreakMinutes: 0, longBreakMinutes: 15.4, rounds: NaN })).toEqual({
+            workMinutes: 90,
+            shortBreakMinutes: 1,
+            longBreakMinutes: 15,
+            rounds: DEFAULT_POMODORO_SETTINGS.rounds,
+        });
+    });
+});
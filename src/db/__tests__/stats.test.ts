@@ -0,0 +1,285 @@
+/**
+ * Stats engine: streak rules and completion rates
+ *
+ * Tests run in Europe/Berlin (see jest.global-setup.js). In 2025 Berlin springs
+ * forward on Sunday 2025-03-30 and falls back on Sunday 2025-10-26.
+ */
+
+import {
+    buildHabitHistory,
+    getCurrentStreak,
+    getLongestStreak,
+    getCompletionRate,
+    getConsistency,
+    getWeekdayRates,
+    getDayOutcome,
+} from '../stats';
+import { scheduleToColumns, DAILY_SCHEDULE, type HabitSchedule } from '../schedule';
+
+// Local time on a "YYYY-MM-DD" day
+const at = (dateKey: string, hour = 12, minute = 0) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day, hour, minute);
+};
+
+const makeHabit = (overrides: {
+    type?: string;
+    createdAt?: string;
+    schedule?: HabitSchedule;
+    targetValue?: number | null;
+    unit?: string | null;
+} = {}) => ({
+    type: overrides.type ?? 'positive',
+    createdAt: at(overrides.createdAt ?? '2025-03-01', 8),
+    ...scheduleToColumns(overrides.schedule ?? DAILY_SCHEDULE),
+    targetValue: overrides.targetValue ?? null,
+    unit: overrides.unit ?? null,
+});
+
+const done = (...dateKeys: string[]) => dateKeys.map(dateKey => ({ dateKey, value: null, status: 'done' }));
+const skipped = (...dateKeys: string[]) => dateKeys.map(dateKey => ({ dateKey, value: null, status: 'skipped' }));
+
+describe('Build habits', () => {
+    it('counts consecutive done days ending today', () => {
+        const history = buildHabitHistory(makeHabit(), done('2025-03-10', '2025-03-11', '2025-03-12'));
+        expect(getCurrentStreak(history, at('2025-03-12'))).toBe(3);
+    });
+
+    it("doesn't break the streak before today is over", () => {
+        const history = buildHabitHistory(makeHabit(), done('2025-03-10', '2025-03-11'));
+        expect(getCurrentStreak(history, at('2025-03-12', 23, 59))).toBe(2);
+        expect(getDayOutcome(history, at('2025-03-12'))).toBe('missed');
+    });
+
+    it('breaks the streak on a missed day', () => {
+        const history = buildHabitHistory(makeHabit(), done('2025-03-09', '2025-03-10'));
+        expect(getCurrentStreak(history, at('2025-03-12'))).toBe(0);
+    });
+
+    it('keeps the longest run across a gap', () => {
+        const history = buildHabitHistory(
+            makeHabit(),
+            done('2025-03-03', '2025-03-04', '2025-03-05', '2025-03-08', '2025-03-09'),
+        );
+        expect(getCurrentStreak(history, at('2025-03-09'))).toBe(2);
+        expect(getLongestStreak(history, at('2025-03-09'))).toBe(3);
+    });
+
+    it('skips over days off the schedule', () => {
+        // Mon, Wed, Fri; 2025-03-11 is a Tuesday
+        const schedule: HabitSchedule = { type: 'weekdays', days: [1, 3, 5] };
+        const history = buildHabitHistory(
+            makeHabit({ schedule }),
+            done('2025-03-03', '2025-03-05', '2025-03-07', '2025-03-10'),
+        );
+        expect(getCurrentStreak(history, at('2025-03-11'))).toBe(4);
+        expect(getDayOutcome(history, at('2025-03-09'))).toBe('off');
+    });
+
+    it('counts an off day that was done anyway', () => {
+        const schedule: HabitSchedule = { type: 'weekdays', days: [1, 3, 5] };
+        const history = buildHabitHistory(makeHabit({ schedule }), done('2025-03-07', '2025-03-08', '2025-03-10'));
+        expect(getCurrentStreak(history, at('2025-03-10'))).toBe(3);
+    });
+
+    it('treats skipped and paused days as neither done nor missed', () => {
+        const history = buildHabitHistory(
+            makeHabit(),
+            [...done('2025-03-10', '2025-03-12', '2025-03-16'), ...skipped('2025-03-11')],
+            [{ startDateKey: '2025-03-13', endDateKey: '2025-03-15' }],
+        );
+        expect(getDayOutcome(history, at('2025-03-11'))).toBe('excused');
+        expect(getDayOutcome(history, at('2025-03-14'))).toBe('excused');
+        expect(getCurrentStreak(history, at('2025-03-16'))).toBe(3);
+    });
+
+    it('only counts measurable days that reached the target', () => {
+        const habit = makeHabit({ targetValue: 8, unit: 'glasses' });
+        const logs = [
+            { dateKey: '2025-03-10', value: 8, status: 'done' },
+            { dateKey: '2025-03-11', value: 5, status: 'done' },
+        ];
+        const history = buildHabitHistory(habit, logs);
+        expect(getCurrentStreak(history, at('2025-03-11'))).toBe(1);
+        expect(getCurrentStreak(history, at('2025-03-12'))).toBe(0);
+    });
+
+    it('ignores days before the habit was created', () => {
+        const history = buildHabitHistory(makeHabit({ createdAt: '2025-03-10' }), done('2025-03-10', '2025-03-11'));
+        expect(getDayOutcome(history, at('2025-03-09'))).toBe('off');
+        expect(getLongestStreak(history, at('2025-03-11'))).toBe(2);
+    });
+});
+
+describe('Break habits', () => {
+    it('counts every day without a slip, today included', () => {
+        const history = buildHabitHistory(makeHabit({ type: 'negative' }), done('2025-03-05'));
+        expect(getCurrentStreak(history, at('2025-03-08'))).toBe(3);
+        expect(getLongestStreak(history, at('2025-03-08'))).toBe(4);
+    });
+
+    it('resets on a slip today', () => {
+        const history = buildHabitHistory(makeHabit({ type: 'negative' }), done('2025-03-08'));
+        expect(getCurrentStreak(history, at('2025-03-08'))).toBe(0);
+        expect(getDayOutcome(history, at('2025-03-08'))).toBe('missed');
+    });
+
+    it('counts a fresh habit from its creation day', () => {
+        const history = buildHabitHistory(makeHabit({ type: 'negative', createdAt: '2025-03-08' }), []);
+        expect(getCurrentStreak(history, at('2025-03-08'))).toBe(1);
+    });
+});
+
+describe('"X per week" habits', () => {
+    const schedule: HabitSchedule = { type: 'weekly', timesPerWeek: 2 };
+
+    it('adds up completions across weeks that met the target', () => {
+        // Weeks start on Sunday: 03-02, 03-09, 03-16
+        const history = buildHabitHistory(
+            makeHabit({ schedule, createdAt: '2025-03-02' }),
+            done('2025-03-03', '2025-03-05', '2025-03-10', '2025-03-12', '2025-03-17'),
+        );
+        expect(getCurrentStreak(history, at('2025-03-18'))).toBe(5);
+    });
+
+    it('breaks on a past week that fell short', () => {
+        const history = buildHabitHistory(
+            makeHabit({ schedule, createdAt: '2025-03-02' }),
+            done('2025-03-03', '2025-03-05', '2025-03-10', '2025-03-17'),
+        );
+        expect(getCurrentStreak(history, at('2025-03-18'))).toBe(1);
+        expect(getLongestStreak(history, at('2025-03-18'))).toBe(2);
+    });
+
+    it('lowers the weekly target for skipped days', () => {
+        const history = buildHabitHistory(
+            makeHabit({ schedule, createdAt: '2025-03-02' }),
+            [...done('2025-03-03', '2025-03-05', '2025-03-10', '2025-03-17'), ...skipped('2025-03-12')],
+        );
+        expect(getCurrentStreak(history, at('2025-03-18'))).toBe(4);
+    });
+});
+
+describe('DST transitions', () => {
+    it('keeps a streak across the spring-forward night', () => {
+        const history = buildHabitHistory(
+            makeHabit(),
+            done('2025-03-28', '2025-03-29', '2025-03-30', '2025-03-31', '2025-04-01'),
+        );
+        expect(getCurrentStreak(history, at('2025-04-01'))).toBe(5);
+        expect(getCurrentStreak(history, at('2025-04-01', 0, 30))).toBe(5);
+        expect(getLongestStreak(history, at('2025-04-02'))).toBe(5);
+    });
+
+    it('keeps a streak across the fall-back night', () => {
+        const history = buildHabitHistory(
+            makeHabit({ createdAt: '2025-10-01' }),
+            done('2025-10-24', '2025-10-25', '2025-10-26', '2025-10-27', '2025-10-28'),
+        );
+        expect(getCurrentStreak(history, at('2025-10-28'))).toBe(5);
+        expect(getCurrentStreak(history, at('2025-10-28', 23, 30))).toBe(5);
+    });
+
+    it('counts the short day once for a Break habit', () => {
+        const history = buildHabitHistory(makeHabit({ type: 'negative', createdAt: '2025-03-29' }), []);
+        expect(getCurrentStreak(history, at('2025-03-31'))).toBe(3);
+    });
+
+    it('anchors interval schedules by calendar day', () => {
+        // Every 2 days from 03-28: 03-28, 03-30, 04-01
+        const schedule: HabitSchedule = { type: 'interval', everyDays: 2 };
+        const history = buildHabitHistory(
+            makeHabit({ schedule, createdAt: '2025-03-28' }),
+            done('2025-03-28', '2025-03-30', '2025-04-01'),
+        );
+        expect(getDayOutcome(history, at('2025-03-31'))).toBe('off');
+        expect(getCurrentStreak(history, at('2025-04-01'))).toBe(3);
+    });
+
+    it('keeps weeks aligned for a weekly habit across the change', () => {
+        // The week of 03-30 starts on the short day
+        const schedule: HabitSchedule = { type: 'weekly', timesPerWeek: 2 };
+        const history = buildHabitHistory(
+            makeHabit({ schedule, createdAt: '2025-03-16' }),
+            done('2025-03-17', '2025-03-19', '2025-03-24', '2025-03-26', '2025-03-31', '2025-04-02'),
+        );
+        expect(getCurrentStreak(history, at('2025-04-07'))).toBe(6);
+    });
+});
+
+describe('Month boundaries', () => {
+    it('carries a streak into the next month', () => {
+        const history = buildHabitHistory(
+            makeHabit({ createdAt: '2025-02-01' }),
+            done('2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02'),
+        );
+        expect(getCurrentStreak(history, at('2025-03-02'))).toBe(4);
+    });
+
+    it('includes Feb 29 in a leap year', () => {
+        const history = buildHabitHistory(makeHabit({ createdAt: '2024-02-01' }), done('2024-02-28', '2024-03-01'));
+        expect(getCurrentStreak(history, at('2024-03-01'))).toBe(1);
+
+        const withLeapDay = buildHabitHistory(
+            makeHabit({ createdAt: '2024-02-01' }),
+            done('2024-02-28', '2024-02-29', '2024-03-01'),
+        );
+        expect(getCurrentStreak(withLeapDay, at('2024-03-01'))).toBe(3);
+    });
+
+    it('carries a streak into the next year', () => {
+        const history = buildHabitHistory(
+            makeHabit({ createdAt: '2024-12-01' }),
+            done('2024-12-30', '2024-12-31', '2025-01-01', '2025-01-02'),
+        );
+        expect(getCurrentStreak(history, at('2025-01-02'))).toBe(4);
+    });
+});
+
+describe('getCompletionRate', () => {
+    it('divides done days by due days', () => {
+        const history = buildHabitHistory(makeHabit(), done('2025-03-10', '2025-03-12'));
+        expect(getCompletionRate(history, at('2025-03-10'), at('2025-03-13'))).toBe(0.5);
+    });
+
+    it('leaves out skipped days and days before creation', () => {
+        const history = buildHabitHistory(
+            makeHabit({ createdAt: '2025-03-10' }),
+            [...done('2025-03-10', '2025-03-12'), ...skipped('2025-03-11')],
+        );
+        expect(getCompletionRate(history, at('2025-03-01'), at('2025-03-12'))).toBe(1);
+    });
+
+    it('weighs every slip of a Break habit as a failed day', () => {
+        const history = buildHabitHistory(
+            makeHabit({ type: 'negative' }),
+            done('2025-03-11', '2025-03-11', '2025-03-11'),
+        );
+        expect(getCompletionRate(history, at('2025-03-10'), at('2025-03-13'))).toBe(0.25);
+        expect(getCompletionRate(history, at('2025-03-11'), at('2025-03-11'))).toBe(0);
+    });
+
+    it('returns null when nothing was due', () => {
+        const history = buildHabitHistory(makeHabit({ createdAt: '2025-03-10' }), []);
+        expect(getCompletionRate(history, at('2025-03-01'), at('2025-03-09'))).toBeNull();
+        expect(getConsistency(history, at('2025-03-09'), 7)).toBe(100);
+    });
+
+    it('compares a weekly habit against its target', () => {
+        const schedule: HabitSchedule = { type: 'weekly', timesPerWeek: 2 };
+        const history = buildHabitHistory(makeHabit({ schedule }), done('2025-03-10'));
+        expect(getCompletionRate(history, at('2025-03-09'), at('2025-03-15'))).toBe(0.5);
+    });
+});
+
+describe('getWeekdayRates', () => {
+    it('reports each weekday separately, null where nothing was due', () => {
+        // Mondays only; 2025-03-03 and 2025-03-10 are Mondays
+        const schedule: HabitSchedule = { type: 'weekdays', days: [1] };
+        const history = buildHabitHistory(makeHabit({ schedule }), done('2025-03-03'));
+        const rates = getWeekdayRates(history, at('2025-03-15'), 14);
+
+        expect(rates[1]).toBe(0.5);
+        expect(rates.filter((_, weekday) => weekday !== 1)).toEqual(Array(6).fill(null));
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Web storage: persistence across reloads and schema upgrades
+ */
+
+import { createWebRepository, loadWebDatabase, WEB_STORAGE_KEY, type KeyValueStorage } from '../webStorage';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, MigrationError } from '../migrations';
+
+// localStorage stand-in
+const createStorage = (initial?: object): KeyValueStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    if (initial) items.set(WEB_STORAGE_KEY, JSON.stringify(initial));
+    return {
+        items,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); },
+    };
+};
+
+const savedDocument = (storage: { items: Map<string, string> }) =>
+    JSON.parse(storage.items.get(WEB_STORAGE_KEY)!);
+
+const storedHabit = {
+    id: 'read',
+    title: 'Read',
+    icon_key: 'Book',
+    color: '#ffb347',
+    type: 'positive',
+    archived: 0,
+    created_at: new Date(2025, 0, 1).getTime(),
+};
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('createWebRepository', () => {
+    it('keeps rows across a reload', async () => {
+        const storage = createStorage({ schemaVersion: LATEST_SCHEMA_VERSION, tables: { habits: [storedHabit] } });
+        await createWebRepository(storage).insertLog({
+            id: 'log-1',
+            habitId: 'read',
+            dateKey: '2025-01-02',
+            value: null,
+            status: 'done',
+            note: 'Chapter 3',
+            mood: 4,
+            completedAt: new Date(2025, 0, 2, 21, 30),
+        });
+
+        const after = createWebRepository(storage);
+        const [habit] = await after.getHabits();
+        const [log] = await after.getLogs();
+
+        expect(habit).toMatchObject({ id: 'read', title: 'Read', archived: false });
+        expect(habit.createdAt).toEqual(new Date(2025, 0, 1));
+        expect(log).toMatchObject({ dateKey: '2025-01-02', note: 'Chapter 3', mood: 4 });
+        expect(log.completedAt).toEqual(new Date(2025, 0, 2, 21, 30));
+    });
+
+    it('saves tables keyed by column name', async () => {
+        const storage = createStorage();
+        await createWebRepository(storage).insertPause({
+            id: 'trip',
+            startDateKey: '2025-07-01',
+            endDateKey: '2025-07-14',
+            createdAt: new Date(2025, 5, 20),
+        });
+
+        expect(savedDocument(storage)).toEqual({
+            schemaVersion: LATEST_SCHEMA_VERSION,
+            tables: {
+                habits: [],
+                logs: [],
+                pauses: [{
+                    id: 'trip',
+                    start_date_key: '2025-07-01',
+                    end_date_key: '2025-07-14',
+                    created_at: new Date(2025, 5, 20).getTime(),
+                }],
+                focus_sessions: [],
+            },
+        });
+    });
+});
+
+describe('createWebRepository with unreadable saved data', () => {
+    it('rejects reads instead of throwing', async () => {
+        const storage = createStorage();
+        storage.items.set(WEB_STORAGE_KEY, '{ not json');
+
+        const habits = createWebRepository(storage).getHabits();
+        await expect(habits).rejects.toThrow(MigrationError);
+    });
+});
+
+describe('web startup', () => {
+    it('reads and upgrades saved data once', async () => {
+        localStorage.setItem(WEB_STORAGE_KEY, JSON.stringify({ schemaVersion: 1, tables: { habits: [storedHabit] } }));
+        const getItem = jest.spyOn(Storage.prototype, 'getItem');
+
+        let db!: typeof import('../index');
+        jest.isolateModules(() => {
+            db = require('../index');
+        });
+        await db.initializeDatabase();
+        const habits = await db.getRepository().getHabits();
+
+        expect(habits.map(h => h.id)).toEqual(['read']);
+        expect(getItem.mock.calls.filter(([key]) => key === WEB_STORAGE_KEY)).toHaveLength(1);
+        localStorage.clear();
+    });
+});
+
+describe('createWebRepository when storage is full', () => {
+    const pause = (id: string) => ({
+        id,
+        startDateKey: '2025-07-01',
+        endDateKey: '2025-07-14',
+        createdAt: new Date(2025, 5, 20),
+    });
+
+    it('leaves memory matching storage when a write fails', async () => {
+        const storage = createStorage();
+        const repository = createWebRepository(storage);
+        await repository.insertPause(pause('spring'));
+
+        const setItem = storage.setItem;
+        storage.setItem = () => { throw new Error('QuotaExceededError'); };
+        await expect(repository.insertPause(pause('summer'))).rejects.toThrow('QuotaExceededError');
+        expect((await repository.getPauses()).map(p => p.id)).toEqual(['spring']);
+
+        // Once there's room again, later writes carry on from the saved state
+        storage.setItem = setItem;
+        await repository.insertPause(pause('winter'));
+        expect((await createWebRepository(storage).getPauses()).map(p => p.id)).toEqual(['spring', 'winter']);
+    });
+});
+
+describe('loadWebDatabase', () => {
+    it('starts empty without saved data', () => {
+        expect(loadWebDatabase(createStorage())).toEqual({ habits: [], logs: [], pauses: [], focusSessions: [] });
+    });
+
+    it('fills columns added since with their schema defaults and saves the upgrade', () => {
+        const storage = createStorage({ schemaVersion: 1, tables: { habits: [storedHabit] } });
+        const [habit] = loadWebDatabase(storage).habits;
+
+        expect(habit).toMatchObject({
+            scheduleType: 'daily',
+            scheduleDays: null,
+            targetValue: null,
+            counter: false,
+            freezesPerMonth: 2,
+            archivedAt: null,
+            notificationId: null,
+        });
+        expect(savedDocument(storage).schemaVersion).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it("runs the web step of each migration it hasn't seen", () => {
+        const latest = MIGRATIONS.find(m => m.version === LATEST_SCHEMA_VERSION)!;
+        latest.upWeb = (tables) => {
+            tables.habits.forEach(h => { h.title = String(h.title).toUpperCase(); });
+        };
+
+        try {
+            const previous = createStorage({ schemaVersion: LATEST_SCHEMA_VERSION - 1, tables: { habits: [storedHabit] } });
+            expect(loadWebDatabase(previous).habits[0].title).toBe('READ');
+
+            const current = createStorage({ schemaVersion: LATEST_SCHEMA_VERSION, tables: { habits: [storedHabit] } });
+            expect(loadWebDatabase(current).habits[0].title).toBe('Read');
+        } finally {
+            delete latest.upWeb;
+        }
+    });
+
+    it('refuses data from a newer app version', () => {
+        const storage = createStorage({ schemaVersion: LATEST_SCHEMA_VERSION + 1, tables: {} });
+        expect(() => loadWebDatabase(storage)).toThrow(MigrationError);
+    });
+
+    it('refuses data it cannot read', () => {
+        const storage = createStorage();
+        storage.setItem(WEB_STORAGE_KEY, '{not json');
+        expect(() => loadWebDatabase(storage)).toThrow(MigrationError);
+    });
+});
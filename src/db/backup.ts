@@ -0,0 +1,426 @@
+/**
+ * Backup Format
+ *
+ * Versioned JSON document holding every habit (including archived ones),
+ * every log, every vacation pause and every focus session.
+ * Used to move data between devices.
+ *
+ * Dates are serialised as ISO strings so backups stay human-readable.
+ */
+
+import type { Habit, Log, Pause, FocusSession } from './schema';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { getHabitSchedule, scheduleToColumns, DAILY_SCHEDULE, type HabitSchedule } from './schedule';
+import { getHabitMeasure, type HabitMeasure } from './measure';
+import { isValidMood, normalizeNote } from './journal';
+import { isSkippedLog, DEFAULT_FREEZES_PER_MONTH, MAX_FREEZES_PER_MONTH, type LogStatus } from './freeze';
+import { pausesOverlap } from './pause';
+import type { FocusSessionStatus } from './focus';
+
+// Bump when the document shape changes; parseBackup must keep reading older versions
+export const BACKUP_FORMAT_VERSION = 1;
+
+const BACKUP_APP_ID = 'void-tracker';
+
+export interface BackupHabit {
+    id: string;
+    title: string;
+    iconKey: string;
+    color: string;
+    type: 'positive' | 'negative';
+    reminderTime: string | null;
+    // Missing in backups made before schedules existed (daily)
+    schedule?: HabitSchedule;
+    // Missing (or null) for done / not-done habits and older backups
+    target?: HabitMeasure | null;
+    // Missing in backups made before counter habits existed (false)
+    counter?: boolean;
+    // Missing in backups made before skipped days existed (default allowance)
+    freezesPerMonth?: number;
+    archived: boolean;
+    // Missing in backups made before archive dates were tracked
+    archivedAt?: string | null;
+    createdAt: string;
+}
+
+export interface BackupLog {
+    id: string;
+    habitId: string;
+    dateKey: string;
+    // Amount logged for measurable habits; missing in older backups
+    value?: number | null;
+    // Missing in backups made before skipped days existed ('done')
+    status?: LogStatus;
+    // Journal entry; missing in older backups
+    note?: string | null;
+    mood?: number | null;
+    completedAt: string;
+}
+
+export interface BackupPause {
+    id: string;
+    startDateKey: string;
+    endDateKey: string;
+    createdAt: string;
+}
+
+export interface BackupFocusSession {
+    id: string;
+    habitId: string | null;
+    startedAt: string;
+    endedAt: string;
+    plannedSeconds: number;
+    actualSeconds: number;
+    pausedSeconds: number;
+    status: FocusSessionStatus;
+    // Pomodoro sessions only; missing in older backups
+    completedRounds?: number | null;
+}
+
+export interface BackupDocument {
+    app: typeof BACKUP_APP_ID;
+    formatVersion: number;
+    schemaVersion: number;
+    exportedAt: string;
+    habits: BackupHabit[];
+    logs: BackupLog[];
+    // Missing in backups made before vacation mode existed
+    pauses?: BackupPause[];
+    // Missing in backups made before focus sessions were recorded
+    focusSessions?: BackupFocusSession[];
+}
+
+// Result of restoring a backup into the store
+export interface ImportSummary {
+    habitsAdded: number;
+    habitsMerged: number;
+    logsAdded: number;
+    logsSkipped: number;
+}
+
+/**
+ * Raised when a backup file can't be read or fails validation
+ */
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupError';
+    }
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+const toIso = (value: Date | number | string): string => new Date(value).toISOString();
+
+/**
+ * Build a backup document from raw table rows
+ */
+export function createBackup(
+    habitRows: Habit[],
+    logRows: Log[],
+    pauseRows: Pause[] = [],
+    focusSessionRows: FocusSession[] = [],
+): BackupDocument {
+    return {
+        app: BACKUP_APP_ID,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        habits: habitRows.map(h => ({
+            id: h.id,
+            title: h.title,
+            iconKey: h.iconKey,
+            color: h.color,
+            type: h.type === 'negative' ? 'negative' : 'positive',
+            reminderTime: h.reminderTime ?? null,
+            schedule: getHabitSchedule(h),
+            target: getHabitMeasure(h),
+            counter: !!h.counter,
+            freezesPerMonth: h.freezesPerMonth,
+            archived: !!h.archived,
+            archivedAt: h.archivedAt ? toIso(h.archivedAt) : null,
+            createdAt: toIso(h.createdAt),
+        })),
+        logs: logRows.map(l => ({
+            id: l.id,
+            habitId: l.habitId,
+            dateKey: l.dateKey,
+            value: l.value ?? null,
+            status: isSkippedLog(l) ? 'skipped' : 'done',
+            note: l.note ?? null,
+            mood: l.mood ?? null,
+            completedAt: toIso(l.completedAt),
+        })),
+        pauses: pauseRows.map(p => ({
+            id: p.id,
+            startDateKey: p.startDateKey,
+            endDateKey: p.endDateKey,
+            createdAt: toIso(p.createdAt),
+        })),
+        focusSessions: focusSessionRows.map(s => ({
+            id: s.id,
+            habitId: s.habitId ?? null,
+            startedAt: toIso(s.startedAt),
+            endedAt: toIso(s.endedAt),
+            plannedSeconds: s.plannedSeconds,
+            actualSeconds: s.actualSeconds,
+            pausedSeconds: s.pausedSeconds,
+            status: s.status === 'completed' ? 'completed' : 'aborted',
+            completedRounds: s.completedRounds ?? null,
+        })),
+    };
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIsoDate = (value: unknown): value is string => isString(value) && !isNaN(new Date(value).getTime());
+
+const isSchedule = (value: any): value is HabitSchedule => !!value && (
+    value.type === 'daily'
+    || (value.type === 'weekdays' && Array.isArray(value.days) && value.days.length > 0
+        && value.days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))
+    || (value.type === 'weekly' && Number.isInteger(value.timesPerWeek) && value.timesPerWeek >= 1 && value.timesPerWeek <= 7)
+    || (value.type === 'interval' && Number.isInteger(value.everyDays) && value.everyDays >= 2)
+);
+
+/**
+ * Parse and validate a backup file's contents.
+ * Throws a BackupError describing the first problem found.
+ */
+export function parseBackup(json: string): BackupDocument {
+    let raw: any;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new BackupError('File is not valid JSON.');
+    }
+
+    if (!raw || raw.app !== BACKUP_APP_ID) {
+        throw new BackupError('File is not a Void Tracker backup.');
+    }
+    if (typeof raw.formatVersion !== 'number' || raw.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new BackupError(`Backup format ${raw.formatVersion} is not supported by this version of the app.`);
+    }
+    if (!Array.isArray(raw.habits) || !Array.isArray(raw.logs)) {
+        throw new BackupError('Backup is missing its habits or logs.');
+    }
+
+    const habitIds = new Set<string>();
+    raw.habits.forEach((h: any, i: number) => {
+        const valid = h
+            && isString(h.id)
+            && isString(h.title) && h.title.trim().length > 0
+            && isString(h.iconKey)
+            && isString(h.color)
+            && (h.type === 'positive' || h.type === 'negative')
+            && (h.reminderTime === null || (isString(h.reminderTime) && TIME_PATTERN.test(h.reminderTime)))
+            && (h.schedule === undefined || isSchedule(h.schedule))
+            && (h.target === undefined || h.target === null
+                || (isFiniteNumber(h.target.target) && h.target.target > 0 && isString(h.target.unit)))
+            && (h.counter === undefined || typeof h.counter === 'boolean')
+            && (h.freezesPerMonth === undefined
+                || (Number.isInteger(h.freezesPerMonth) && h.freezesPerMonth >= 0 && h.freezesPerMonth <= MAX_FREEZES_PER_MONTH))
+            && typeof h.archived === 'boolean'
+            && (h.archivedAt === undefined || h.archivedAt === null || isIsoDate(h.archivedAt))
+            && isIsoDate(h.createdAt);
+
+        if (!valid) {
+            throw new BackupError(`Habit #${i + 1} is malformed.`);
+        }
+        if (habitIds.has(h.id)) {
+            throw new BackupError(`Habit "${h.title}" appears more than once.`);
+        }
+        habitIds.add(h.id);
+    });
+
+    raw.logs.forEach((l: any, i: number) => {
+        const valid = l
+            && isString(l.id)
+            && isString(l.habitId) && habitIds.has(l.habitId)
+            && isString(l.dateKey) && DATE_KEY_PATTERN.test(l.dateKey)
+            && (l.value === undefined || l.value === null || (isFiniteNumber(l.value) && l.value >= 0))
+            && (l.status === undefined || l.status === 'done' || l.status === 'skipped')
+            && (l.note === undefined || l.note === null || isString(l.note))
+            && (l.mood === undefined || isValidMood(l.mood))
+            && isIsoDate(l.completedAt);
+
+        if (!valid) {
+            throw new BackupError(`Log #${i + 1} is malformed or references an unknown habit.`);
+        }
+    });
+
+    if (raw.pauses !== undefined && !Array.isArray(raw.pauses)) {
+        throw new BackupError('Backup pauses are malformed.');
+    }
+    (raw.pauses ?? []).forEach((p: any, i: number) => {
+        const valid = p
+            && isString(p.id)
+            && isString(p.startDateKey) && DATE_KEY_PATTERN.test(p.startDateKey)
+            && isString(p.endDateKey) && DATE_KEY_PATTERN.test(p.endDateKey)
+            && p.startDateKey <= p.endDateKey
+            && isIsoDate(p.createdAt);
+
+        if (!valid) {
+            throw new BackupError(`Pause #${i + 1} is malformed.`);
+        }
+    });
+
+    if (raw.focusSessions !== undefined && !Array.isArray(raw.focusSessions)) {
+        throw new BackupError('Backup focus sessions are malformed.');
+    }
+    const isWholeNumber = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+    (raw.focusSessions ?? []).forEach((s: any, i: number) => {
+        const valid = s
+            && isString(s.id)
+            && (s.habitId === null || (isString(s.habitId) && habitIds.has(s.habitId)))
+            && isIsoDate(s.startedAt)
+            && isIsoDate(s.endedAt)
+            && isWholeNumber(s.plannedSeconds)
+            && isWholeNumber(s.actualSeconds)
+            && isWholeNumber(s.pausedSeconds)
+            && (s.status === 'completed' || s.status === 'aborted')
+            && (s.completedRounds === undefined || s.completedRounds === null || isWholeNumber(s.completedRounds));
+
+        if (!valid) {
+            throw new BackupError(`Focus session #${i + 1} is malformed or references an unknown habit.`);
+        }
+    });
+
+    return raw as BackupDocument;
+}
+
+/**
+ * Work out which rows of a backup to insert alongside existing data.
+ *
+ * ID collisions are resolved as follows:
+ * - A habit with the same ID and creation time is the same habit: its logs are merged.
+ * - A habit with the same ID but a different creation time gets a fresh ID.
+ * - A log for a habit/day that already has one is skipped; a clashing log ID is regenerated.
+ *   Counter habits log several times a day, so for a merged counter habit only
+ *   logs whose ID is already present are skipped.
+ * - A pause overlapping one that already exists is skipped; a clashing pause ID is regenerated.
+ * - A focus session whose ID already exists is the same session and is skipped.
+ */
+export function planImport(
+    existingHabits: Array<Pick<Habit, 'id' | 'createdAt'>>,
+    existingLogs: Array<Pick<Log, 'id' | 'habitId' | 'dateKey'>>,
+    backup: BackupDocument,
+    makeId: () => string,
+    existingPauses: Array<Pick<Pause, 'id' | 'startDateKey' | 'endDateKey'>> = [],
+    existingFocusSessions: Array<Pick<FocusSession, 'id'>> = [],
+): { habits: Habit[]; logs: Log[]; pauses: Pause[]; focusSessions: FocusSession[]; summary: ImportSummary } {
+    const summary: ImportSummary = { habitsAdded: 0, habitsMerged: 0, logsAdded: 0, logsSkipped: 0 };
+    const localHabits = new Map(existingHabits.map(h => [h.id, h]));
+    const usedLogIds = new Set(existingLogs.map(l => l.id));
+    const usedDays = new Set(existingLogs.map(l => `${l.habitId}|${l.dateKey}`));
+
+    const habitIdMap = new Map<string, string>();
+    const mergedHabitIds = new Set<string>();
+    const counterHabitIds = new Set<string>();
+    const habits: Habit[] = [];
+
+    for (const h of backup.habits) {
+        const local = localHabits.get(h.id);
+        const createdAt = new Date(h.createdAt);
+
+        if (local && new Date(local.createdAt).getTime() === createdAt.getTime()) {
+            habitIdMap.set(h.id, h.id);
+            mergedHabitIds.add(h.id);
+            if (h.counter) counterHabitIds.add(h.id);
+            summary.habitsMerged++;
+            continue;
+        }
+
+        const id = local ? makeId() : h.id;
+        habitIdMap.set(h.id, id);
+        if (h.counter) counterHabitIds.add(id);
+        habits.push({
+            id,
+            title: h.title,
+            iconKey: h.iconKey,
+            color: h.color,
+            type: h.type,
+            reminderTime: h.reminderTime,
+            // Scheduled notifications belong to the device, not the backup
+            notificationId: null,
+            ...scheduleToColumns(h.schedule ?? DAILY_SCHEDULE),
+            targetValue: h.target?.target ?? null,
+            unit: h.target?.unit ?? null,
+            counter: h.counter ?? false,
+            freezesPerMonth: h.freezesPerMonth ?? DEFAULT_FREEZES_PER_MONTH,
+            archived: h.archived,
+            archivedAt: h.archivedAt ? new Date(h.archivedAt) : null,
+            createdAt,
+        });
+        summary.habitsAdded++;
+    }
+
+    const logs: Log[] = [];
+    for (const l of backup.logs) {
+        const habitId = habitIdMap.get(l.habitId)!;
+        const dayKey = `${habitId}|${l.dateKey}`;
+
+        const isDuplicate = counterHabitIds.has(habitId)
+            ? mergedHabitIds.has(habitId) && usedLogIds.has(l.id)
+            : usedDays.has(dayKey);
+
+        if (isDuplicate) {
+            summary.logsSkipped++;
+            continue;
+        }
+
+        const id = usedLogIds.has(l.id) ? makeId() : l.id;
+        usedLogIds.add(id);
+        usedDays.add(dayKey);
+        logs.push({
+            id,
+            habitId,
+            dateKey: l.dateKey,
+            value: l.value ?? null,
+            status: l.status ?? 'done',
+            note: normalizeNote(l.note),
+            mood: l.mood ?? null,
+            completedAt: new Date(l.completedAt),
+        });
+        summary.logsAdded++;
+    }
+
+    const usedPauseIds = new Set(existingPauses.map(p => p.id));
+    const keptPauses: Array<Pick<Pause, 'startDateKey' | 'endDateKey'>> = [...existingPauses];
+    const pauses: Pause[] = [];
+    for (const p of backup.pauses ?? []) {
+        if (keptPauses.some(existing => pausesOverlap(existing, p))) continue;
+
+        const id = usedPauseIds.has(p.id) ? makeId() : p.id;
+        usedPauseIds.add(id);
+        keptPauses.push(p);
+        pauses.push({
+            id,
+            startDateKey: p.startDateKey,
+            endDateKey: p.endDateKey,
+            createdAt: new Date(p.createdAt),
+        });
+    }
+
+    const usedSessionIds = new Set(existingFocusSessions.map(s => s.id));
+    const focusSessions: FocusSession[] = [];
+    for (const s of backup.focusSessions ?? []) {
+        if (usedSessionIds.has(s.id)) continue;
+
+        usedSessionIds.add(s.id);
+        focusSessions.push({
+            id: s.id,
+            habitId: s.habitId === null ? null : habitIdMap.get(s.habitId)!,
+            startedAt: new Date(s.startedAt),
+            endedAt: new Date(s.endedAt),
+            plannedSeconds: s.plannedSeconds,
+            actualSeconds: s.actualSeconds,
+            pausedSeconds: s.pausedSeconds,
+            status: s.status,
+            completedRounds: s.completedRounds ?? null,
+        });
+    }
+
+    return { habits, logs, pauses, focusSessions, summary };
+}
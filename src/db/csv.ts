@@ -0,0 +1,73 @@
+/**
+ * CSV Export
+ *
+ * Flattens completion logs joined with their habit into a spreadsheet-friendly CSV.
+ */
+
+// Optional filters for the export (date keys are inclusive, "YYYY-MM-DD")
+export interface LogExportFilter {
+    fromDateKey?: string;
+    toDateKey?: string;
+    habitIds?: string[];
+}
+
+// One log joined with the habit it belongs to
+export interface LogExportRow {
+    habitTitle: string;
+    habitType: string;
+    habitColor: string;
+    dateKey: string;
+    // 'done' or 'skipped'
+    status: string;
+    // Amount and unit for measurable habits (null otherwise)
+    value: number | null;
+    unit: string | null;
+    // Journal entry (null if none)
+    mood: number | null;
+    note: string | null;
+    completedAt: Date;
+}
+
+const CSV_HEADER = ['habit_title', 'habit_type', 'habit_color', 'date_key', 'status', 'value', 'unit', 'mood', 'note', 'completed_at'];
+
+/**
+ * Quote a cell if needed and defuse values a spreadsheet would run as a formula
+ */
+const escapeCell = (value: string): string => {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Check whether a log's date and habit pass the filter
+ */
+export function matchesLogFilter(habitId: string, dateKey: string, filter: LogExportFilter = {}): boolean {
+    if (filter.fromDateKey && dateKey < filter.fromDateKey) return false;
+    if (filter.toDateKey && dateKey > filter.toDateKey) return false;
+    if (filter.habitIds && !filter.habitIds.includes(habitId)) return false;
+    return true;
+}
+
+/**
+ * Build the CSV text, oldest day first
+ */
+export function buildLogsCsv(rows: LogExportRow[]): string {
+    const sorted = [...rows].sort((a, b) =>
+        a.dateKey.localeCompare(b.dateKey) || a.completedAt.getTime() - b.completedAt.getTime()
+    );
+
+    const lines = sorted.map(row => [
+        row.habitTitle,
+        row.habitType,
+        row.habitColor,
+        row.dateKey,
+        row.status,
+        row.value == null ? '' : String(row.value),
+        row.unit ?? '',
+        row.mood == null ? '' : String(row.mood),
+        row.note ?? '',
+        row.completedAt.toISOString(),
+    ].map(escapeCell).join(','));
+
+    return [CSV_HEADER.join(','), ...lines].join('\r\n') + '\r\n';
+}
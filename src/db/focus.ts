@@ -0,0 +1,155 @@
+/**
+ * Focus Sessions
+ *
+ * Every run of the focus timer is recorded, whether it ran out ('completed')
+ * or was stopped early ('aborted'). Focused time leaves pauses out, so an
+ * aborted session still shows how much deep work it held.
+ *
+ * A session can be linked to a habit; when it runs out it counts towards
+ * that habit for the day (see getFocusCredit).
+ *
+ * The timer itself is worked out from the wall clock (FocusTimer): the start time
+ * and time spent paused, never a countdown, so it stays right while the app is
+ * in the background or closed.
+ *
+ * Any whole number of minutes within FOCUS_MINUTES_LIMITS can be set as the
+ * countdown, and lengths used often can be saved as named presets (FocusPreset).
+ */
+
+import type { FocusSession, Habit } from './schema';
+import { getHabitMeasure } from './measure';
+
+export type FocusSessionStatus = 'completed' | 'aborted';
+
+/**
+ * A started timer. Times are epoch milliseconds so it can be persisted as JSON.
+ */
+export interface FocusTimer {
+    startedAt: number;
+    plannedSeconds: number;
+    // Time spent in earlier pauses
+    pausedMs: number;
+    // When the current pause began (null while running)
+    pausedAt: number | null;
+}
+
+/**
+ * Total time a timer has spent paused, including a pause still going on
+ */
+export function getTimerPausedMs(timer: FocusTimer, now: number): number {
+    return timer.pausedMs + (timer.pausedAt !== null ? Math.max(0, now - timer.pausedAt) : 0);
+}
+
+/**
+ * Seconds focused so far, pauses excluded (never more than planned)
+ */
+export function getTimerFocusedSeconds(timer: FocusTimer, now: number): number {
+    const focusedMs = now - timer.startedAt - getTimerPausedMs(timer, now);
+    return Math.min(timer.plannedSeconds, Math.max(0, focusedMs / 1000));
+}
+
+/**
+ * Whole seconds left on the timer, 0 once it has run out
+ */
+export function getTimerRemainingSeconds(timer: FocusTimer, now: number): number {
+    return Math.ceil(timer.plannedSeconds - getTimerFocusedSeconds(timer, now));
+}
+
+/**
+ * When the timer runs out if it isn't paused (again) from `now` on
+ */
+export function getTimerEndsAt(timer: FocusTimer, now: number): number {
+    return timer.startedAt + getTimerPausedMs(timer, now) + timer.plannedSeconds * 1000;
+}
+
+// Units a measurable habit can be timed in, as minutes per unit
+const TIME_UNITS: Record<string, number> = {
+    m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+    h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+};
+
+/**
+ * How a completed session counts towards its habit:
+ * - 'amount': the focused time, in the habit's unit (measurable habits timed in minutes or hours)
+ * - 'completion': one more completion (counter habits)
+ * - 'complete': the day is marked done (every other habit)
+ */
+export type FocusCredit =
+    | { type: 'amount'; amount: number }
+    | { type: 'completion' }
+    | { type: 'complete' };
+
+/**
+ * Minutes in one of a unit ("min", "hours"...), or null if it isn't a unit of time
+ */
+export function getMinutesPerUnit(unit: string): number | null {
+    return TIME_UNITS[unit.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Work out what a completed session adds to its linked habit
+ */
+export function getFocusCredit(
+    habit: Pick<Habit, 'targetValue' | 'unit' | 'counter'>,
+    focusedSeconds: number,
+): FocusCredit {
+    if (habit.counter) return { type: 'completion' };
+
+    const measure = getHabitMeasure(habit);
+    const minutesPerUnit = measure && getMinutesPerUnit(measure.unit);
+    if (minutesPerUnit) {
+        const minutes = Math.round(focusedSeconds / 60);
+        return { type: 'amount', amount: Math.round(minutes / minutesPerUnit * 100) / 100 };
+    }
+    return { type: 'complete' };
+}
+
+/**
+ * Sessions started on a "YYYY-MM-DD" day (local time)
+ */
+export function getFocusSessionsOn<T extends Pick<FocusSession, 'startedAt'>>(sessions: T[], dateKey: string): T[] {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const start = new Date(year, month - 1, day).getTime();
+    const end = new Date(year, month - 1, day + 1).getTime();
+    return sessions.filter(s => {
+        const startedAt = new Date(s.startedAt).getTime();
+        return start <= startedAt && startedAt < end;
+    });
+}
+
+/**
+ * Total focused seconds across sessions, completed or not
+ */
+export function getFocusedSeconds(sessions: Array<Pick<FocusSession, 'actualSeconds'>>): number {
+    return sessions.reduce((total, s) => total + s.actualSeconds, 0);
+}
+
+// Countdown lengths that can be picked, in minutes
+export const FOCUS_MINUTES_LIMITS = { min: 1, max: 240 };
+export const DEFAULT_FOCUS_MINUTES = 30;
+export const MAX_PRESET_NAME_LENGTH = 24;
+
+/**
+ * A countdown length saved under a name ("Deep work 90")
+ */
+export interface FocusPreset {
+    id: string;
+    name: string;
+    minutes: number;
+}
+
+/**
+ * Keep a countdown length within FOCUS_MINUTES_LIMITS (whole minutes)
+ */
+export function clampFocusMinutes(minutes: number): number {
+    const value = Math.round(minutes);
+    if (!Number.isFinite(value)) return DEFAULT_FOCUS_MINUTES;
+    return Math.min(FOCUS_MINUTES_LIMITS.max, Math.max(FOCUS_MINUTES_LIMITS.min, value));
+}
+
+/**
+ * Tidy a preset name: trimmed, single spaces, at most MAX_PRESET_NAME_LENGTH characters
+ */
+export function normalizePresetName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').slice(0, MAX_PRESET_NAME_LENGTH).trim();
+}
@@ -0,0 +1,44 @@
+/**
+ * Skipped Days
+ *
+ * A log with status 'skipped' excuses a day (sick, travelling, resting).
+ * Skipped days are neutral: they neither extend nor break a streak, and
+ * they aren't counted as due in consistency scores.
+ * Each habit has a monthly allowance of these "freezes" (freezes_per_month),
+ * counted per calendar month.
+ */
+
+import type { Habit, Log } from './schema';
+
+export type LogStatus = 'done' | 'skipped';
+
+export const DEFAULT_FREEZES_PER_MONTH = 2;
+export const MAX_FREEZES_PER_MONTH = 10;
+
+/**
+ * Whether a log excuses its day rather than completing it
+ */
+export function isSkippedLog(log: Partial<Pick<Log, 'status'>>): boolean {
+    return log.status === 'skipped';
+}
+
+/**
+ * "YYYY-MM" month of a "YYYY-MM-DD" date key
+ */
+export function getMonthKey(dateKey: string): string {
+    return dateKey.slice(0, 7);
+}
+
+/**
+ * Freezes still available in the month containing `dateKey`
+ * @param logs The habit's logs (any month)
+ */
+export function getFreezesLeft(
+    habit: Partial<Pick<Habit, 'freezesPerMonth'>>,
+    logs: Array<Pick<Log, 'dateKey' | 'status'>>,
+    dateKey: string,
+): number {
+    const month = getMonthKey(dateKey);
+    const used = logs.filter(l => isSkippedLog(l) && getMonthKey(l.dateKey) === month).length;
+    return Math.max(0, (habit.freezesPerMonth ?? DEFAULT_FREEZES_PER_MONTH) - used);
+}
@@ -4,11 +4,17 @@
  * Sets up expo-sqlite with Drizzle ORM for the Void Tracker.
  * Handles table creation and provides the database instance.
  * 
- * NOTE: expo-sqlite doesn't support web. On web, we use an in-memory mock.
+ * NOTE: expo-sqlite doesn't support web. On web, data lives in localStorage
+ * instead (see webStorage.ts), versioned with the same migrations.
  */
 
 import { Platform } from 'react-native';
 import * as schema from './schema';
+import { runMigrations, verifySchema, getSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
+import type { HabitRepository, RepositoryRows } from './repository';
+import { createMemoryRepository } from './memoryRepository';
+import { createSQLiteRepository } from './sqliteRepository';
+import { createWebRepository, loadWebDatabase, type KeyValueStorage } from './webStorage';
 
 // Platform detection
 const isWeb = Platform.OS === 'web';
@@ -26,7 +32,7 @@ let _expoDb: any | null = null;
  */
 export function getDb(): DrizzleDB {
   if (isWeb) {
-    throw new Error('SQLite is not supported on web. Use the mock store instead.');
+    throw new Error('SQLite is not supported on web. Use the habit repository instead.');
   }
 
   if (!_db) {
@@ -46,14 +52,45 @@ export function getDb(): DrizzleDB {
 export const db = isWeb ? null : getDb;
 
 /**
- * Initialize the database tables
+ * Browser storage for the web build, if there is any (not during static rendering)
+ */
+function getWebStorage(): KeyValueStorage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+// Rows loaded (and upgraded) by initializeDatabase, until the web repository takes them
+let loadedWebRows: RepositoryRows | null = null;
+
+function loadWebRows(storage: KeyValueStorage): RepositoryRows {
+  const rows = loadedWebRows ?? loadWebDatabase(storage);
+  loadedWebRows = null;
+  return rows;
+}
+
+/**
+ * Initialize the database
  * 
- * Creates the habits and logs tables if they don't exist.
- * Should be called once when the app starts.
+ * Runs any pending schema migrations and verifies the result
+ * against the Drizzle schema. Should be called once when the app starts.
+ * On web, loads and upgrades the data saved in the browser instead, and hands
+ * it to the repository so it isn't read twice.
+ * Throws a MigrationError on failure so the root layout can show it.
  */
 export async function initializeDatabase(): Promise<void> {
   if (isWeb) {
-    console.log('[DB] Running on web - using mock data store');
+    const storage = getWebStorage();
+    if (!storage) {
+      console.log('[DB] No web storage available - data will not be saved');
+      return;
+    }
+
+    try {
+      loadedWebRows = loadWebDatabase(storage);
+      console.log(`[DB] Web storage initialized (schema v${LATEST_SCHEMA_VERSION})`);
+    } catch (error) {
+      console.error('[DB] Failed to initialize web storage:', error);
+      throw error;
+    }
     return;
   }
 
@@ -64,64 +101,38 @@ export async function initializeDatabase(): Promise<void> {
       return _expoDb!;
     })();
 
-    // Create habits table
-    expoDb.execSync(`
-      CREATE TABLE IF NOT EXISTS habits (
-        id TEXT PRIMARY KEY NOT NULL,
-        title TEXT NOT NULL,
-        icon_key TEXT NOT NULL DEFAULT 'circle',
-        reminder_time TEXT,
-        color TEXT NOT NULL DEFAULT '#ffb347',
-        archived INTEGER NOT NULL DEFAULT 0,
-        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
-      );
-    `);
-
-    // Migration: Add new columns if they don't exist (safe update)
-    try {
-      expoDb.execSync(`ALTER TABLE habits ADD COLUMN reminder_time TEXT;`);
-      console.log('[DB] Added reminder_time column');
-    } catch (e) {
-      // Column likely already exists, ignore
-    }
+    runMigrations(expoDb);
+    verifySchema(expoDb);
 
-    try {
-      expoDb.execSync(`ALTER TABLE habits ADD COLUMN color TEXT NOT NULL DEFAULT '#ffb347';`);
-      console.log('[DB] Added color column');
-    } catch (e) {
-      // Column likely already exists, ignore
-    }
-
-    try {
-      expoDb.execSync(`ALTER TABLE habits ADD COLUMN type TEXT NOT NULL DEFAULT 'positive';`);
-      console.log('[DB] Added type column');
-    } catch (e) {
-      // Column likely already exists, ignore
-    }
-
-    // Create logs table with foreign key
-    expoDb.execSync(`
-      CREATE TABLE IF NOT EXISTS logs (
-        id TEXT PRIMARY KEY NOT NULL,
-        habit_id TEXT NOT NULL,
-        date_key TEXT NOT NULL,
-        completed_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000),
-        FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE
-      );
-    `);
-
-    // Create indexes
-    expoDb.execSync(`CREATE INDEX IF NOT EXISTS idx_logs_date_key ON logs(date_key);`);
-    expoDb.execSync(`CREATE INDEX IF NOT EXISTS idx_logs_habit_id ON logs(habit_id);`);
-    expoDb.execSync(`CREATE INDEX IF NOT EXISTS idx_logs_habit_date ON logs(habit_id, date_key);`);
-
-    console.log('[DB] Database initialized successfully');
+    console.log(`[DB] Database initialized successfully (schema v${getSchemaVersion(expoDb)})`);
   } catch (error) {
     console.error('[DB] Failed to initialize database:', error);
     throw error;
   }
 }
 
+/**
+ * The storage the stores run on: SQLite on native, localStorage on web
+ * (in memory only if the browser has no storage)
+ */
+export function createHabitRepository(): HabitRepository {
+  if (!isWeb) {
+    return createSQLiteRepository(getDb);
+  }
+  const storage = getWebStorage();
+  return storage ? createWebRepository(storage, () => loadWebRows(storage)) : createMemoryRepository();
+}
+
+let sharedRepository: HabitRepository | null = null;
+
+/**
+ * The repository shared by the app's stores.
+ * A web repository saves its whole copy of the data, so two of them would overwrite each other.
+ */
+export function getRepository(): HabitRepository {
+  return sharedRepository ??= createHabitRepository();
+}
+
 /**
  * Check if we're running on a platform with SQLite support
  */
@@ -141,16 +152,35 @@ export function generateId(): string {
   });
 }
 
+/**
+ * Get a local date key in YYYY-MM-DD format
+ */
+export function getDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
 /**
  * Get today's date key in YYYY-MM-DD format
  */
 export function getTodayDateKey(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+  return getDateKey(new Date());
 }
 
 // Re-export schema for convenience
 export * from './schema';
+export { MigrationError, LATEST_SCHEMA_VERSION } from './migrations';
+export * from './backup';
+export * from './csv';
+export * from './schedule';
+export * from './measure';
+export * from './journal';
+export * from './freeze';
+export * from './pause';
+export * from './focus';
+export * from './pomodoro';
+export * from './stats';
+export * from './repository';
+export { createMemoryRepository } from './memoryRepository';
@@ -0,0 +1,39 @@
+/**
+ * Log Journal
+ *
+ * Each log can carry an optional free-text note and a 1-5 mood / effort
+ * rating (1 = awful, 5 = great). For Break habits the note is where the
+ * trigger behind a slip gets written down.
+ */
+
+import type { Log } from './schema';
+
+export const MOOD_MIN = 1;
+export const MOOD_MAX = 5;
+
+// Longest note we keep; anything past this is cut off
+export const NOTE_MAX_LENGTH = 1000;
+
+export type LogEntry = Pick<Log, 'note' | 'mood'>;
+
+/**
+ * Whether a value is a valid mood rating (null means no rating)
+ */
+export function isValidMood(mood: unknown): mood is number | null {
+    return mood === null || (Number.isInteger(mood) && (mood as number) >= MOOD_MIN && (mood as number) <= MOOD_MAX);
+}
+
+/**
+ * Trim a note, turning blank notes into null
+ */
+export function normalizeNote(note: string | null | undefined): string | null {
+    const trimmed = note?.trim().slice(0, NOTE_MAX_LENGTH) ?? '';
+    return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Whether a log has anything worth showing in the journal
+ */
+export function hasJournalEntry(log: Partial<LogEntry>): boolean {
+    return !!log.note || log.mood != null;
+}
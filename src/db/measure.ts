@@ -0,0 +1,57 @@
+/**
+ * Measurable Habits
+ *
+ * A habit with a target_value is measured (e.g. 8 glasses, 30 minutes):
+ * each day's log carries the amount done so far in logs.value, and the day
+ * only counts as complete once that amount reaches the target.
+ * Habits without a target are plain done / not done.
+ */
+
+import type { Habit, Log } from './schema';
+import { isSkippedLog } from './freeze';
+
+export interface HabitMeasure {
+    target: number;
+    unit: string;
+}
+
+/**
+ * Read a habit's target, or null for a plain done / not-done habit
+ */
+export function getHabitMeasure(habit: Partial<Pick<Habit, 'targetValue' | 'unit'>>): HabitMeasure | null {
+    if (!habit.targetValue || habit.targetValue <= 0) return null;
+    return { target: habit.targetValue, unit: habit.unit ?? '' };
+}
+
+/**
+ * Whether a day's log meets the habit's target.
+ * Logs without a value were recorded before the habit was measured and count as done.
+ * Skipped days never do.
+ */
+export function isLogComplete(
+    habit: Partial<Pick<Habit, 'targetValue' | 'unit'>>,
+    log: Partial<Pick<Log, 'value' | 'status'>>,
+): boolean {
+    if (isSkippedLog(log)) return false;
+    const measure = getHabitMeasure(habit);
+    if (!measure || log.value == null) return true;
+    return log.value >= measure.target;
+}
+
+/**
+ * How much one tap on "+" adds: 1 for small targets, growing with the target
+ * so 10,000 steps doesn't take 10,000 taps.
+ */
+export function getMeasureStep(target: number): number {
+    if (target <= 20) return 1;
+    if (target <= 100) return 5;
+    return Math.pow(10, Math.floor(Math.log10(target)) - 1);
+}
+
+/**
+ * Progress label, e.g. "3 / 8 glasses" or "7,500 / 10,000 steps"
+ */
+export function formatMeasure(value: number, measure: HabitMeasure): string {
+    const progress = `${value.toLocaleString('en-US')} / ${measure.target.toLocaleString('en-US')}`;
+    return measure.unit ? `${progress} ${measure.unit}` : progress;
+}
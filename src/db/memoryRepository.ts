@@ -0,0 +1,96 @@
+/**
+ * In-Memory Habit Repository
+ *
+ * Keeps habits, logs, pauses and focus sessions in plain arrays. Used on web, where expo-sqlite
+ * isn't available, and by the tests. Nothing survives a reload.
+ * Rows are copied in and out, so callers can't change stored data by accident.
+ */
+
+import type { Habit, Log, Pause, FocusSession } from './schema';
+import { matchesLogQuery, type HabitRepository, type LogQuery, type RepositoryRows } from './repository';
+
+export function createMemoryRepository(initial: Partial<RepositoryRows> = {}): HabitRepository {
+    let habits: Habit[] = (initial.habits ?? []).map(h => ({ ...h }));
+    let logs: Log[] = (initial.logs ?? []).map(l => ({ ...l }));
+    let pauses: Pause[] = (initial.pauses ?? []).map(p => ({ ...p }));
+    let focusSessions: FocusSession[] = (initial.focusSessions ?? []).map(s => ({ ...s }));
+
+    return {
+        getHabits: async (filter = {}) =>
+            habits
+                .filter(h => filter.archived === undefined || h.archived === filter.archived)
+                .map(h => ({ ...h })),
+
+        getHabit: async (id: string) => {
+            const habit = habits.find(h => h.id === id);
+            return habit && { ...habit };
+        },
+
+        insertHabit: async (habit: Habit) => {
+            habits = [...habits, { ...habit }];
+        },
+
+        updateHabit: async (id: string, changes: Partial<Habit>) => {
+            habits = habits.map(h => h.id === id ? { ...h, ...changes } : h);
+        },
+
+        deleteHabit: async (id: string) => {
+            logs = logs.filter(l => l.habitId !== id);
+            focusSessions = focusSessions.map(s => s.habitId === id ? { ...s, habitId: null } : s);
+            habits = habits.filter(h => h.id !== id);
+        },
+
+        getLogs: async (query?: LogQuery) =>
+            logs.filter(l => matchesLogQuery(l, query)).map(l => ({ ...l })),
+
+        insertLog: async (log: Log) => {
+            logs = [...logs, { ...log }];
+        },
+
+        updateLog: async (id: string, changes: Partial<Log>) => {
+            logs = logs.map(l => l.id === id ? { ...l, ...changes } : l);
+        },
+
+        deleteLog: async (id: string) => {
+            logs = logs.filter(l => l.id !== id);
+        },
+
+        deleteLogs: async (query: LogQuery) => {
+            logs = logs.filter(l => !matchesLogQuery(l, query));
+        },
+
+        getPauses: async () => pauses.map(p => ({ ...p })),
+
+        insertPause: async (pause: Pause) => {
+            pauses = [...pauses, { ...pause }];
+        },
+
+        updatePause: async (id: string, changes: Partial<Pause>) => {
+            pauses = pauses.map(p => p.id === id ? { ...p, ...changes } : p);
+        },
+
+        deletePause: async (id: string) => {
+            pauses = pauses.filter(p => p.id !== id);
+        },
+
+        getFocusSessions: async () => focusSessions.map(s => ({ ...s })),
+
+        insertFocusSession: async (session: FocusSession) => {
+            focusSessions = [...focusSessions, { ...session }];
+        },
+
+        insertAll: async (rows: RepositoryRows) => {
+            habits = [...habits, ...rows.habits.map(h => ({ ...h }))];
+            logs = [...logs, ...rows.logs.map(l => ({ ...l }))];
+            pauses = [...pauses, ...rows.pauses.map(p => ({ ...p }))];
+            focusSessions = [...focusSessions, ...rows.focusSessions.map(s => ({ ...s }))];
+        },
+
+        clearAll: async () => {
+            habits = [];
+            logs = [];
+            pauses = [];
+            focusSessions = [];
+        },
+    };
+}
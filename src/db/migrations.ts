@@ -0,0 +1,265 @@
+/**
+ * Schema Migrations
+ *
+ * Ordered, versioned migrations for void-tracker.db.
+ * The applied version is tracked with `PRAGMA user_version`, and each
+ * migration runs inside its own transaction together with the version bump.
+ *
+ * Adding a column? Append a new migration here AND update `schema.ts`.
+ * `verifySchema()` fails startup if the two ever drift apart.
+ *
+ * Web storage (webStorage.ts) shares these version numbers. New columns and tables
+ * need nothing extra there; a migration that rewrites existing rows also needs `upWeb`.
+ */
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { getTableConfig, type SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { habits, logs, pauses, focusSessions } from './schema';
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: SQLiteDatabase) => void;
+    // The same change for web storage, when rows have to be rewritten (see webStorage.ts)
+    upWeb?: (tables: WebTables) => void;
+}
+
+/**
+ * Web storage contents: rows per table name, keyed by column name like SQLite
+ */
+export type WebTables = Record<string, Array<Record<string, unknown>>>;
+
+/**
+ * Raised when a migration fails or the database doesn't match the Drizzle schema.
+ * The message is shown on the root layout's error screen.
+ */
+export class MigrationError extends Error {
+    constructor(message: string, public readonly version?: number) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+/**
+ * Add a column only if the table doesn't have it yet.
+ * Only needed by the initial migration, to adopt databases created
+ * before versioning existed (user_version 0 with partially-migrated tables).
+ */
+const addColumnIfMissing = (db: SQLiteDatabase, table: string, column: string, definition: string) => {
+    const columns = db.getAllSync<{ name: string }>(`PRAGMA table_info(${table});`);
+    if (!columns.some(c => c.name === column)) {
+        db.execSync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+        console.log(`[DB] Added ${table}.${column} column`);
+    }
+};
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        up: (db) => {
+            db.execSync(`
+                CREATE TABLE IF NOT EXISTS habits (
+                    id TEXT PRIMARY KEY NOT NULL,
+                    title TEXT NOT NULL,
+                    icon_key TEXT NOT NULL DEFAULT 'circle',
+                    reminder_time TEXT,
+                    color TEXT NOT NULL DEFAULT '#ffb347',
+                    type TEXT NOT NULL DEFAULT 'positive',
+                    archived INTEGER NOT NULL DEFAULT 0,
+                    created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+                );
+            `);
+
+            // Pre-versioning installs may be missing columns added later
+            addColumnIfMissing(db, 'habits', 'reminder_time', 'TEXT');
+            addColumnIfMissing(db, 'habits', 'color', `TEXT NOT NULL DEFAULT '#ffb347'`);
+            addColumnIfMissing(db, 'habits', 'type', `TEXT NOT NULL DEFAULT 'positive'`);
+
+            db.execSync(`
+                CREATE TABLE IF NOT EXISTS logs (
+                    id TEXT PRIMARY KEY NOT NULL,
+                    habit_id TEXT NOT NULL,
+                    date_key TEXT NOT NULL,
+                    completed_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000),
+                    FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE
+                );
+            `);
+
+            db.execSync(`CREATE INDEX IF NOT EXISTS idx_logs_date_key ON logs(date_key);`);
+            db.execSync(`CREATE INDEX IF NOT EXISTS idx_logs_habit_id ON logs(habit_id);`);
+            db.execSync(`CREATE INDEX IF NOT EXISTS idx_logs_habit_date ON logs(habit_id, date_key);`);
+        },
+    },
+    {
+        version: 2,
+        name: 'habit_archived_at',
+        up: (db) => {
+            db.execSync(`ALTER TABLE habits ADD COLUMN archived_at INTEGER;`);
+        },
+    },
+    {
+        version: 3,
+        name: 'habit_notification_id',
+        up: (db) => {
+            db.execSync(`ALTER TABLE habits ADD COLUMN notification_id TEXT;`);
+        },
+    },
+    {
+        version: 4,
+        name: 'habit_schedule',
+        up: (db) => {
+            db.execSync(`
+                ALTER TABLE habits ADD COLUMN schedule_type TEXT NOT NULL DEFAULT 'daily';
+                ALTER TABLE habits ADD COLUMN schedule_days TEXT;
+                ALTER TABLE habits ADD COLUMN schedule_times_per_week INTEGER;
+                ALTER TABLE habits ADD COLUMN schedule_interval_days INTEGER;
+            `);
+        },
+    },
+    {
+        version: 5,
+        name: 'habit_targets',
+        up: (db) => {
+            db.execSync(`
+                ALTER TABLE habits ADD COLUMN target_value REAL;
+                ALTER TABLE habits ADD COLUMN unit TEXT;
+                ALTER TABLE logs ADD COLUMN value REAL;
+            `);
+        },
+    },
+    {
+        version: 6,
+        name: 'habit_counter',
+        up: (db) => {
+            db.execSync(`ALTER TABLE habits ADD COLUMN counter INTEGER NOT NULL DEFAULT 0;`);
+        },
+    },
+    {
+        version: 7,
+        name: 'log_journal',
+        up: (db) => {
+            db.execSync(`
+                ALTER TABLE logs ADD COLUMN note TEXT;
+                ALTER TABLE logs ADD COLUMN mood INTEGER;
+            `);
+        },
+    },
+    {
+        version: 8,
+        name: 'skipped_days',
+        up: (db) => {
+            db.execSync(`
+                ALTER TABLE habits ADD COLUMN freezes_per_month INTEGER NOT NULL DEFAULT 2;
+                ALTER TABLE logs ADD COLUMN status TEXT NOT NULL DEFAULT 'done';
+            `);
+        },
+    },
+    {
+        version: 9,
+        name: 'pauses',
+        up: (db) => {
+            db.execSync(`
+                CREATE TABLE pauses (
+                    id TEXT PRIMARY KEY NOT NULL,
+                    start_date_key TEXT NOT NULL,
+                    end_date_key TEXT NOT NULL,
+                    created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+                );
+            `);
+        },
+    },
+    {
+        version: 10,
+        name: 'focus_sessions',
+        up: (db) => {
+            db.execSync(`
+                CREATE TABLE focus_sessions (
+                    id TEXT PRIMARY KEY NOT NULL,
+                    habit_id TEXT REFERENCES habits(id) ON DELETE SET NULL,
+                    started_at INTEGER NOT NULL,
+                    ended_at INTEGER NOT NULL,
+                    planned_seconds INTEGER NOT NULL,
+                    actual_seconds INTEGER NOT NULL,
+                    paused_seconds INTEGER NOT NULL DEFAULT 0,
+                    status TEXT NOT NULL
+                );
+            `);
+            db.execSync(`CREATE INDEX IF NOT EXISTS idx_focus_sessions_started_at ON focus_sessions(started_at);`);
+        },
+    },
+    {
+        version: 11,
+        name: 'focus_session_rounds',
+        up: (db) => {
+            db.execSync(`ALTER TABLE focus_sessions ADD COLUMN completed_rounds INTEGER;`);
+        },
+    },
+];
+
+// The version a fully-migrated database reports
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the schema version stored in the database header
+ */
+export function getSchemaVersion(db: SQLiteDatabase): number {
+    const row = db.getFirstSync<{ user_version: number }>('PRAGMA user_version;');
+    return row?.user_version ?? 0;
+}
+
+/**
+ * Apply every pending migration in order.
+ * Each migration and its version bump commit atomically, so a failure
+ * leaves the database at the last successful version.
+ */
+export function runMigrations(db: SQLiteDatabase): void {
+    const currentVersion = getSchemaVersion(db);
+
+    if (currentVersion > LATEST_SCHEMA_VERSION) {
+        throw new MigrationError(
+            `Database version ${currentVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Please update the app.`,
+            currentVersion
+        );
+    }
+
+    const pending = MIGRATIONS
+        .filter(m => m.version > currentVersion)
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        try {
+            db.withTransactionSync(() => {
+                migration.up(db);
+                // PRAGMA doesn't accept bound parameters
+                db.execSync(`PRAGMA user_version = ${migration.version};`);
+            });
+            console.log(`[DB] Applied migration ${migration.version} (${migration.name})`);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new MigrationError(
+                `Migration ${migration.version} (${migration.name}) failed: ${reason}`,
+                migration.version
+            );
+        }
+    }
+}
+
+/**
+ * Check that every column declared in the Drizzle schema exists in the database
+ */
+export function verifySchema(db: SQLiteDatabase, tables: SQLiteTable[] = [habits, logs, pauses, focusSessions]): void {
+    for (const table of tables) {
+        const { name, columns } = getTableConfig(table);
+        const existing = new Set(
+            db.getAllSync<{ name: string }>(`PRAGMA table_info(${name});`).map(c => c.name)
+        );
+        const missing = columns.map(c => c.name).filter(c => !existing.has(c));
+
+        if (missing.length > 0) {
+            throw new MigrationError(
+                `Table "${name}" is missing column(s) ${missing.join(', ')}. Add a migration in src/db/migrations.ts.`
+            );
+        }
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Vacation Mode
+ *
+ * A pause puts every habit on hold from its start day through its end day.
+ * Paused days are neutral for all habits, like skipped days: streaks are
+ * frozen rather than broken, consistency scores leave them out, and no
+ * reminders fire on paused days (see getReminderDays). Past pauses are kept
+ * so the history stays frozen too.
+ */
+
+import type { Pause } from './schema';
+
+// Longest pause that can be set up in one go
+export const MAX_PAUSE_DAYS = 90;
+
+type PauseRange = Pick<Pause, 'startDateKey' | 'endDateKey'>;
+
+/**
+ * Whether a "YYYY-MM-DD" date key falls inside any of the pauses
+ */
+export function isPausedDay(pauses: PauseRange[], dateKey: string): boolean {
+    return pauses.some(p => p.startDateKey <= dateKey && dateKey <= p.endDateKey);
+}
+
+/**
+ * The pause running on a date, if any
+ */
+export function getActivePause<T extends PauseRange>(pauses: T[], dateKey: string): T | undefined {
+    return pauses.find(p => p.startDateKey <= dateKey && dateKey <= p.endDateKey);
+}
+
+/**
+ * The pause running on a date or the next one to start after it
+ */
+export function getCurrentOrUpcomingPause<T extends PauseRange>(pauses: T[], dateKey: string): T | undefined {
+    return [...pauses]
+        .filter(p => p.endDateKey >= dateKey)
+        .sort((a, b) => a.startDateKey.localeCompare(b.startDateKey))[0];
+}
+
+/**
+ * Whether two pauses share at least one day
+ */
+export function pausesOverlap(a: PauseRange, b: PauseRange): boolean {
+    return a.startDateKey <= b.endDateKey && b.startDateKey <= a.endDateKey;
+}
+
+/**
+ * Number of days a pause covers, both ends included
+ */
+export function getPauseLength(pause: PauseRange): number {
+    const [startYear, startMonth, startDay] = pause.startDateKey.split('-').map(Number);
+    const [endYear, endMonth, endDay] = pause.endDateKey.split('-').map(Number);
+    // UTC so a daylight-saving change inside the range doesn't shift the count
+    const days = (Date.UTC(endYear, endMonth - 1, endDay) - Date.UTC(startYear, startMonth - 1, startDay)) / 86_400_000;
+    return Math.round(days) + 1;
+}
+
+// Days after a pause that still get dated reminders; a launch in that time puts the daily one back
+export const REMINDER_DAYS_AFTER_PAUSE = 7;
+
+// "YYYY-MM-DD" `days` days later (UTC, so daylight saving can't skip or repeat a day)
+const addDaysToKey = (dateKey: string, days: number): string => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * Days a habit reminder should go out on from `fromDateKey` while a pause is running or coming up.
+ * A repeating trigger can't skip days, so these get one notification each: every day that isn't
+ * paused, through REMINDER_DAYS_AFTER_PAUSE days after the last pause ends.
+ * Null with no pause ahead, when a plain daily reminder will do.
+ */
+export function getReminderDays(pauses: PauseRange[], fromDateKey: string): string[] | null {
+    const ahead = pauses.filter(p => p.endDateKey >= fromDateKey);
+    if (ahead.length === 0) return null;
+
+    const lastEnd = ahead.reduce((latest, p) => (p.endDateKey > latest ? p.endDateKey : latest), fromDateKey);
+    const untilKey = addDaysToKey(lastEnd, REMINDER_DAYS_AFTER_PAUSE);
+    const days: string[] = [];
+    for (let dateKey = fromDateKey; dateKey <= untilKey; dateKey = addDaysToKey(dateKey, 1)) {
+        if (!isPausedDay(ahead, dateKey)) days.push(dateKey);
+    }
+    return days;
+}
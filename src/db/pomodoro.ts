@@ -0,0 +1,128 @@
+/**
+ * Pomodoro Cycles
+ *
+ * A Pomodoro session is one set of work rounds with a short break after each,
+ * except the last, which is followed by the long break:
+ *   work, short break, work, short break, ..., work, long break
+ * The set runs on a single focus timer (see focus.ts), so the current phase is
+ * worked out from the time focused so far and advances on its own.
+ */
+
+export interface PomodoroSettings {
+    workMinutes: number;
+    shortBreakMinutes: number;
+    longBreakMinutes: number;
+    // Work rounds before the long break
+    rounds: number;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    rounds: 4,
+};
+
+// Allowed range and step for each setting
+export const POMODORO_LIMITS: Record<keyof PomodoroSettings, { min: number; max: number; step: number }> = {
+    workMinutes: { min: 5, max: 90, step: 5 },
+    shortBreakMinutes: { min: 1, max: 30, step: 1 },
+    longBreakMinutes: { min: 5, max: 60, step: 5 },
+    rounds: { min: 2, max: 8, step: 1 },
+};
+
+export type PomodoroPhaseType = 'work' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroPhase {
+    type: PomodoroPhaseType;
+    // Work round the phase belongs to (1-based); a break shares its round's number
+    round: number;
+    seconds: number;
+}
+
+/**
+ * Where a set stands after some time focused
+ */
+export interface PomodoroPosition {
+    // Index into getPomodoroPhases()
+    index: number;
+    phase: PomodoroPhase;
+    phaseElapsedSeconds: number;
+    phaseRemainingSeconds: number;
+    // Work rounds run to the end
+    completedRounds: number;
+    // Time spent in work phases (breaks left out)
+    workSeconds: number;
+}
+
+/**
+ * Keep every setting within its limits (whole numbers)
+ */
+export function clampPomodoroSettings(settings: PomodoroSettings): PomodoroSettings {
+    const clamp = (key: keyof PomodoroSettings) => {
+        const { min, max } = POMODORO_LIMITS[key];
+        const value = Math.round(settings[key]);
+        return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : DEFAULT_POMODORO_SETTINGS[key];
+    };
+    return {
+        workMinutes: clamp('workMinutes'),
+        shortBreakMinutes: clamp('shortBreakMinutes'),
+        longBreakMinutes: clamp('longBreakMinutes'),
+        rounds: clamp('rounds'),
+    };
+}
+
+/**
+ * Every phase of a set, in order
+ */
+export function getPomodoroPhases(settings: PomodoroSettings): PomodoroPhase[] {
+    const phases: PomodoroPhase[] = [];
+    for (let round = 1; round <= settings.rounds; round++) {
+        phases.push({ type: 'work', round, seconds: settings.workMinutes * 60 });
+        phases.push(round < settings.rounds
+            ? { type: 'shortBreak', round, seconds: settings.shortBreakMinutes * 60 }
+            : { type: 'longBreak', round, seconds: settings.longBreakMinutes * 60 });
+    }
+    return phases;
+}
+
+/**
+ * Length of a whole set, breaks included
+ */
+export function getPomodoroSeconds(settings: PomodoroSettings): number {
+    return getPomodoroPhases(settings).reduce((total, phase) => total + phase.seconds, 0);
+}
+
+/**
+ * Find the phase running after some seconds focused. Past the end of the set,
+ * the long break is reported as finished.
+ */
+export function getPomodoroPosition(settings: PomodoroSettings, elapsedSeconds: number): PomodoroPosition {
+    const phases = getPomodoroPhases(settings);
+    let phaseStart = 0;
+    let workSeconds = 0;
+
+    for (let index = 0; index < phases.length; index++) {
+        const phase = phases[index];
+        const phaseElapsedSeconds = Math.min(phase.seconds, Math.max(0, elapsedSeconds - phaseStart));
+        const isLast = index === phases.length - 1;
+
+        if (phaseElapsedSeconds < phase.seconds || isLast) {
+            const workDone = phase.type === 'work' ? phaseElapsedSeconds : 0;
+            return {
+                index,
+                phase,
+                phaseElapsedSeconds,
+                phaseRemainingSeconds: phase.seconds - phaseElapsedSeconds,
+                completedRounds: phase.type === 'work' && phaseElapsedSeconds < phase.seconds ? phase.round - 1 : phase.round,
+                workSeconds: workSeconds + workDone,
+            };
+        }
+
+        if (phase.type === 'work') workSeconds += phase.seconds;
+        phaseStart += phase.seconds;
+    }
+
+    // Unreachable: the last phase always returns
+    throw new Error('A Pomodoro set has no phases');
+}
@@ -0,0 +1,80 @@
+/**
+ * Habit Repository
+ *
+ * The storage interface behind the habit and focus session stores. The stores only
+ * talk to a repository, so the same actions run on SQLite (native) and in memory (web, tests):
+ * - sqliteRepository.ts: Drizzle over expo-sqlite
+ * - memoryRepository.ts: plain arrays
+ *
+ * Repositories store and fetch rows; the rules (what a toggle does, freezes,
+ * pause limits...) stay in the store.
+ */
+
+import type { Habit, Log, Pause, FocusSession } from './schema';
+import type { LogStatus } from './freeze';
+
+/**
+ * Which logs to fetch or delete. Every field narrows the match; an empty query matches every log.
+ */
+export interface LogQuery {
+    habitId?: string;
+    dateKey?: string;
+    // Inclusive "YYYY-MM-DD" range
+    fromDateKey?: string;
+    toDateKey?: string;
+    status?: LogStatus;
+}
+
+/**
+ * Rows added together by a backup import
+ */
+export interface RepositoryRows {
+    habits: Habit[];
+    logs: Log[];
+    pauses: Pause[];
+    focusSessions: FocusSession[];
+}
+
+export interface HabitRepository {
+    // Habits, archived or not unless `archived` is given
+    getHabits: (filter?: { archived?: boolean }) => Promise<Habit[]>;
+    getHabit: (id: string) => Promise<Habit | undefined>;
+    insertHabit: (habit: Habit) => Promise<void>;
+    updateHabit: (id: string, changes: Partial<Habit>) => Promise<void>;
+    // Also deletes the habit's logs and unlinks its focus sessions
+    deleteHabit: (id: string) => Promise<void>;
+
+    // Logs, in the order they were added
+    getLogs: (query?: LogQuery) => Promise<Log[]>;
+    insertLog: (log: Log) => Promise<void>;
+    updateLog: (id: string, changes: Partial<Log>) => Promise<void>;
+    deleteLog: (id: string) => Promise<void>;
+    deleteLogs: (query: LogQuery) => Promise<void>;
+
+    // Vacation pauses
+    getPauses: () => Promise<Pause[]>;
+    insertPause: (pause: Pause) => Promise<void>;
+    updatePause: (id: string, changes: Partial<Pause>) => Promise<void>;
+    deletePause: (id: string) => Promise<void>;
+
+    // Focus timer runs, in the order they were recorded
+    getFocusSessions: () => Promise<FocusSession[]>;
+    insertFocusSession: (session: FocusSession) => Promise<void>;
+
+    // All-or-nothing: either every row is added or none is
+    insertAll: (rows: RepositoryRows) => Promise<void>;
+    // Delete every habit, log, pause and focus session
+    clearAll: () => Promise<void>;
+}
+
+/**
+ * Whether a log matches a query (shared by implementations that filter in JS)
+ */
+export function matchesLogQuery(log: Pick<Log, 'habitId' | 'dateKey' | 'status'>, query: LogQuery = {}): boolean {
+    if (query.habitId !== undefined && log.habitId !== query.habitId) return false;
+    if (query.dateKey !== undefined && log.dateKey !== query.dateKey) return false;
+    if (query.fromDateKey !== undefined && log.dateKey < query.fromDateKey) return false;
+    if (query.toDateKey !== undefined && log.dateKey > query.toDateKey) return false;
+    if (query.status !== undefined && log.status !== query.status) return false;
+    return true;
+}
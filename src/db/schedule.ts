@@ -0,0 +1,188 @@
+/**
+ * Habit Schedules
+ *
+ * Which days a habit is expected on. Stored on the habits table as
+ * schedule_type plus the column that type needs; everything older is daily.
+ *
+ * - daily:    every day
+ * - weekdays: specific days of the week (0 = Sunday ... 6 = Saturday)
+ * - weekly:   any X days per (Sunday-first) week
+ * - interval: every N days, counted from the day the habit was created
+ */
+
+import type { Habit } from './schema';
+
+export type HabitSchedule =
+    | { type: 'daily' }
+    | { type: 'weekdays'; days: number[] }
+    | { type: 'weekly'; timesPerWeek: number }
+    | { type: 'interval'; everyDays: number };
+
+export type ScheduleType = HabitSchedule['type'];
+
+export const DAILY_SCHEDULE: HabitSchedule = { type: 'daily' };
+
+type ScheduleColumns = Pick<Habit, 'scheduleType' | 'scheduleDays' | 'scheduleTimesPerWeek' | 'scheduleIntervalDays'>;
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Whole days from `from` to `to` (rounded, so DST shifts don't matter)
+ */
+const daysBetween = (from: Date, to: Date) =>
+    Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+/**
+ * Read a habit's schedule from its columns. Anything malformed falls back to daily.
+ */
+export function getHabitSchedule(habit: Partial<ScheduleColumns>): HabitSchedule {
+    switch (habit.scheduleType) {
+        case 'weekdays': {
+            const days = (habit.scheduleDays ?? '')
+                .split(',')
+                .map(Number)
+                .filter(d => Number.isInteger(d) && d >= 0 && d <= 6);
+            return days.length > 0 ? { type: 'weekdays', days } : DAILY_SCHEDULE;
+        }
+        case 'weekly':
+            return habit.scheduleTimesPerWeek && habit.scheduleTimesPerWeek > 0
+                ? { type: 'weekly', timesPerWeek: Math.min(habit.scheduleTimesPerWeek, 7) }
+                : DAILY_SCHEDULE;
+        case 'interval':
+            return habit.scheduleIntervalDays && habit.scheduleIntervalDays > 1
+                ? { type: 'interval', everyDays: habit.scheduleIntervalDays }
+                : DAILY_SCHEDULE;
+        default:
+            return DAILY_SCHEDULE;
+    }
+}
+
+/**
+ * Turn a schedule into the column values stored on the habit
+ */
+export function scheduleToColumns(schedule: HabitSchedule): ScheduleColumns {
+    return {
+        scheduleType: schedule.type,
+        scheduleDays: schedule.type === 'weekdays' ? [...schedule.days].sort().join(',') : null,
+        scheduleTimesPerWeek: schedule.type === 'weekly' ? schedule.timesPerWeek : null,
+        scheduleIntervalDays: schedule.type === 'interval' ? schedule.everyDays : null,
+    };
+}
+
+/**
+ * Short label, e.g. "Daily", "Mon · Wed · Fri", "3× a week", "Every 2 days"
+ */
+export function describeSchedule(schedule: HabitSchedule): string {
+    switch (schedule.type) {
+        case 'weekdays':
+            return [...schedule.days].sort().map(d => DAY_NAMES[d]).join(' · ');
+        case 'weekly':
+            return `${schedule.timesPerWeek}× a week`;
+        case 'interval':
+            return `Every ${schedule.everyDays} days`;
+        default:
+            return 'Daily';
+    }
+}
+
+/**
+ * Whether the habit is expected on a given day.
+ * Weekly habits have no fixed days, so no single day is required.
+ * @param startDate The habit's creation day (anchors interval schedules)
+ */
+export function isScheduledDay(schedule: HabitSchedule, date: Date, startDate: Date | null): boolean {
+    switch (schedule.type) {
+        case 'weekdays':
+            return schedule.days.includes(date.getDay());
+        case 'weekly':
+            return false;
+        case 'interval': {
+            const offset = startDate ? daysBetween(startDate, date) : 0;
+            return offset >= 0 && offset % schedule.everyDays === 0;
+        }
+        default:
+            return true;
+    }
+}
+
+/**
+ * Start (Sunday) of the week containing `date`
+ */
+export function startOfWeek(date: Date): Date {
+    const day = startOfDay(date);
+    day.setDate(day.getDate() - day.getDay());
+    return day;
+}
+
+type WeekCount = { completed: number; skipped: number };
+
+/**
+ * Completed and skipped days per week for a weekly habit, oldest week first,
+ * from the week containing `startDate` through the week containing `today`.
+ */
+function getWeeklyCounts(
+    isCompleted: (date: Date) => boolean,
+    isSkipped: (date: Date) => boolean,
+    startDate: Date,
+    today: Date,
+): WeekCount[] {
+    const counts: WeekCount[] = [];
+    const lastDay = startOfDay(today);
+    const cursor = startOfDay(startDate);
+
+    let weekStart = startOfWeek(cursor).getTime();
+    let count: WeekCount = { completed: 0, skipped: 0 };
+
+    while (cursor <= lastDay) {
+        const cursorWeek = startOfWeek(cursor).getTime();
+        if (cursorWeek !== weekStart) {
+            counts.push(count);
+            weekStart = cursorWeek;
+            count = { completed: 0, skipped: 0 };
+        }
+        if (isCompleted(cursor)) count.completed++;
+        else if (isSkipped(cursor)) count.skipped++;
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    counts.push(count);
+
+    return counts;
+}
+
+/**
+ * Current and longest streak for an "X times per week" habit.
+ *
+ * A streak is the number of completions across consecutive weeks that met the
+ * target. The current week is still in progress and the creation week is
+ * usually partial, so falling short in either doesn't break a streak.
+ * Each skipped day lowers that week's target by one.
+ */
+export function getWeeklyStreaks(
+    timesPerWeek: number,
+    isCompleted: (date: Date) => boolean,
+    startDate: Date,
+    today: Date,
+    isSkipped: (date: Date) => boolean = () => false,
+): { current: number; longest: number } {
+    const counts = getWeeklyCounts(isCompleted, isSkipped, startDate, today);
+    const lastIndex = counts.length - 1;
+    const isMissed = (i: number) =>
+        counts[i].completed < timesPerWeek - counts[i].skipped && i !== 0 && i !== lastIndex;
+
+    let current = 0;
+    for (let i = lastIndex; i >= 0 && !isMissed(i); i--) {
+        current += counts[i].completed;
+    }
+
+    let longest = 0;
+    let run = 0;
+    counts.forEach((count, i) => {
+        run = isMissed(i) ? 0 : run + count.completed;
+        longest = Math.max(longest, run);
+    });
+
+    return { current, longest };
+}
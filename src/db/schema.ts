@@ -2,10 +2,13 @@
  * Void Tracker Database Schema
  * 
  * Local-first habit tracking with Drizzle ORM and expo-sqlite.
- * Two core tables: habits (what to track) and logs (when completed).
+ * Two core tables: habits (what to track) and logs (when completed),
+ * plus pauses (vacation mode date ranges) and focus sessions (timer runs).
+ * 
+ * Any change here needs a matching migration in migrations.ts.
  */
 
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
 
 /**
  * Habits Table
@@ -26,15 +29,48 @@ export const habits = sqliteTable('habits', {
     // Reminder time (HH:MM format, nullable)
     reminderTime: text('reminder_time'),
 
+    // Identifier of the scheduled reminder notification (null if none is scheduled)
+    notificationId: text('notification_id'),
+
     // Accent color for the habit (hex code)
     color: text('color').notNull().default('#ffb347'),
 
     // Habit type: 'positive' (build) or 'negative' (break)
     type: text('type').notNull().default('positive'),
 
+    // Schedule: 'daily', 'weekdays', 'weekly' (X times per week) or 'interval' (every N days)
+    // See schedule.ts; only the column matching the type is set
+    scheduleType: text('schedule_type').notNull().default('daily'),
+
+    // Comma-separated days of the week for 'weekdays' (0 = Sunday), e.g. "1,3,5"
+    scheduleDays: text('schedule_days'),
+
+    // Target completions per week for 'weekly'
+    scheduleTimesPerWeek: integer('schedule_times_per_week'),
+
+    // Gap in days for 'interval', counted from the creation day
+    scheduleIntervalDays: integer('schedule_interval_days'),
+
+    // Daily target for measurable habits (e.g. 8), null for done / not-done habits
+    // See measure.ts
+    targetValue: real('target_value'),
+
+    // Unit for the target (e.g. "glasses", "min")
+    unit: text('unit'),
+
+    // Counter habits are logged several times a day (one log row per completion,
+    // e.g. pushup sets or cigarettes); others have at most one log per day
+    counter: integer('counter', { mode: 'boolean' }).notNull().default(false),
+
+    // How many days a month may be skipped without breaking a streak (see freeze.ts)
+    freezesPerMonth: integer('freezes_per_month').notNull().default(2),
+
     // Whether the habit is archived (hidden from active view)
     archived: integer('archived', { mode: 'boolean' }).notNull().default(false),
 
+    // When the habit was archived (null if active, or archived before this was tracked)
+    archivedAt: integer('archived_at', { mode: 'timestamp' }),
+
     // Creation timestamp
     createdAt: integer('created_at', { mode: 'timestamp' })
         .notNull()
@@ -45,6 +81,7 @@ export const habits = sqliteTable('habits', {
  * Logs Table
  * 
  * Records each completion of a habit.
+ * Counter habits can have several rows for the same day.
  * The date_key format "YYYY-MM-DD" enables efficient date-based queries.
  */
 export const logs = sqliteTable('logs', {
@@ -60,20 +97,102 @@ export const logs = sqliteTable('logs', {
     // This is the PRIMARY query dimension - "what did I complete today?"
     dateKey: text('date_key').notNull(),
 
+    // Amount logged so far that day for measurable habits (null otherwise)
+    value: real('value'),
+
+    // 'done' for a completion, 'skipped' for an excused day (see freeze.ts)
+    status: text('status').notNull().default('done'),
+
+    // Optional journal entry: free-text note and 1-5 mood / effort rating
+    // See journal.ts
+    note: text('note'),
+    mood: integer('mood'),
+
     // Exact timestamp when the habit was marked complete
     completedAt: integer('completed_at', { mode: 'timestamp' })
         .notNull()
         .$defaultFn(() => new Date()),
 });
 
+/**
+ * Pauses Table
+ * 
+ * Vacation mode: date ranges during which every habit is on hold.
+ * Both ends are inclusive "YYYY-MM-DD" keys (see pause.ts).
+ */
+export const pauses = sqliteTable('pauses', {
+    // Unique identifier (UUID)
+    id: text('id').primaryKey(),
+
+    // First and last paused day
+    startDateKey: text('start_date_key').notNull(),
+    endDateKey: text('end_date_key').notNull(),
+
+    // When the pause was set up
+    createdAt: integer('created_at', { mode: 'timestamp' })
+        .notNull()
+        .$defaultFn(() => new Date()),
+});
+
+/**
+ * Focus Sessions Table
+ * 
+ * One row per focus timer run, finished or stopped early.
+ * Durations are whole seconds; see focus.ts.
+ * A Pomodoro set is one session, breaks included.
+ */
+export const focusSessions = sqliteTable('focus_sessions', {
+    // Unique identifier (UUID)
+    id: text('id').primaryKey(),
+
+    // Habit the session was for (null if none, or the habit was deleted)
+    habitId: text('habit_id')
+        .references(() => habits.id, { onDelete: 'set null' }),
+
+    // When the timer was started and when it finished or was stopped
+    startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+    endedAt: integer('ended_at', { mode: 'timestamp' }).notNull(),
+
+    // Length the timer was set to
+    plannedSeconds: integer('planned_seconds').notNull(),
+
+    // Time the timer actually ran (pauses excluded, Pomodoro breaks included)
+    actualSeconds: integer('actual_seconds').notNull(),
+
+    // Time spent paused
+    pausedSeconds: integer('paused_seconds').notNull().default(0),
+
+    // 'completed' if the timer ran out, 'aborted' if it was stopped early
+    status: text('status').notNull(),
+
+    // Work rounds finished in a Pomodoro session (null for a single countdown)
+    // See pomodoro.ts
+    completedRounds: integer('completed_rounds'),
+});
+
 // Type exports for use in components and stores
 export type Habit = typeof habits.$inferSelect;
 export type NewHabit = typeof habits.$inferInsert;
 export type Log = typeof logs.$inferSelect;
 export type NewLog = typeof logs.$inferInsert;
+export type Pause = typeof pauses.$inferSelect;
+export type FocusSession = typeof focusSessions.$inferSelect;
+
+// Fields that can be changed when editing a habit
+export type HabitUpdate = Partial<Pick<Habit,
+    | 'title' | 'iconKey' | 'color' | 'type' | 'reminderTime'
+    | 'scheduleType' | 'scheduleDays' | 'scheduleTimesPerWeek' | 'scheduleIntervalDays'
+    | 'targetValue' | 'unit' | 'counter' | 'freezesPerMonth'
+>>;
 
 // Habit with today's completion status (joined result)
 export type HabitWithStatus = Habit & {
     isCompletedToday: boolean;
     todayLogId: string | null;
+    // Amount logged today (measurable habits; 0 if nothing yet)
+    todayValue: number;
+    // Completions logged today (more than 1 only for counter habits)
+    todayCount: number;
+    // Whether today was skipped (excused)
+    isSkippedToday: boolean;
 };
@@ -0,0 +1,120 @@
+/**
+ * SQLite Habit Repository
+ *
+ * Stores habits, logs, pauses and focus sessions in void-tracker.db through Drizzle.
+ * Native only: the connection comes from `getDb()`, which throws on web.
+ */
+
+import { and, eq, gte, lte, type SQL } from 'drizzle-orm';
+import { habits, logs, pauses, focusSessions, type Habit, type Log, type Pause, type FocusSession } from './schema';
+import type { HabitRepository, LogQuery, RepositoryRows } from './repository';
+
+type DrizzleDB = ReturnType<typeof import('drizzle-orm/expo-sqlite').drizzle>;
+
+const toConditions = (query: LogQuery = {}): SQL | undefined => {
+    const conditions: SQL[] = [];
+    if (query.habitId !== undefined) conditions.push(eq(logs.habitId, query.habitId));
+    if (query.dateKey !== undefined) conditions.push(eq(logs.dateKey, query.dateKey));
+    if (query.fromDateKey !== undefined) conditions.push(gte(logs.dateKey, query.fromDateKey));
+    if (query.toDateKey !== undefined) conditions.push(lte(logs.dateKey, query.toDateKey));
+    if (query.status !== undefined) conditions.push(eq(logs.status, query.status));
+    return and(...conditions);
+};
+
+/**
+ * @param getDb Opens the database on first use, so creating the repository is free
+ */
+export function createSQLiteRepository(getDb: () => DrizzleDB): HabitRepository {
+    return {
+        getHabits: async (filter = {}) =>
+            filter.archived === undefined
+                ? getDb().select().from(habits)
+                : getDb().select().from(habits).where(eq(habits.archived, filter.archived)),
+
+        getHabit: async (id: string) => {
+            const [habit] = await getDb().select().from(habits).where(eq(habits.id, id));
+            return habit;
+        },
+
+        insertHabit: async (habit: Habit) => {
+            await getDb().insert(habits).values(habit);
+        },
+
+        updateHabit: async (id: string, changes: Partial<Habit>) => {
+            await getDb().update(habits).set(changes).where(eq(habits.id, id));
+        },
+
+        deleteHabit: async (id: string) => {
+            const db = getDb();
+            // Explicitly delete logs and unlink sessions first (safeguard against FKs being off)
+            await db.delete(logs).where(eq(logs.habitId, id));
+            await db.update(focusSessions).set({ habitId: null }).where(eq(focusSessions.habitId, id));
+            await db.delete(habits).where(eq(habits.id, id));
+        },
+
+        getLogs: async (query?: LogQuery) =>
+            getDb().select().from(logs).where(toConditions(query)),
+
+        insertLog: async (log: Log) => {
+            await getDb().insert(logs).values(log);
+        },
+
+        updateLog: async (id: string, changes: Partial<Log>) => {
+            await getDb().update(logs).set(changes).where(eq(logs.id, id));
+        },
+
+        deleteLog: async (id: string) => {
+            await getDb().delete(logs).where(eq(logs.id, id));
+        },
+
+        deleteLogs: async (query: LogQuery) => {
+            await getDb().delete(logs).where(toConditions(query));
+        },
+
+        getPauses: async () => getDb().select().from(pauses),
+
+        insertPause: async (pause: Pause) => {
+            await getDb().insert(pauses).values(pause);
+        },
+
+        updatePause: async (id: string, changes: Partial<Pause>) => {
+            await getDb().update(pauses).set(changes).where(eq(pauses.id, id));
+        },
+
+        deletePause: async (id: string) => {
+            await getDb().delete(pauses).where(eq(pauses.id, id));
+        },
+
+        getFocusSessions: async () => getDb().select().from(focusSessions),
+
+        insertFocusSession: async (session: FocusSession) => {
+            await getDb().insert(focusSessions).values(session);
+        },
+
+        insertAll: async (rows: RepositoryRows) => {
+            getDb().transaction((tx) => {
+                for (const habit of rows.habits) {
+                    tx.insert(habits).values(habit).run();
+                }
+                for (const log of rows.logs) {
+                    tx.insert(logs).values(log).run();
+                }
+                for (const pause of rows.pauses) {
+                    tx.insert(pauses).values(pause).run();
+                }
+                for (const session of rows.focusSessions) {
+                    tx.insert(focusSessions).values(session).run();
+                }
+            });
+        },
+
+        clearAll: async () => {
+            getDb().transaction((tx) => {
+                tx.delete(focusSessions).run();
+                tx.delete(logs).run();
+                tx.delete(habits).run();
+                tx.delete(pauses).run();
+            });
+        },
+    };
+}
@@ -0,0 +1,279 @@
+/**
+ * Habit Stats
+ *
+ * The one place streaks, consistency and completion rates are worked out,
+ * so the dashboard, detail and archive screens always agree.
+ * Everything here is pure: pass in a habit, its logs, the pauses and "today".
+ *
+ * Each day of a habit is one of:
+ * - done:    completed (for a Break habit: no slip)
+ * - missed:  due but not completed (for a Break habit: slipped)
+ * - excused: skipped with a freeze, or paused by vacation mode
+ * - off:     not on the schedule, or before the habit was created
+ * Excused and off days neither extend nor break a streak and aren't due.
+ * A Build habit done on an off day still counts toward its streak.
+ * Today isn't missed for a Build habit until it's over.
+ *
+ * All days are local calendar days, keyed like `getDateKey` ("YYYY-MM-DD").
+ */
+
+import type { Habit, Log, Pause } from './schema';
+import { getHabitSchedule, isScheduledDay, getWeeklyStreaks, type HabitSchedule } from './schedule';
+import { isLogComplete } from './measure';
+import { isSkippedLog } from './freeze';
+import { isPausedDay } from './pause';
+
+export type DayOutcome = 'done' | 'missed' | 'excused' | 'off';
+
+type StatsHabit = Pick<Habit,
+    | 'type' | 'createdAt'
+    | 'scheduleType' | 'scheduleDays' | 'scheduleTimesPerWeek' | 'scheduleIntervalDays'
+    | 'targetValue' | 'unit'
+>;
+
+/**
+ * Everything the stats need to know about one habit, indexed by day
+ */
+export interface HabitHistory {
+    isNegative: boolean;
+    schedule: HabitSchedule;
+    // Creation day (local midnight), or null if unknown
+    createdDay: Date | null;
+    // Completions per date key (more than 1 only for counter habits)
+    completions: Map<string, number>;
+    skippedDays: Set<string>;
+    pauses: Array<Pick<Pause, 'startDateKey' | 'endDateKey'>>;
+}
+
+// Without a creation day, streaks look back this far
+const LOOKBACK_DAYS = 365;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Calendar arithmetic rather than adding milliseconds, so DST changes can't skip or repeat a day
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Same local key as getDateKey (not imported: db/index pulls in react-native)
+const toDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Index a habit's logs by day. Only logs that meet the habit's target count as completions.
+ */
+export function buildHabitHistory(
+    habit: StatsHabit,
+    logs: Array<Pick<Log, 'dateKey' | 'value' | 'status'>>,
+    pauses: HabitHistory['pauses'] = [],
+): HabitHistory {
+    const completions = new Map<string, number>();
+    const skippedDays = new Set<string>();
+
+    for (const log of logs) {
+        if (isSkippedLog(log)) {
+            skippedDays.add(log.dateKey);
+        } else if (isLogComplete(habit, log)) {
+            completions.set(log.dateKey, (completions.get(log.dateKey) ?? 0) + 1);
+        }
+    }
+
+    return {
+        isNegative: habit.type === 'negative',
+        schedule: getHabitSchedule(habit),
+        createdDay: habit.createdAt ? startOfDay(new Date(habit.createdAt)) : null,
+        completions,
+        skippedDays,
+        pauses,
+    };
+}
+
+const isExcused = (history: HabitHistory, date: Date) => {
+    const dateKey = toDateKey(date);
+    return history.skippedDays.has(dateKey) || isPausedDay(history.pauses, dateKey);
+};
+
+const isBeforeCreation = (history: HabitHistory, date: Date) =>
+    !!history.createdDay && startOfDay(date) < history.createdDay;
+
+/**
+ * Whether a day was due: on the schedule, after creation and not excused.
+ * Weekly habits have no due days of their own.
+ */
+const isDue = (history: HabitHistory, date: Date) =>
+    !isBeforeCreation(history, date)
+    && isScheduledDay(history.schedule, date, history.createdDay)
+    && !isExcused(history, date);
+
+/**
+ * What happened to a habit on a day
+ */
+export function getDayOutcome(history: HabitHistory, date: Date): DayOutcome {
+    if (isBeforeCreation(history, date)) return 'off';
+
+    const isCompleted = history.completions.has(toDateKey(date));
+    if (history.isNegative) {
+        if (!isDue(history, date)) return isExcused(history, date) ? 'excused' : 'off';
+        return isCompleted ? 'missed' : 'done';
+    }
+
+    if (isCompleted) return 'done';
+    if (isExcused(history, date)) return 'excused';
+    return isScheduledDay(history.schedule, date, history.createdDay) ? 'missed' : 'off';
+}
+
+// First day streaks are counted from
+const getFirstDay = (history: HabitHistory, today: Date) =>
+    history.createdDay ?? addDays(today, -LOOKBACK_DAYS);
+
+const weeklyStreaks = (history: HabitHistory, timesPerWeek: number, today: Date) =>
+    getWeeklyStreaks(
+        timesPerWeek,
+        date => history.completions.has(toDateKey(date)),
+        getFirstDay(history, today),
+        today,
+        date => isExcused(history, date),
+    );
+
+// A Build habit's today only counts once it's done
+const isPendingToday = (history: HabitHistory, date: Date, today: Date) =>
+    !history.isNegative && date.getTime() === today.getTime();
+
+/**
+ * Current streak, walking back from today.
+ * For "X per week" habits it's the completions across consecutive weeks that met the target.
+ */
+export function getCurrentStreak(history: HabitHistory, now: Date = new Date()): number {
+    const today = startOfDay(now);
+    if (history.schedule.type === 'weekly') {
+        return weeklyStreaks(history, history.schedule.timesPerWeek, today).current;
+    }
+
+    const firstDay = getFirstDay(history, today);
+    let streak = 0;
+    for (let date = today; date >= firstDay; date = addDays(date, -1)) {
+        const outcome = getDayOutcome(history, date);
+        if (outcome === 'done') {
+            streak++;
+        } else if (outcome === 'missed' && !isPendingToday(history, date, today)) {
+            break;
+        }
+    }
+    return streak;
+}
+
+/**
+ * Longest streak ever, from creation through today
+ */
+export function getLongestStreak(history: HabitHistory, now: Date = new Date()): number {
+    const today = startOfDay(now);
+    if (history.schedule.type === 'weekly') {
+        return weeklyStreaks(history, history.schedule.timesPerWeek, today).longest;
+    }
+
+    let longest = 0;
+    let run = 0;
+    for (let date = getFirstDay(history, today); date <= today; date = addDays(date, 1)) {
+        const outcome = getDayOutcome(history, date);
+        if (outcome === 'done') {
+            run++;
+            longest = Math.max(longest, run);
+        } else if (outcome === 'missed' && !isPendingToday(history, date, today)) {
+            run = 0;
+        }
+    }
+    return longest;
+}
+
+/**
+ * Share of the due days from `from` through `to` (both included) that were done, 0-1.
+ * Days before the habit existed are left out. Returns null if nothing was due.
+ *
+ * - Build habits: due days completed / due days
+ * - Break habits: every slip counts as a failed day (3 cigarettes weigh 3 days), floored at 0
+ * - X per week: completions against the weekly target for the days that weren't paused,
+ *   less skipped days, capped at 1
+ */
+export function getCompletionRate(history: HabitHistory, from: Date, to: Date): number | null {
+    const createdDay = history.createdDay;
+    const start = createdDay && createdDay > startOfDay(from) ? createdDay : startOfDay(from);
+    const end = startOfDay(to);
+    if (start > end) return null;
+
+    let dueDays = 0;
+    let score = 0;
+    let days = 0;
+    let pausedDays = 0;
+    let skippedDays = 0;
+    let completedDays = 0;
+
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+        const dateKey = toDateKey(date);
+        const count = history.completions.get(dateKey) ?? 0;
+
+        if (history.schedule.type === 'weekly') {
+            days++;
+            if (count > 0) completedDays++;
+            if (isPausedDay(history.pauses, dateKey)) pausedDays++;
+            else if (history.skippedDays.has(dateKey)) skippedDays++;
+            continue;
+        }
+
+        if (!isDue(history, date)) continue;
+        dueDays++;
+        score += history.isNegative ? 1 - count : Math.min(count, 1);
+    }
+
+    if (history.schedule.type === 'weekly') {
+        const expected = (history.schedule.timesPerWeek * (days - pausedDays)) / 7 - skippedDays;
+        return expected > 0 ? Math.min(1, completedDays / expected) : null;
+    }
+    return dueDays > 0 ? Math.max(0, score / dueDays) : null;
+}
+
+/**
+ * Consistency score (0-100) over the `days` days ending on `endDate`.
+ * A window with nothing due yet scores 100.
+ */
+export function getConsistency(history: HabitHistory, endDate: Date, days: number): number {
+    const rate = getCompletionRate(history, addDays(endDate, -(days - 1)), endDate);
+    return rate === null ? 100 : Math.round(rate * 100);
+}
+
+/**
+ * Completion rate (0-1) over a trailing window, for each of the `days` days ending on `endDate`.
+ * A day whose window had nothing due holds the previous value.
+ */
+export function getRollingRates(history: HabitHistory, endDate: Date, days: number, windowDays = 7): number[] {
+    const rates: number[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        const date = addDays(endDate, -i);
+        const rate = getCompletionRate(history, addDays(date, -(windowDays - 1)), date);
+        rates.push(rate ?? rates[rates.length - 1] ?? 0);
+    }
+    return rates;
+}
+
+/**
+ * Completion rate (0-1) per weekday (0 = Sunday ... 6 = Saturday) over the
+ * `days` days ending on `endDate`, or null for weekdays with nothing due.
+ * "X per week" habits have no due days, so every unexcused day counts and a completion is a hit.
+ */
+export function getWeekdayRates(history: HabitHistory, endDate: Date, days: number): Array<number | null> {
+    const dueDays = Array<number>(7).fill(0);
+    const scores = Array<number>(7).fill(0);
+    const isWeekly = history.schedule.type === 'weekly';
+
+    for (let i = 0; i < days; i++) {
+        const date = addDays(endDate, -i);
+        const isCounted = isWeekly
+            ? !isBeforeCreation(history, date) && !isExcused(history, date)
+            : isDue(history, date);
+        if (!isCounted) continue;
+
+        const count = history.completions.get(toDateKey(date)) ?? 0;
+        const weekday = date.getDay();
+        dueDays[weekday]++;
+        scores[weekday] += history.isNegative ? 1 - count : Math.min(count, 1);
+    }
+
+    return dueDays.map((due, weekday) => due > 0 ? Math.max(0, scores[weekday] / due) : null);
+}
@@ -0,0 +1,208 @@
+/**
+ * Web Storage
+ *
+ * Keeps the web build's habits, logs, pauses and focus sessions in localStorage, so they survive a reload.
+ * The saved document mirrors void-tracker.db: one row list per table, keyed by
+ * column name, stamped with the same schema version as the native migrations.
+ *
+ * Loading a document from an older version runs each newer migration's `upWeb`
+ * step, then reads every row through the Drizzle schema: columns added since are
+ * filled with their defaults, so new columns and tables work without a web step.
+ *
+ * Everything is loaded into memory once and written back after every change.
+ * A change is made on a copy and only replaces what's in memory once it has been
+ * saved, so a failed write (storage full) leaves memory matching storage.
+ */
+
+import { getTableColumns } from 'drizzle-orm';
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { habits, logs, pauses, focusSessions, type Habit, type Log, type Pause, type FocusSession } from './schema';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, MigrationError, type WebTables } from './migrations';
+import { createMemoryRepository } from './memoryRepository';
+import type { HabitRepository, RepositoryRows } from './repository';
+
+export const WEB_STORAGE_KEY = 'void-tracker.db';
+
+// The part of localStorage that's used (tests pass their own)
+export interface KeyValueStorage {
+    getItem: (key: string) => string | null;
+    setItem: (key: string, value: string) => void;
+}
+
+interface WebDocument {
+    schemaVersion: number;
+    tables: WebTables;
+}
+
+/**
+ * Turn a row into its stored form: column names as keys, dates as epoch milliseconds
+ */
+const toStoredRow = (table: SQLiteTable, row: object): Record<string, unknown> => {
+    const values = row as Record<string, unknown>;
+    const stored: Record<string, unknown> = {};
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+        const value = values[key];
+        stored[column.name] = value instanceof Date ? value.getTime() : value ?? null;
+    }
+    return stored;
+};
+
+/**
+ * Read a stored row back, filling columns it doesn't have yet with their schema default
+ */
+const fromStoredRow = <T>(table: SQLiteTable, stored: Record<string, unknown>): T => {
+    const row: Record<string, unknown> = {};
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+        let value = stored[column.name];
+        if (value === undefined) {
+            value = column.defaultFn ? column.defaultFn() : column.default ?? null;
+        }
+        if (column.columnType === 'SQLiteTimestamp' && value !== null && !(value instanceof Date)) {
+            value = new Date(value as number);
+        } else if (column.columnType === 'SQLiteBoolean') {
+            value = !!value;
+        }
+        row[key] = value;
+    }
+    return row as T;
+};
+
+const readDocument = (storage: KeyValueStorage): WebDocument => {
+    const text = storage.getItem(WEB_STORAGE_KEY);
+    if (!text) {
+        return { schemaVersion: LATEST_SCHEMA_VERSION, tables: {} };
+    }
+
+    try {
+        const document = JSON.parse(text);
+        if (typeof document?.schemaVersion !== 'number' || typeof document.tables !== 'object') {
+            throw new Error('unexpected format');
+        }
+        return document;
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new MigrationError(`Saved data in this browser can't be read: ${reason}`);
+    }
+};
+
+const writeRows = (storage: KeyValueStorage, rows: RepositoryRows) => {
+    const document: WebDocument = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tables: {
+            habits: rows.habits.map(h => toStoredRow(habits, h)),
+            logs: rows.logs.map(l => toStoredRow(logs, l)),
+            pauses: rows.pauses.map(p => toStoredRow(pauses, p)),
+            focus_sessions: rows.focusSessions.map(s => toStoredRow(focusSessions, s)),
+        },
+    };
+    storage.setItem(WEB_STORAGE_KEY, JSON.stringify(document));
+};
+
+/**
+ * Read every row from web storage, upgrading it to the current schema first.
+ * An upgraded document is saved straight back.
+ * Throws a MigrationError for unreadable data or data from a newer app version.
+ */
+export function loadWebDatabase(storage: KeyValueStorage): RepositoryRows {
+    const document = readDocument(storage);
+
+    if (document.schemaVersion > LATEST_SCHEMA_VERSION) {
+        throw new MigrationError(
+            `Saved data version ${document.schemaVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Please reload to update the app.`,
+            document.schemaVersion
+        );
+    }
+
+    const pending = MIGRATIONS
+        .filter(m => m.version > document.schemaVersion)
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        try {
+            migration.upWeb?.(document.tables);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new MigrationError(
+                `Migration ${migration.version} (${migration.name}) failed: ${reason}`,
+                migration.version
+            );
+        }
+    }
+
+    const rows: RepositoryRows = {
+        habits: (document.tables.habits ?? []).map(row => fromStoredRow<Habit>(habits, row)),
+        logs: (document.tables.logs ?? []).map(row => fromStoredRow<Log>(logs, row)),
+        pauses: (document.tables.pauses ?? []).map(row => fromStoredRow<Pause>(pauses, row)),
+        focusSessions: (document.tables.focus_sessions ?? []).map(row => fromStoredRow<FocusSession>(focusSessions, row)),
+    };
+
+    if (pending.length > 0) {
+        writeRows(storage, rows);
+        console.log(`[DB] Upgraded web storage from v${document.schemaVersion} to v${LATEST_SCHEMA_VERSION}`);
+    }
+    return rows;
+}
+
+const readRows = async (repository: HabitRepository): Promise<RepositoryRows> => ({
+    habits: await repository.getHabits(),
+    logs: await repository.getLogs(),
+    pauses: await repository.getPauses(),
+    focusSessions: await repository.getFocusSessions(),
+});
+
+/**
+ * A repository kept in memory and saved to web storage after every change.
+ * Its rows come from `load` on first use (by default, read from storage).
+ */
+export function createWebRepository(
+    storage: KeyValueStorage,
+    load: () => RepositoryRows = () => loadWebDatabase(storage),
+): HabitRepository {
+    let memory: HabitRepository | null = null;
+    const open = () => memory ??= createMemoryRepository(load());
+
+    // An unreadable document makes a read reject rather than throw
+    const read = <A extends unknown[], R>(query: (repository: HabitRepository) => (...args: A) => Promise<R>) =>
+        async (...args: A): Promise<R> => query(open())(...args);
+
+    // Changes run one at a time, so each copy starts from the one saved before it
+    let queue: Promise<unknown> = Promise.resolve();
+
+    // Run a change on a copy, save the copy, and only then keep it in memory
+    const write = <A extends unknown[]>(change: (repository: HabitRepository) => (...args: A) => Promise<void>) =>
+        (...args: A): Promise<void> => {
+            const run = queue.then(async () => {
+                const draft = createMemoryRepository(await readRows(open()));
+                await change(draft)(...args);
+                writeRows(storage, await readRows(draft));
+                memory = draft;
+            });
+            queue = run.catch(() => undefined);
+            return run;
+        };
+
+    return {
+        getHabits: read(r => r.getHabits),
+        getHabit: read(r => r.getHabit),
+        insertHabit: write(r => r.insertHabit),
+        updateHabit: write(r => r.updateHabit),
+        deleteHabit: write(r => r.deleteHabit),
+
+        getLogs: read(r => r.getLogs),
+        insertLog: write(r => r.insertLog),
+        updateLog: write(r => r.updateLog),
+        deleteLog: write(r => r.deleteLog),
+        deleteLogs: write(r => r.deleteLogs),
+
+        getPauses: read(r => r.getPauses),
+        insertPause: write(r => r.insertPause),
+        updatePause: write(r => r.updatePause),
+        deletePause: write(r => r.deletePause),
+
+        getFocusSessions: read(r => r.getFocusSessions),
+        insertFocusSession: write(r => r.insertFocusSession),
+
+        insertAll: write(r => r.insertAll),
+        clearAll: write(r => r.clearAll),
+    };
+}
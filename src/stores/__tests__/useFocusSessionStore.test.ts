@@ -0,0 +1,115 @@
+/**
+ * Focus session store, exercised on an in-memory repository
+ */
+
+import { createFocusSessionStore } from '../useFocusSessionStore';
+import { createHabitStore } from '../useHabitStore';
+import { createMemoryRepository, getFocusSessionsOn, getFocusedSeconds, parseBackup, type HabitRepository } from '../../db';
+
+jest.mock('../../utils/NotificationManager', () => ({
+    NotificationManager: {
+        rescheduleReminder: jest.fn(),
+        cancelReminder: jest.fn(),
+        reconcileReminders: jest.fn(),
+    },
+}));
+
+let repository: HabitRepository;
+let useStore: ReturnType<typeof createFocusSessionStore>;
+const store = () => useStore.getState();
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 2, 10, 10) });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    repository = createMemoryRepository();
+    useStore = createFocusSessionStore(repository);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe('recordSession', () => {
+    it('saves a finished session in whole seconds', async () => {
+        await store().recordSession({
+            startedAt: new Date(2025, 2, 10, 9, 25),
+            plannedSeconds: 1800,
+            actualSeconds: 1499.6,
+            pausedSeconds: 300.4,
+            status: 'aborted',
+        });
+
+        const [saved] = await repository.getFocusSessions();
+        expect(saved).toMatchObject({
+            habitId: null,
+            plannedSeconds: 1800,
+            actualSeconds: 1500,
+            pausedSeconds: 300,
+            status: 'aborted',
+        });
+        expect(saved.endedAt).toEqual(new Date(2025, 2, 10, 10));
+        expect(store().sessions).toEqual([saved]);
+    });
+
+    it('lists sessions newest first after a reload', async () => {
+        const record = { plannedSeconds: 900, actualSeconds: 900, pausedSeconds: 0, status: 'completed' as const };
+        await store().recordSession({ ...record, startedAt: new Date(2025, 2, 9, 20) });
+        await store().recordSession({ ...record, startedAt: new Date(2025, 2, 10, 8) });
+
+        const reloaded = createFocusSessionStore(repository);
+        await reloaded.getState().loadSessions();
+        const sessions = reloaded.getState().sessions;
+
+        expect(sessions.map(s => s.startedAt)).toEqual([new Date(2025, 2, 10, 8), new Date(2025, 2, 9, 20)]);
+        expect(getFocusSessionsOn(sessions, '2025-03-10')).toHaveLength(1);
+        expect(getFocusedSeconds(sessions)).toBe(1800);
+    });
+
+    it('reports a storage failure without throwing', async () => {
+        repository.insertFocusSession = jest.fn().mockRejectedValue(new Error('disk full'));
+
+        const saved = await store().recordSession({
+            startedAt: new Date(2025, 2, 10, 9),
+            plannedSeconds: 900,
+            actualSeconds: 900,
+            pausedSeconds: 0,
+            status: 'completed',
+        });
+
+        expect(saved).toBeNull();
+        expect(store().error).toBe('disk full');
+    });
+});
+
+describe('backups', () => {
+    it('round-trips sessions linked to a habit', async () => {
+        const habitStore = createHabitStore(repository);
+        await habitStore.getState().addHabit('Read');
+        const [habit] = await repository.getHabits();
+
+        await store().recordSession({
+            habitId: habit.id,
+            startedAt: new Date(2025, 2, 10, 9),
+            plannedSeconds: 1800,
+            actualSeconds: 1800,
+            pausedSeconds: 60,
+            status: 'completed',
+            completedRounds: 4,
+        });
+
+        const backup = parseBackup(JSON.stringify(await habitStore.getState().exportBackup()));
+        await habitStore.getState().clearAllData();
+        expect(await repository.getFocusSessions()).toHaveLength(0);
+
+        await habitStore.getState().importBackup(backup);
+        const [restored] = await repository.getFocusSessions();
+        expect(restored).toMatchObject({ habitId: habit.id, actualSeconds: 1800, pausedSeconds: 60, completedRounds: 4 });
+
+        // Importing the same backup again doesn't duplicate it
+        await habitStore.getState().importBackup(backup);
+        expect(await repository.getFocusSessions()).toHaveLength(1);
+    });
+});
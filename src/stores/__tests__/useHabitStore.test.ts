@@ -0,0 +1,403 @@
+/**
+ * Habit store, exercised on an in-memory repository
+ *
+ * The clock is faked so habits can be created, logged and checked on chosen days.
+ * Tests run in Europe/Berlin (see jest.global-setup.js).
+ */
+
+import { createHabitStore } from '../useHabitStore';
+import { createMemoryRepository, type HabitRepository } from '../../db';
+import { NotificationManager } from '../../utils/NotificationManager';
+
+jest.mock('../../utils/NotificationManager', () => ({
+    NotificationManager: {
+        rescheduleReminder: jest.fn(),
+        cancelReminder: jest.fn(),
+        reconcileReminders: jest.fn(),
+    },
+}));
+
+// Local time on a "YYYY-MM-DD" day
+const at = (dateKey: string, hour = 12, minute = 0) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day, hour, minute);
+};
+
+const setNow = (dateKey: string, hour = 12, minute = 0) => {
+    jest.setSystemTime(at(dateKey, hour, minute));
+};
+
+// A fresh store and storage for every test
+let repository: HabitRepository;
+let useStore: ReturnType<typeof createHabitStore>;
+const store = () => useStore.getState();
+
+// Add a habit on a given day and return its id
+const addHabitOn = async (dateKey: string, ...args: Parameters<ReturnType<typeof store>['addHabit']>) => {
+    setNow(dateKey, 8);
+    await store().addHabit(...args);
+    const habits = await repository.getHabits();
+    return habits[habits.length - 1].id;
+};
+
+const toggleDays = async (habitId: string, ...dateKeys: string[]) => {
+    for (const dateKey of dateKeys) {
+        await store().toggleHabit(habitId, dateKey);
+    }
+};
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: at('2025-03-01') });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    repository = createMemoryRepository();
+    useStore = createHabitStore(repository);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe('habits and today', () => {
+    it('adds a habit and loads it with today\'s status', async () => {
+        await addHabitOn('2025-03-10', 'Read');
+
+        expect(store().habits).toHaveLength(1);
+        expect(store().habits[0]).toMatchObject({ title: 'Read', type: 'positive', isCompletedToday: false });
+    });
+
+    it('toggles today on and off', async () => {
+        const id = await addHabitOn('2025-03-10', 'Read');
+
+        await store().toggleHabit(id);
+        expect(store().habits[0].isCompletedToday).toBe(true);
+        expect((await repository.getLogs())[0].dateKey).toBe('2025-03-10');
+
+        await store().toggleHabit(id);
+        expect(store().habits[0].isCompletedToday).toBe(false);
+        expect(await repository.getLogs()).toHaveLength(0);
+    });
+
+    it('logs just after midnight on the new local day', async () => {
+        const id = await addHabitOn('2025-03-10', 'Read');
+
+        // 00:30 in Berlin is still the day before in UTC
+        setNow('2025-03-11', 0, 30);
+        await store().toggleHabit(id);
+
+        expect((await repository.getLogs())[0].dateKey).toBe('2025-03-11');
+    });
+
+    it('rolls today over at midnight', async () => {
+        const id = await addHabitOn('2025-03-31', 'Read');
+        setNow('2025-03-31', 23, 59);
+        await store().toggleHabit(id);
+        expect(store().habits[0].isCompletedToday).toBe(true);
+
+        setNow('2025-04-01', 0, 1);
+        await store().loadHabits();
+        expect(store().habits[0].isCompletedToday).toBe(false);
+    });
+
+    it('leaves archived habits out of the list', async () => {
+        const id = await addHabitOn('2025-03-10', 'Read');
+        await addHabitOn('2025-03-10', 'Walk');
+
+        await store().archiveHabit(id);
+
+        expect(store().habits.map(h => h.title)).toEqual(['Walk']);
+        expect((await store().getArchivedHabits()).map(h => h.title)).toEqual(['Read']);
+    });
+
+    it('counts several completions a day for counter habits', async () => {
+        const id = await addHabitOn('2025-03-10', 'Water', 'Droplet', '#4fc3f7', undefined, 'positive', undefined, null, true);
+
+        await store().addCompletion(id);
+        await store().addCompletion(id);
+        expect(store().habits[0].todayCount).toBe(2);
+
+        await store().undoLastCompletion(id);
+        expect(store().habits[0].todayCount).toBe(1);
+    });
+
+    it('only completes a measurable habit once the target is reached', async () => {
+        const id = await addHabitOn('2025-03-10', 'Water', 'Droplet', '#4fc3f7', undefined, 'positive', undefined, { target: 8, unit: 'glasses' });
+
+        await store().logHabitValue(id, 5);
+        expect(store().habits[0]).toMatchObject({ todayValue: 5, isCompletedToday: false });
+
+        await store().logHabitValue(id, 3);
+        expect(store().habits[0]).toMatchObject({ todayValue: 8, isCompletedToday: true });
+    });
+
+    it('shows a day done before the habit had a target as meeting it', async () => {
+        const id = await addHabitOn('2025-03-10', 'Water', 'Droplet');
+        await store().toggleHabit(id);
+        await store().updateHabit(id, { targetValue: 8, unit: 'glasses' });
+
+        expect(store().habits[0]).toMatchObject({ todayValue: 8, isCompletedToday: true });
+    });
+});
+
+describe('streaks', () => {
+    it('counts a Build habit across the spring-forward night', async () => {
+        const id = await addHabitOn('2025-03-25', 'Read');
+        await toggleDays(id, '2025-03-28', '2025-03-29', '2025-03-30', '2025-03-31', '2025-04-01');
+
+        setNow('2025-04-01', 21);
+        const details = await store().getHabitDetails(id);
+        expect(details.currentStreak).toBe(5);
+        expect(details.longestStreak).toBe(5);
+        expect(details.totalCompletions).toBe(5);
+    });
+
+    it('keeps the streak while today is open and drops it after a missed day', async () => {
+        const id = await addHabitOn('2025-03-25', 'Read');
+        await toggleDays(id, '2025-03-26', '2025-03-27');
+
+        setNow('2025-03-28', 22);
+        expect((await store().getHabitDetails(id)).currentStreak).toBe(2);
+
+        setNow('2025-03-29', 9);
+        const details = await store().getHabitDetails(id);
+        expect(details.currentStreak).toBe(0);
+        expect(details.longestStreak).toBe(2);
+    });
+
+    it('counts clean days for a Break habit and resets on a slip', async () => {
+        const id = await addHabitOn('2025-10-20', 'Smoking', 'Cigarette', '#ff6b6b', undefined, 'negative');
+
+        // Through the fall-back night on 2025-10-26
+        setNow('2025-10-27', 18);
+        expect((await store().getHabitDetails(id)).currentStreak).toBe(8);
+
+        await store().toggleHabit(id);
+        const details = await store().getHabitDetails(id);
+        expect(details.currentStreak).toBe(0);
+        expect(details.longestStreak).toBe(7);
+    });
+
+    it('agrees between the dashboard and the detail screen', async () => {
+        const id = await addHabitOn('2025-03-01', 'Read');
+        await toggleDays(id, '2025-03-03', '2025-03-04', '2025-03-05');
+
+        setNow('2025-03-05', 20);
+        const [card] = await store().getHabitsWithSparkline();
+        const details = await store().getHabitDetails(id);
+        expect(card.currentStreak).toBe(3);
+        expect(details.currentStreak).toBe(card.currentStreak);
+    });
+
+    it('carries a streak over the end of the month', async () => {
+        const id = await addHabitOn('2025-02-20', 'Read');
+        await toggleDays(id, '2025-02-27', '2025-02-28', '2025-03-01');
+
+        setNow('2025-03-01', 20);
+        expect((await store().getHabitDetails(id)).currentStreak).toBe(3);
+    });
+});
+
+describe('archived habits', () => {
+    it('keep the stats they had when archived', async () => {
+        const build = await addHabitOn('2025-03-01', 'Read');
+        const clean = await addHabitOn('2025-03-01', 'Doomscrolling', 'Smartphone', '#ff6b6b', undefined, 'negative');
+        await toggleDays(build, '2025-03-01', '2025-03-02', '2025-03-03', '2025-03-04', '2025-03-05');
+
+        setNow('2025-03-05', 20);
+        await store().archiveHabit(build);
+        await store().archiveHabit(clean);
+        const before = [await store().getHabitDetails(build), await store().getHabitDetails(clean)];
+        expect(before[0].currentStreak).toBe(5);
+        expect(before[1].currentStreak).toBeGreaterThan(0);
+
+        setNow('2025-04-20');
+        expect([await store().getHabitDetails(build), await store().getHabitDetails(clean)]).toEqual(before);
+    });
+});
+
+describe('skipped days', () => {
+    it('excuses a day without breaking the streak', async () => {
+        const id = await addHabitOn('2025-03-01', 'Read');
+        await toggleDays(id, '2025-03-10', '2025-03-12');
+        await store().setDaySkipped(id, '2025-03-11', true);
+
+        setNow('2025-03-12', 20);
+        const details = await store().getHabitDetails(id);
+        expect(details.currentStreak).toBe(2);
+        expect(details.skippedLogs).toHaveLength(1);
+    });
+
+    it('refills the freeze allowance at the start of each month', async () => {
+        const id = await addHabitOn('2025-01-01', 'Read');
+
+        await store().setDaySkipped(id, '2025-01-30', true);
+        await store().setDaySkipped(id, '2025-01-31', true);
+        expect(await store().getFreezesLeft(id, '2025-01-31')).toBe(0);
+
+        // A third skip in January is refused
+        await expect(store().setDaySkipped(id, '2025-01-29', true)).rejects.toThrow('No freezes left for 2025-01');
+        expect(store().error).toBe('No freezes left for 2025-01');
+        expect(await repository.getLogs()).toHaveLength(2);
+
+        expect(await store().getFreezesLeft(id, '2025-02-01')).toBe(2);
+        await store().setDaySkipped(id, '2025-02-01', true);
+        expect(await repository.getLogs()).toHaveLength(3);
+    });
+
+    it('fails loudly so a refused skip on a Break habit is not saved as a slip', async () => {
+        const id = await addHabitOn('2025-01-01', 'Doomscrolling', 'Smartphone', '#ff6b6b', undefined, 'negative');
+        await store().setDaySkipped(id, '2025-01-30', true);
+        await store().setDaySkipped(id, '2025-01-31', true);
+
+        await expect(store().setDaySkipped(id, '2025-01-29', true)).rejects.toThrow('No freezes left for 2025-01');
+        expect(await repository.getLogs({ habitId: id, dateKey: '2025-01-29' })).toHaveLength(0);
+    });
+});
+
+describe('vacation mode', () => {
+    it('freezes streaks over a pause', async () => {
+        const id = await addHabitOn('2025-03-01', 'Read');
+        await toggleDays(id, '2025-03-09', '2025-03-10');
+
+        setNow('2025-03-11');
+        await store().startPause('2025-03-11', '2025-03-13');
+
+        setNow('2025-03-14', 20);
+        await store().toggleHabit(id);
+        expect((await store().getHabitDetails(id)).currentStreak).toBe(3);
+    });
+
+    it('rejects a pause that overlaps another', async () => {
+        setNow('2025-03-10');
+        await store().startPause('2025-03-12', '2025-03-15');
+
+        await expect(store().startPause('2025-03-15', '2025-03-18')).rejects.toThrow('These days overlap another pause');
+        expect(store().pauses).toHaveLength(1);
+    });
+
+    it('cuts a running pause short at yesterday', async () => {
+        setNow('2025-03-10');
+        await store().startPause('2025-03-08', '2025-03-20');
+
+        await store().endPause(store().pauses[0].id);
+        expect(store().pauses[0]).toMatchObject({ startDateKey: '2025-03-08', endDateKey: '2025-03-09' });
+    });
+});
+
+describe('backups', () => {
+    it('schedules reminders for restored habits', async () => {
+        await addHabitOn('2025-03-10', 'Read', 'Book', '#ffb347', '07:30');
+        const backup = await store().exportBackup();
+        await store().clearAllData();
+        jest.mocked(NotificationManager.reconcileReminders).mockClear();
+
+        await store().importBackup(backup);
+
+        expect(store().habits[0].reminderTime).toBe('07:30');
+        expect(NotificationManager.reconcileReminders).toHaveBeenCalled();
+    });
+});
+
+describe('journal', () => {
+    it("won't complete a Build habit's empty day for a note", async () => {
+        const id = await addHabitOn('2025-03-10', 'Run');
+
+        await store().saveLogEntry(id, '2025-03-10', { note: 'Rained all day', mood: 2 });
+
+        expect(await repository.getLogs({ habitId: id })).toHaveLength(0);
+        expect(store().habits[0].isCompletedToday).toBe(false);
+        expect(store().error).toMatch(/log this day/i);
+    });
+
+    it('keeps a note on a logged Build habit day', async () => {
+        const id = await addHabitOn('2025-03-10', 'Run');
+        await toggleDays(id, '2025-03-10');
+
+        await store().saveLogEntry(id, '2025-03-10', { note: 'Easy 5k', mood: 4 });
+
+        expect(await repository.getLogs({ habitId: id })).toMatchObject([{ status: 'done', note: 'Easy 5k', mood: 4 }]);
+    });
+
+    it('records a slip when writing about a Break habit day', async () => {
+        const id = await addHabitOn('2025-03-10', 'Doomscrolling', 'Smartphone', '#ff6b6b', undefined, 'negative');
+
+        await store().saveLogEntry(id, '2025-03-10', { note: 'Bored on the train', mood: null });
+
+        expect(await repository.getLogs({ habitId: id })).toMatchObject([{ status: 'done', note: 'Bored on the train' }]);
+    });
+});
+
+describe('focus sessions', () => {
+    it('adds the focused minutes to a habit measured in time', async () => {
+        const id = await addHabitOn('2025-03-10', 'Read', 'Book', '#ffb347', undefined, 'positive', undefined, { target: 30, unit: 'min' });
+
+        await store().logFocusSession(id, 25 * 60);
+        expect(store().habits[0]).toMatchObject({ todayValue: 25, isCompletedToday: false });
+
+        await store().logFocusSession(id, 15 * 60);
+        expect(store().habits[0]).toMatchObject({ todayValue: 40, isCompletedToday: true });
+    });
+
+    it('completes a plain habit once and leaves it completed', async () => {
+        const id = await addHabitOn('2025-03-10', 'Write code');
+
+        await store().logFocusSession(id, 30 * 60);
+        await store().logFocusSession(id, 30 * 60);
+
+        expect(store().habits[0].isCompletedToday).toBe(true);
+        expect(await repository.getLogs()).toHaveLength(1);
+    });
+
+    it('fills a habit measured in something other than time up to its target', async () => {
+        const id = await addHabitOn('2025-03-10', 'Read', 'Book', '#ffb347', undefined, 'positive', undefined, { target: 20, unit: 'pages' });
+
+        await store().logFocusSession(id, 30 * 60);
+        expect(store().habits[0]).toMatchObject({ todayValue: 20, isCompletedToday: true });
+    });
+
+    it('adds a completion to a counter habit and never logs a Break habit', async () => {
+        const counter = await addHabitOn('2025-03-10', 'Pomodoros', 'Timer', '#ffb347', undefined, 'positive', undefined, null, true);
+        const negative = await addHabitOn('2025-03-10', 'Doomscrolling', 'Smartphone', '#ff6b6b', undefined, 'negative');
+
+        await store().logFocusSession(counter, 25 * 60);
+        await store().logFocusSession(counter, 25 * 60);
+        await store().logFocusSession(negative, 25 * 60);
+
+        expect(store().habits.find(h => h.id === counter)?.todayCount).toBe(2);
+        expect(await repository.getLogs({ habitId: negative })).toHaveLength(0);
+    });
+
+    it('logs a session on the day it ended, even when it is handled after midnight', async () => {
+        const id = await addHabitOn('2025-03-10', 'Read', 'Book', '#ffb347', undefined, 'positive', undefined, { target: 30, unit: 'min' });
+
+        // Ended at 23:50, picked up when the app is opened the next morning
+        setNow('2025-03-11', 7);
+        await store().logFocusSession(id, 25 * 60, '2025-03-10');
+
+        expect(await repository.getLogs({ habitId: id, dateKey: '2025-03-10' })).toMatchObject([{ value: 25 }]);
+        expect(await repository.getLogs({ habitId: id, dateKey: '2025-03-11' })).toHaveLength(0);
+    });
+});
+
+describe('getHistoryData', () => {
+    it('returns one day per key across a month boundary and DST', async () => {
+        const id = await addHabitOn('2025-03-01', 'Read');
+        await toggleDays(id, '2025-03-30', '2025-04-01');
+
+        setNow('2025-04-02');
+        const days = await store().getHistoryData('2025-04-02', 5);
+
+        expect(days.map(d => d.dateKey)).toEqual(['2025-03-29', '2025-03-30', '2025-03-31', '2025-04-01', '2025-04-02']);
+        expect(days.map(d => d.completedCount)).toEqual([0, 1, 0, 1, 0]);
+        expect(days.every(d => d.totalCount === 1)).toBe(true);
+    });
+
+    it('leaves days before a habit existed empty', async () => {
+        await addHabitOn('2025-03-31', 'Read');
+
+        const days = await store().getHistoryData('2025-04-01', 3);
+        expect(days.map(d => d.totalCount)).toEqual([0, 1, 1]);
+    });
+});
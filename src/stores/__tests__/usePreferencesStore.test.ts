@@ -0,0 +1,64 @@
+/**
+ * Preferences store: the notifications switch across wipes and restarts
+ *
+ * Storage is the web AsyncStorage (localStorage), so a "restart" loads a fresh
+ * copy of the store module and lets it hydrate from what was saved.
+ */
+
+import { usePreferencesStore, DEFAULT_PREFERENCES } from '../usePreferencesStore';
+import { NotificationManager } from '../../utils/NotificationManager';
+
+const mockPermission = { status: 'undetermined' };
+
+jest.mock('expo-notifications', () => ({
+    setNotificationHandler: jest.fn(),
+    getPermissionsAsync: jest.fn(async () => mockPermission),
+}));
+
+jest.mock('expo-device', () => ({ isDevice: true }));
+
+// Load the store as a new launch would
+const restart = async (): Promise<typeof usePreferencesStore> => {
+    let store!: typeof usePreferencesStore;
+    jest.isolateModules(() => {
+        store = require('../usePreferencesStore').usePreferencesStore;
+    });
+    await store.persist.rehydrate();
+    return store;
+};
+
+beforeEach(async () => {
+    localStorage.clear();
+    mockPermission.status = 'undetermined';
+    usePreferencesStore.setState(DEFAULT_PREFERENCES);
+});
+
+describe('notifications switch', () => {
+    it('keeps the default until the user flips it', async () => {
+        expect((await restart()).getState().notificationsEnabled).toBeNull();
+
+        usePreferencesStore.getState().setNotificationsEnabled(false);
+        expect((await restart()).getState().notificationsEnabled).toBe(false);
+    });
+
+    it('goes back to the default, not on, after a wipe and a restart', async () => {
+        mockPermission.status = 'denied';
+        usePreferencesStore.getState().setNotificationsEnabled(false);
+
+        usePreferencesStore.getState().resetPreferences();
+        const store = await restart();
+
+        expect(store.getState().notificationsEnabled).toBeNull();
+        expect(await NotificationManager.areRemindersEnabled()).toBe(false);
+    });
+
+    it('follows the OS permission until set', async () => {
+        expect(await NotificationManager.areRemindersEnabled()).toBe(false);
+
+        mockPermission.status = 'granted';
+        expect(await NotificationManager.areRemindersEnabled()).toBe(true);
+
+        usePreferencesStore.getState().setNotificationsEnabled(false);
+        expect(await NotificationManager.areRemindersEnabled()).toBe(false);
+    });
+});
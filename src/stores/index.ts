@@ -1,2 +1,4 @@
-export { useHabitStore } from './useHabitStore';
+export { useHabitStore, createHabitStore } from './useHabitStore';
 export { useFocusStore } from './useFocusStore';
+export { useFocusSessionStore, createFocusSessionStore, type FocusSessionRecord } from './useFocusSessionStore';
+export { usePreferencesStore } from './usePreferencesStore';
@@ -0,0 +1,103 @@
+/**
+ * Focus Session Store - Zustand State Management
+ *
+ * Records each focus timer run through the shared HabitRepository
+ * (see db/repository.ts), so there's a history of deep work.
+ * Timer preferences live in useFocusStore.
+ */
+
+import { create } from 'zustand';
+import {
+    generateId,
+    getRepository,
+    type FocusSession,
+    type FocusSessionStatus,
+    type HabitRepository,
+} from '../db';
+
+// What the timer knows when a session ends; the store adds the id
+export interface FocusSessionRecord {
+    habitId?: string | null;
+    startedAt: Date;
+    // Defaults to now
+    endedAt?: Date;
+    plannedSeconds: number;
+    actualSeconds: number;
+    pausedSeconds: number;
+    status: FocusSessionStatus;
+    // Pomodoro sessions only
+    completedRounds?: number | null;
+}
+
+interface FocusSessionStore {
+    // State
+    // Recorded sessions, newest first
+    sessions: FocusSession[];
+    error: string | null;
+
+    // Actions
+    loadSessions: () => Promise<void>;
+    recordSession: (record: FocusSessionRecord) => Promise<FocusSession | null>;
+}
+
+const toSeconds = (value: number) => Math.max(0, Math.round(value));
+
+const byNewest = (a: FocusSession, b: FocusSession) =>
+    new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
+
+/**
+ * Create a focus session store on top of a repository.
+ * The app shares one on the platform's storage (`useFocusSessionStore`); tests build their own.
+ */
+export const createFocusSessionStore = (repository: HabitRepository) => create<FocusSessionStore>((set) => ({
+    // Initial state
+    sessions: [],
+    error: null,
+
+    /**
+     * Load every recorded session
+     */
+    loadSessions: async () => {
+        try {
+            const sessions = await repository.getFocusSessions();
+            set({ sessions: [...sessions].sort(byNewest), error: null });
+        } catch (error) {
+            console.error('[FocusSessionStore] Failed to load sessions:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to load focus sessions'
+            });
+        }
+    },
+
+    /**
+     * Save a finished or stopped session. Resolves to the saved row, or null if it couldn't be stored.
+     */
+    recordSession: async (record: FocusSessionRecord) => {
+        try {
+            const session: FocusSession = {
+                id: generateId(),
+                habitId: record.habitId ?? null,
+                startedAt: record.startedAt,
+                endedAt: record.endedAt ?? new Date(),
+                plannedSeconds: toSeconds(record.plannedSeconds),
+                actualSeconds: toSeconds(record.actualSeconds),
+                pausedSeconds: toSeconds(record.pausedSeconds),
+                status: record.status,
+                completedRounds: record.completedRounds ?? null,
+            };
+            await repository.insertFocusSession(session);
+
+            console.log(`[FocusSessionStore] Recorded ${session.status} session (${session.actualSeconds}s focused)`);
+            set(state => ({ sessions: [session, ...state.sessions] }));
+            return session;
+        } catch (error) {
+            console.error('[FocusSessionStore] Failed to record session:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to record focus session'
+            });
+            return null;
+        }
+    },
+}));
+
+export const useFocusSessionStore = createFocusSessionStore(getRepository());
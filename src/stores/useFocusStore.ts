@@ -1,21 +1,53 @@
 /**
  * Focus Store
- * 
+ *
  * Simple store to track focus mode state across components.
  * Used to hide VoidDock when in focus mode.
- * Also stores user preference for focus timer sound.
+ * Also stores user preferences for the focus timer (sound, countdown or Pomodoro,
+ * the Pomodoro lengths and saved countdown presets) and the timer in progress
+ * (persisted, so a session carries on after the app is closed).
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateId } from '../db';
+import { clampFocusMinutes, normalizePresetName, type FocusPreset, type FocusTimer } from '../db/focus';
+import { DEFAULT_POMODORO_SETTINGS, clampPomodoroSettings, type PomodoroSettings } from '../db/pomodoro';
+
+// A single countdown, or a Pomodoro set
+export type FocusTimerMode = 'countdown' | 'pomodoro';
+
+// The timer in progress and the habit it's for
+export interface ActiveFocusSession extends FocusTimer {
+    habitId: string | null;
+    // The Pomodoro set being run (null, or missing from before Pomodoro, for a countdown)
+    pomodoro?: PomodoroSettings | null;
+}
 
 interface FocusState {
     isFocusMode: boolean;
     soundEnabled: boolean;
+    timerMode: FocusTimerMode;
+    pomodoroSettings: PomodoroSettings;
+    // Named countdown lengths, in the order they were saved
+    customPresets: FocusPreset[];
+    activeSession: ActiveFocusSession | null;
     setFocusMode: (active: boolean) => void;
     setSoundEnabled: (enabled: boolean) => void;
     toggleSound: () => void;
+    setTimerMode: (mode: FocusTimerMode) => void;
+    setPomodoroSettings: (changes: Partial<PomodoroSettings>) => void;
+    // Saving under an existing name updates that preset; null if the name is blank
+    savePreset: (name: string, minutes: number) => FocusPreset | null;
+    removePreset: (id: string) => void;
+    resetPreferences: () => void;
+
+    // Timer
+    startSession: (plannedSeconds: number, habitId: string | null, pomodoro?: PomodoroSettings | null) => ActiveFocusSession;
+    pauseSession: () => void;
+    resumeSession: () => void;
+    endSession: () => void;
 }
 
 export const useFocusStore = create<FocusState>()(
@@ -23,14 +55,75 @@ export const useFocusStore = create<FocusState>()(
         (set, get) => ({
             isFocusMode: false,
             soundEnabled: true, // Default: sound on
+            timerMode: 'countdown',
+            pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+            customPresets: [],
+            activeSession: null,
             setFocusMode: (active: boolean) => set({ isFocusMode: active }),
             setSoundEnabled: (enabled: boolean) => set({ soundEnabled: enabled }),
             toggleSound: () => set({ soundEnabled: !get().soundEnabled }),
+            setTimerMode: (mode: FocusTimerMode) => set({ timerMode: mode }),
+            setPomodoroSettings: (changes: Partial<PomodoroSettings>) => set({
+                pomodoroSettings: clampPomodoroSettings({ ...get().pomodoroSettings, ...changes }),
+            }),
+            savePreset: (name: string, minutes: number) => {
+                const presetName = normalizePresetName(name);
+                if (!presetName) return null;
+
+                const presets = get().customPresets;
+                const existing = presets.find(p => p.name.toLowerCase() === presetName.toLowerCase());
+                const preset = { id: existing?.id ?? generateId(), name: presetName, minutes: clampFocusMinutes(minutes) };
+                set({
+                    customPresets: existing
+                        ? presets.map(p => (p.id === existing.id ? preset : p))
+                        : [...presets, preset],
+                });
+                return preset;
+            },
+            removePreset: (id: string) => set({
+                customPresets: get().customPresets.filter(p => p.id !== id),
+            }),
+            resetPreferences: () => set({
+                soundEnabled: true,
+                timerMode: 'countdown',
+                pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+                customPresets: [],
+            }),
+
+            startSession: (plannedSeconds: number, habitId: string | null, pomodoro: PomodoroSettings | null = null) => {
+                const activeSession = { startedAt: Date.now(), plannedSeconds, pausedMs: 0, pausedAt: null, habitId, pomodoro };
+                set({ activeSession });
+                return activeSession;
+            },
+            pauseSession: () => {
+                const session = get().activeSession;
+                if (!session || session.pausedAt !== null) return;
+                set({ activeSession: { ...session, pausedAt: Date.now() } });
+            },
+            resumeSession: () => {
+                const session = get().activeSession;
+                if (!session || session.pausedAt === null) return;
+                set({
+                    activeSession: {
+                        ...session,
+                        pausedMs: session.pausedMs + Math.max(0, Date.now() - session.pausedAt),
+                        pausedAt: null,
+                    },
+                });
+            },
+            endSession: () => set({ activeSession: null }),
         }),
         {
             name: 'focus-storage',
             storage: createJSONStorage(() => AsyncStorage),
-            partialize: (state) => ({ soundEnabled: state.soundEnabled }), // Only persist sound preference
+            // Persist the preferences and the running timer
+            partialize: (state) => ({
+                soundEnabled: state.soundEnabled,
+                timerMode: state.timerMode,
+                pomodoroSettings: state.pomodoroSettings,
+                customPresets: state.customPresets,
+                activeSession: state.activeSession,
+            }),
         }
     )
 );
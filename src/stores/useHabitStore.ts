@@ -1,211 +1,660 @@
 /**
  * Habit Store - Zustand State Management
  * 
- * Interfaces with the local SQLite database to manage habits and logs.
- * On web, uses in-memory storage for testing.
- * On native, uses expo-sqlite with Drizzle ORM.
+ * Manages habits, logs and pauses through a HabitRepository (see db/repository.ts):
+ * expo-sqlite with Drizzle ORM on native, in-memory storage on web.
  */
 
-import { Platform } from 'react-native';
 import { create } from 'zustand';
 import {
     generateId,
+    getDateKey,
     getTodayDateKey,
-    hasSQLiteSupport,
+    getRepository,
+    createBackup,
+    planImport,
+    matchesLogFilter,
+    getHabitSchedule,
+    scheduleToColumns,
+    isScheduledDay,
+    DAILY_SCHEDULE,
+    getHabitMeasure,
+    isLogComplete,
+    isValidMood,
+    normalizeNote,
+    hasJournalEntry,
+    MOOD_MIN,
+    MOOD_MAX,
+    isSkippedLog,
+    getFreezesLeft,
+    getMonthKey,
+    DEFAULT_FREEZES_PER_MONTH,
+    isPausedDay,
+    pausesOverlap,
+    getPauseLength,
+    MAX_PAUSE_DAYS,
+    getFocusCredit,
+    buildHabitHistory,
+    getCurrentStreak,
+    getLongestStreak,
+    getConsistency,
+    getRollingRates,
+    getWeekdayRates,
+    type LogEntry,
+    type HabitSchedule,
+    type HabitMeasure,
     type HabitWithStatus,
+    type HabitUpdate,
+    type Habit,
+    type Log,
+    type Pause,
+    type BackupDocument,
+    type ImportSummary,
+    type LogExportFilter,
+    type LogExportRow,
+    type HabitRepository,
 } from '../db';
+import { NotificationManager } from '../utils/NotificationManager';
 
-const isWeb = Platform.OS === 'web';
+// Windows for the detail stats
+const CONSISTENCY_DAYS = 30;
+const TREND_DAYS = 180;
+const WEEKDAY_RATE_DAYS = 90;
+
+// Per-day completion summary for the history constellation
+type HistoryDay = {
+    dateKey: string;
+    completedCount: number;
+    totalCount: number;
+    // Vacation mode was on that day
+    isPaused: boolean;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Amount already logged on a measurable habit's day.
+ * A log without a value predates the target and counts as fully done; a skip counts as nothing.
+ */
+const getLoggedValue = (log: { value: number | null; status: string } | undefined, target: number): number => {
+    if (!log || isSkippedLog(log)) return 0;
+    return log.value ?? target;
+};
+
+/**
+ * Summarise each day in a range against the habits that were active on it.
+ * A habit counts from its creation day through its archive day; habits archived
+ * before archive dates were tracked are left out entirely. Days off a habit's
+ * schedule only count for it if it was done anyway.
+ * Measurable habits are done once the day's value reaches the target.
+ * Negative habits count as completed on days WITHOUT a log (abstinence).
+ * Skipped days don't count for the habit at all, and paused days count for none.
+ */
+const buildHistoryDays = (
+    allHabits: Array<Pick<Habit,
+        | 'id' | 'type' | 'archived' | 'archivedAt' | 'createdAt'
+        | 'scheduleType' | 'scheduleDays' | 'scheduleTimesPerWeek' | 'scheduleIntervalDays'
+        | 'targetValue' | 'unit'
+    >>,
+    rangeLogs: Array<{ habitId: string; dateKey: string; value: number | null; status: string }>,
+    endDate: Date,
+    days: number,
+    pauses: Pause[],
+): HistoryDay[] => {
+    // Measurable habits only count once the day's target was met
+    const habitMap = new Map(allHabits.map(h => [h.id, h]));
+    const loggedDays = new Set(rangeLogs
+        .filter(l => { const habit = habitMap.get(l.habitId); return !!habit && isLogComplete(habit, l); })
+        .map(l => `${l.habitId}|${l.dateKey}`));
+    const skippedDays = new Set(rangeLogs.filter(l => isSkippedLog(l)).map(l => `${l.habitId}|${l.dateKey}`));
+
+    return Array.from({ length: days }, (_, i) => {
+        const date = startOfDay(endDate);
+        date.setDate(date.getDate() - (days - 1 - i));
+        const dateKey = getDateKey(date);
+
+        if (isPausedDay(pauses, dateKey)) {
+            return { dateKey, completedCount: 0, totalCount: 0, isPaused: true };
+        }
+
+        const activeHabits = allHabits.filter(h => {
+            const createdDay = startOfDay(new Date(h.createdAt));
+            if (createdDay > date) return false;
+            if (h.archived && (!h.archivedAt || date > startOfDay(new Date(h.archivedAt)))) return false;
+            if (skippedDays.has(`${h.id}|${dateKey}`)) return false;
+            return loggedDays.has(`${h.id}|${dateKey}`) || isScheduledDay(getHabitSchedule(h), date, createdDay);
+        });
+
+        const completedCount = activeHabits.filter(h => {
+            const hasLog = loggedDays.has(`${h.id}|${dateKey}`);
+            return h.type === 'negative' ? !hasLog : hasLog;
+        }).length;
+
+        return { dateKey, completedCount, totalCount: activeHabits.length, isPaused: false };
+    });
+};
+
+/**
+ * A habit with its status for today, given that day's logs of the habit
+ */
+const withTodayStatus = (habit: Habit, todayLogs: Log[]): HabitWithStatus => {
+    const todayLog = todayLogs[todayLogs.length - 1];
+    const measure = getHabitMeasure(habit);
+    return {
+        ...habit,
+        isCompletedToday: !!todayLog && isLogComplete(habit, todayLog),
+        todayLogId: todayLog?.id ?? null,
+        // Same amount the stats go by, so a done log without a value shows as the full target
+        todayValue: measure ? getLoggedValue(todayLog, measure.target) : todayLog?.value ?? 0,
+        // Counter habits can have several logs today; a skip isn't a completion
+        todayCount: todayLogs.filter(l => !isSkippedLog(l)).length,
+        isSkippedToday: todayLogs.some(l => isSkippedLog(l)),
+    };
+};
+
+const byNewest = (a: { completedAt: Date }, b: { completedAt: Date }) =>
+    new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime();
 
 interface HabitStore {
     // State
     habits: HabitWithStatus[];
+    // Vacation pauses, oldest first
+    pauses: Pause[];
     isLoading: boolean;
     error: string | null;
 
-    // In-memory storage for web
-    _webHabits: Array<{
-        id: string;
-        title: string;
-        iconKey: string;
-        color: string;
-        type: string;
-        reminderTime: string | null;
-        archived: boolean;
-        createdAt: Date;
-    }>;
-    _webLogs: Array<{
-        id: string;
-        habitId: string;
-        dateKey: string;
-        completedAt: Date;
-    }>;
-
     // Actions
     loadHabits: () => Promise<void>;
     toggleHabit: (habitId: string, dateKey?: string) => Promise<void>;
-    addHabit: (title: string, iconKey?: string, color?: string, reminderTime?: string, type?: 'positive' | 'negative') => Promise<void>;
+    logHabitValue: (habitId: string, amount: number, dateKey?: string) => Promise<void>;
+    addCompletion: (habitId: string, dateKey?: string) => Promise<void>;
+    undoLastCompletion: (habitId: string, dateKey?: string) => Promise<void>;
+
+    logFocusSession: (habitId: string, focusedSeconds: number, dateKey?: string) => Promise<void>;
+
+    // Skipped days
+    setDaySkipped: (habitId: string, dateKey: string, skipped: boolean) => Promise<void>;
+    getFreezesLeft: (habitId: string, dateKey: string) => Promise<number>;
+
+    // Vacation mode
+    getPauses: () => Promise<Pause[]>;
+    startPause: (startDateKey: string, endDateKey: string) => Promise<void>;
+    endPause: (pauseId: string) => Promise<void>;
+
+    // Journal
+    getDayLog: (habitId: string, dateKey: string) => Promise<Log | undefined>;
+    saveLogEntry: (habitId: string, dateKey: string, entry: LogEntry) => Promise<void>;
+    addHabit: (title: string, iconKey?: string, color?: string, reminderTime?: string, type?: 'positive' | 'negative', schedule?: HabitSchedule, measure?: HabitMeasure | null, counter?: boolean, freezesPerMonth?: number) => Promise<void>;
+    updateHabit: (habitId: string, updates: HabitUpdate) => Promise<void>;
     archiveHabit: (habitId: string) => Promise<void>;
+    unarchiveHabit: (habitId: string) => Promise<void>;
     deleteHabit: (habitId: string) => Promise<void>;
 
+    // Reminders
+    getHabit: (habitId: string) => Promise<Habit | undefined>;
+    getHabitsWithReminders: () => Promise<Habit[]>;
+    setNotificationId: (habitId: string, notificationId: string | null) => Promise<void>;
+
+    clearAllData: () => Promise<void>;
+
+    // Backup
+    exportBackup: () => Promise<BackupDocument>;
+    importBackup: (backup: BackupDocument) => Promise<ImportSummary>;
+
     // Data Fetchers
-    getHabitsWithSparkline: () => Promise<Array<HabitWithStatus & { sparkline: boolean[], color: string }>>;
+    getHabitsWithSparkline: () => Promise<Array<HabitWithStatus & { sparkline: Array<{ dateKey: string; hasLog: boolean; isSkipped: boolean; isPaused: boolean; count: number; isBeforeCreation: boolean; isScheduled: boolean }>, currentStreak: number, color: string }>>;
     getHabitDetails: (habitId: string) => Promise<{
-        logs: any[];
+        logs: Log[];
+        partialLogs: Log[];
+        skippedLogs: Log[];
         currentStreak: number;
+        longestStreak: number;
+        // Last 30 days, 0-100
         consistencyScore: number;
         totalCompletions: number;
+        // 7-day rolling completion rate (0-1) for each of the last 180 days
+        rollingRates: number[];
+        // Completion rate (0-1) per weekday over the last 90 days, null where nothing was due
+        weekdayRates: Array<number | null>;
     }>;
+    getLogExportRows: (filter?: LogExportFilter) => Promise<LogExportRow[]>;
+    getHistoryData: (endDateKey: string, days: number) => Promise<HistoryDay[]>;
+    getArchivedHabits: () => Promise<Habit[]>;
 
     // Reactivity
     version: number;
 }
 
-export const useHabitStore = create<HabitStore>((set, get) => ({
+/**
+ * Create a habit store on top of a repository.
+ * The app shares one on the platform's storage (`useHabitStore`); tests build their own.
+ */
+export const createHabitStore = (repository: HabitRepository) => create<HabitStore>((set, get) => ({
     // Initial state
     habits: [],
+    pauses: [],
     isLoading: true,
     error: null,
 
-    // Internal data
-    _webHabits: [],
-    _webLogs: [],
-
     version: 0,
 
     /**
-     * Load all active habits with today's completion status
+     * Load all active habits with today's completion status, and the vacation pauses
      */
     loadHabits: async () => {
         set({ isLoading: true, error: null });
 
         try {
             const todayKey = getTodayDateKey();
+            const activeHabits = await repository.getHabits({ archived: false });
+            const todayLogs = await repository.getLogs({ dateKey: todayKey });
+            const pauses = await repository.getPauses();
+
+            set({
+                habits: activeHabits.map(habit =>
+                    withTodayStatus(habit, todayLogs.filter(l => l.habitId === habit.id))
+                ),
+                pauses: [...pauses].sort((a, b) => a.startDateKey.localeCompare(b.startDateKey)),
+                isLoading: false,
+            });
+            // Increment version to signal refresh
+            set(state => ({ version: state.version + 1 }));
+        } catch (error) {
+            console.error('[HabitStore] Failed to load habits:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to load habits',
+                isLoading: false
+            });
+        }
+    },
+
+    /**
+     * Toggle a habit's completion status for a given date.
+     * Measurable habits jump straight to their target, or back to nothing if already met.
+     * Counter habits never toggle off: each call logs one more completion.
+     * Completing a skipped day turns the skip into a completion.
+     */
+    toggleHabit: async (habitId: string, dateKey?: string) => {
+        const targetDateKey = dateKey ?? getTodayDateKey();
+
+        try {
+            const habit = await get().getHabit(habitId);
+            const measure = habit ? getHabitMeasure(habit) : null;
 
-            if (isWeb) {
-                // Web: Use in-memory storage
-                const { _webHabits, _webLogs } = get();
-
-                const habitsWithStatus: HabitWithStatus[] = _webHabits
-                    .filter(h => !h.archived)
-                    .map(habit => {
-                        const todayLog = _webLogs.find(
-                            log => log.habitId === habit.id && log.dateKey === todayKey
-                        );
-                        return {
-                            ...habit,
-                            isCompletedToday: !!todayLog,
-                            todayLogId: todayLog?.id ?? null,
-                        };
-                    });
-
-                set({ habits: habitsWithStatus, isLoading: false });
+            if (habit?.counter) {
+                await get().addCompletion(habitId, targetDateKey);
+                return;
+            }
+
+            const [existingLog] = await repository.getLogs({ habitId, dateKey: targetDateKey });
+
+            if (existingLog && (!habit || isLogComplete(habit, existingLog))) {
+                // Remove the day's log (all of them, if it used to be a counter habit)
+                await repository.deleteLogs({ habitId, dateKey: targetDateKey });
+                console.log(`[HabitStore] Uncompleted habit ${habitId} for ${targetDateKey}`);
+            } else if (existingLog) {
+                // Partly done or skipped: fill up to the target
+                await repository.updateLog(existingLog.id, {
+                    value: measure?.target ?? null,
+                    status: 'done',
+                    completedAt: new Date(),
+                });
+                console.log(`[HabitStore] Completed habit ${habitId} for ${targetDateKey}`);
             } else {
-                // Native: Use SQLite
-                const { getDb } = require('../db');
-                const { eq } = require('drizzle-orm');
-                const { habits, logs } = require('../db/schema');
+                await repository.insertLog({
+                    id: generateId(),
+                    habitId,
+                    dateKey: targetDateKey,
+                    value: measure?.target ?? null,
+                    status: 'done',
+                    note: null,
+                    mood: null,
+                    completedAt: new Date(),
+                });
+                console.log(`[HabitStore] Completed habit ${habitId} for ${targetDateKey}`);
+            }
 
-                const db = getDb();
+            // Reload habits to reflect the change
+            await get().loadHabits();
+        } catch (error) {
+            console.error('[HabitStore] Failed to toggle habit:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to toggle habit'
+            });
+        }
+    },
 
-                const allHabits = await db
-                    .select()
-                    .from(habits)
-                    .where(eq(habits.archived, false));
+    /**
+     * Add (or with a negative amount, remove) progress on a measurable habit for a date.
+     * The day's log is removed once its value drops to zero.
+     */
+    logHabitValue: async (habitId: string, amount: number, dateKey?: string) => {
+        const targetDateKey = dateKey ?? getTodayDateKey();
 
-                const todayLogs = await db
-                    .select()
-                    .from(logs)
-                    .where(eq(logs.dateKey, todayKey));
+        try {
+            const habit = await get().getHabit(habitId);
+            const measure = habit ? getHabitMeasure(habit) : null;
+            if (!measure) {
+                throw new Error(`Habit ${habitId} has no target to log against`);
+            }
 
-                const logMap = new Map(todayLogs.map((log: any) => [log.habitId, log]));
+            const [existingLog] = await repository.getLogs({ habitId, dateKey: targetDateKey });
+            const value = Math.max(0, getLoggedValue(existingLog, measure.target) + amount);
 
-                const habitsWithStatus: HabitWithStatus[] = allHabits.map((habit: any) => ({
-                    ...habit,
-                    isCompletedToday: logMap.has(habit.id),
-                    todayLogId: (logMap.get(habit.id) as any)?.id ?? null,
-                }));
+            if (value === 0) {
+                if (existingLog && !isSkippedLog(existingLog)) {
+                    await repository.deleteLog(existingLog.id);
+                }
+            } else if (existingLog) {
+                await repository.updateLog(existingLog.id, { value, status: 'done', completedAt: new Date() });
+            } else {
+                await repository.insertLog({
+                    id: generateId(),
+                    habitId,
+                    dateKey: targetDateKey,
+                    value,
+                    status: 'done',
+                    note: null,
+                    mood: null,
+                    completedAt: new Date(),
+                });
+            }
 
-                set({ habits: habitsWithStatus, isLoading: false });
+            console.log(`[HabitStore] Logged ${amount} ${measure.unit} for habit ${habitId} on ${targetDateKey}`);
+            await get().loadHabits();
+        } catch (error) {
+            console.error('[HabitStore] Failed to log habit value:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to log habit value'
+            });
+        }
+    },
+
+    /**
+     * Log one more completion of a counter habit (a pushup set, a cigarette...)
+     * A skip on that day is dropped, since the day wasn't excused after all.
+     */
+    addCompletion: async (habitId: string, dateKey?: string) => {
+        const targetDateKey = dateKey ?? getTodayDateKey();
+
+        try {
+            await repository.deleteLogs({ habitId, dateKey: targetDateKey, status: 'skipped' });
+            await repository.insertLog({
+                id: generateId(),
+                habitId,
+                dateKey: targetDateKey,
+                value: null,
+                status: 'done',
+                note: null,
+                mood: null,
+                completedAt: new Date(),
+            });
+
+            console.log(`[HabitStore] Added completion of habit ${habitId} for ${targetDateKey}`);
+            await get().loadHabits();
+        } catch (error) {
+            console.error('[HabitStore] Failed to add completion:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to add completion'
+            });
+        }
+    },
+
+    /**
+     * Count a completed focus session towards its habit on the day it ended (today by default):
+     * time is added to habits measured in minutes or hours, counter habits get a completion and
+     * any other habit is marked done (left alone if it already is). Break habits are never logged.
+     */
+    logFocusSession: async (habitId: string, focusedSeconds: number, dateKey?: string) => {
+        const targetDateKey = dateKey ?? getTodayDateKey();
+        try {
+            const habit = await get().getHabit(habitId);
+            if (!habit || habit.type === 'negative') return;
+
+            const credit = getFocusCredit(habit, focusedSeconds);
+            if (credit.type === 'amount') {
+                if (credit.amount > 0) {
+                    await get().logHabitValue(habitId, credit.amount, targetDateKey);
+                }
+            } else if (credit.type === 'completion') {
+                await get().addCompletion(habitId, targetDateKey);
+            } else {
+                const [dayLog] = await repository.getLogs({ habitId, dateKey: targetDateKey });
+                if (!dayLog || !isLogComplete(habit, dayLog)) {
+                    await get().toggleHabit(habitId, targetDateKey);
+                }
             }
-            set({ isLoading: false });
-            // Increment version to signal refresh
-            set(state => ({ version: state.version + 1 }));
+
+            console.log(`[HabitStore] Logged focus session for habit ${habitId} on ${targetDateKey}`);
         } catch (error) {
-            console.error('[HabitStore] Failed to load habits:', error);
+            console.error('[HabitStore] Failed to log focus session:', error);
             set({
-                error: error instanceof Error ? error.message : 'Failed to load habits',
-                isLoading: false
+                error: error instanceof Error ? error.message : 'Failed to log focus session'
             });
         }
     },
 
     /**
-     * Toggle a habit's completion status for a given date
+     * Remove the most recent completion of a habit on a date (no-op if there is none)
      */
-    toggleHabit: async (habitId: string, dateKey?: string) => {
+    undoLastCompletion: async (habitId: string, dateKey?: string) => {
         const targetDateKey = dateKey ?? getTodayDateKey();
 
         try {
-            if (isWeb) {
-                // Web: Use in-memory storage
-                const { _webLogs } = get();
-                const existingLogIndex = _webLogs.findIndex(
-                    log => log.habitId === habitId && log.dateKey === targetDateKey
-                );
-
-                if (existingLogIndex >= 0) {
-                    // Remove the log
-                    const newLogs = [..._webLogs];
-                    newLogs.splice(existingLogIndex, 1);
-                    set({ _webLogs: newLogs });
-                    console.log(`[HabitStore] Uncompleted habit ${habitId} for ${targetDateKey}`);
-                } else {
-                    // Add new log
-                    const newLog = {
-                        id: generateId(),
-                        habitId,
-                        dateKey: targetDateKey,
-                        completedAt: new Date(),
-                    };
-                    set({ _webLogs: [..._webLogs, newLog] });
-                    console.log(`[HabitStore] Completed habit ${habitId} for ${targetDateKey}`);
+            const [lastLog] = (await repository.getLogs({ habitId, dateKey: targetDateKey, status: 'done' }))
+                .sort(byNewest);
+            if (!lastLog) return;
+
+            await repository.deleteLog(lastLog.id);
 
+            console.log(`[HabitStore] Undid last completion of habit ${habitId} for ${targetDateKey}`);
+            await get().loadHabits();
+        } catch (error) {
+            console.error('[HabitStore] Failed to undo completion:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to undo completion'
+            });
+        }
+    },
+
+    /**
+     * Excuse a day (sick, travelling...) or take the excuse back.
+     * Skipping uses one of the habit's freezes for that month, and only works
+     * on a day with nothing logged yet.
+     * Throws if the day can't be skipped.
+     */
+    setDaySkipped: async (habitId: string, dateKey: string, skipped: boolean) => {
+        try {
+            if (skipped) {
+                const habitLogs = await repository.getLogs({ habitId });
+                const dayLogs = habitLogs.filter(l => l.dateKey === dateKey);
+
+                if (dayLogs.some(l => isSkippedLog(l))) return;
+                if (dayLogs.length > 0) {
+                    throw new Error('This day already has a log');
                 }
+
+                const habit = await get().getHabit(habitId);
+                if (!habit || getFreezesLeft(habit, habitLogs, dateKey) <= 0) {
+                    throw new Error(`No freezes left for ${getMonthKey(dateKey)}`);
+                }
+
+                await repository.insertLog({
+                    id: generateId(),
+                    habitId,
+                    dateKey,
+                    value: null,
+                    status: 'skipped',
+                    note: null,
+                    mood: null,
+                    completedAt: new Date(),
+                });
+                console.log(`[HabitStore] Skipped habit ${habitId} on ${dateKey}`);
+            } else {
+                await repository.deleteLogs({ habitId, dateKey, status: 'skipped' });
+                console.log(`[HabitStore] Unskipped habit ${habitId} on ${dateKey}`);
+            }
+
+            await get().loadHabits();
+        } catch (error) {
+            console.error('[HabitStore] Failed to skip day:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to skip day'
+            });
+            throw error;
+        }
+    },
+
+    /**
+     * Freezes a habit has left in the month containing a date
+     */
+    getFreezesLeft: async (habitId: string, dateKey: string) => {
+        try {
+            const habit = await get().getHabit(habitId);
+            if (!habit) return 0;
+            return getFreezesLeft(habit, await repository.getLogs({ habitId }), dateKey);
+        } catch (error) {
+            console.error('[HabitStore] Failed to count freezes:', error);
+            return 0;
+        }
+    },
+
+    /**
+     * Read every vacation pause straight from storage (past, running and upcoming)
+     */
+    getPauses: async () => {
+        try {
+            return await repository.getPauses();
+        } catch (error) {
+            console.error('[HabitStore] Failed to get pauses:', error);
+            return [];
+        }
+    },
+
+    /**
+     * Put every habit on hold from one day through another (both included).
+     * The range can start in the past but not end there, and can't overlap another pause.
+     * Reminders are suppressed while the pause runs.
+     */
+    startPause: async (startDateKey: string, endDateKey: string) => {
+        try {
+            const range = { startDateKey, endDateKey };
+            if (startDateKey > endDateKey) {
+                throw new Error('A pause has to end on or after its first day');
+            }
+            if (endDateKey < getTodayDateKey()) {
+                throw new Error('A pause has to end today or later');
+            }
+            if (getPauseLength(range) > MAX_PAUSE_DAYS) {
+                throw new Error(`A pause can last at most ${MAX_PAUSE_DAYS} days`);
+            }
+            if ((await repository.getPauses()).some(p => pausesOverlap(p, range))) {
+                throw new Error('These days overlap another pause');
+            }
+
+            await repository.insertPause({
+                id: generateId(),
+                ...range,
+                createdAt: new Date(),
+            });
+
+            console.log(`[HabitStore] Paused habits from ${startDateKey} to ${endDateKey}`);
+            await get().loadHabits();
+            await NotificationManager.reconcileReminders();
+        } catch (error) {
+            console.error('[HabitStore] Failed to start pause:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to start pause'
+            });
+            throw error;
+        }
+    },
+
+    /**
+     * Stop a pause early. A running pause is cut short so it ends yesterday
+     * (its past days stay paused); one that hasn't started is removed.
+     */
+    endPause: async (pauseId: string) => {
+        try {
+            const pause = (await repository.getPauses()).find(p => p.id === pauseId);
+            if (!pause) return;
+
+            const todayKey = getTodayDateKey();
+            const yesterday = startOfDay(new Date());
+            yesterday.setDate(yesterday.getDate() - 1);
+            const yesterdayKey = getDateKey(yesterday);
+
+            // Only days before today are kept
+            if (pause.startDateKey < todayKey) {
+                const endDateKey = pause.endDateKey < yesterdayKey ? pause.endDateKey : yesterdayKey;
+                await repository.updatePause(pauseId, { endDateKey });
             } else {
-                // Native: Use SQLite
-                const { getDb } = require('../db');
-                const { eq, and } = require('drizzle-orm');
-                const { logs } = require('../db/schema');
-
-                const db = getDb();
-
-                const existingLogs = await db
-                    .select()
-                    .from(logs)
-                    .where(and(eq(logs.habitId, habitId), eq(logs.dateKey, targetDateKey)));
-
-                if (existingLogs.length > 0) {
-                    await db.delete(logs).where(eq(logs.id, existingLogs[0].id));
-                    console.log(`[HabitStore] Uncompleted habit ${habitId} for ${targetDateKey}`);
-                } else {
-                    await db.insert(logs).values({
-                        id: generateId(),
-                        habitId,
-                        dateKey: targetDateKey,
-                        completedAt: new Date(),
-                    });
-                    console.log(`[HabitStore] Completed habit ${habitId} for ${targetDateKey}`);
+                await repository.deletePause(pauseId);
+            }
 
+            console.log(`[HabitStore] Ended pause ${pauseId}`);
+            await get().loadHabits();
+            await NotificationManager.reconcileReminders();
+        } catch (error) {
+            console.error('[HabitStore] Failed to end pause:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to end pause'
+            });
+            throw error;
+        }
+    },
+
+    /**
+     * Get the latest log of a habit on a date (undefined if the day has none)
+     */
+    getDayLog: async (habitId: string, dateKey: string) => {
+        try {
+            return (await repository.getLogs({ habitId, dateKey })).sort(byNewest)[0];
+        } catch (error) {
+            console.error('[HabitStore] Failed to get day log:', error);
+            return undefined;
+        }
+    },
+
+    /**
+     * Save a note and mood on a day's latest log.
+     * A Break habit's day without a log gets one, so writing about a slip also records it;
+     * a Build habit's day has to be logged (or skipped) first, so a note never counts as a completion.
+     */
+    saveLogEntry: async (habitId: string, dateKey: string, entry: LogEntry) => {
+        try {
+            if (!isValidMood(entry.mood)) {
+                throw new Error(`Mood must be between ${MOOD_MIN} and ${MOOD_MAX}`);
+            }
+            const update = { note: normalizeNote(entry.note), mood: entry.mood };
+            const existingLog = await get().getDayLog(habitId, dateKey);
+
+            if (existingLog) {
+                await repository.updateLog(existingLog.id, update);
+            } else {
+                if (!hasJournalEntry(update)) return;
+
+                const habit = await get().getHabit(habitId);
+                if (habit?.type !== 'negative') {
+                    throw new Error('Log this day before writing about it');
                 }
+                await repository.insertLog({
+                    id: generateId(),
+                    habitId,
+                    dateKey,
+                    value: null,
+                    status: 'done',
+                    ...update,
+                    completedAt: new Date(),
+                });
             }
 
-            // Reload habits to reflect the change
+            console.log(`[HabitStore] Saved journal entry for habit ${habitId} on ${dateKey}`);
             await get().loadHabits();
         } catch (error) {
-            console.error('[HabitStore] Failed to toggle habit:', error);
+            console.error('[HabitStore] Failed to save journal entry:', error);
             set({
-                error: error instanceof Error ? error.message : 'Failed to toggle habit'
+                error: error instanceof Error ? error.message : 'Failed to save journal entry'
             });
         }
     },
@@ -213,30 +662,31 @@ export const useHabitStore = create<HabitStore>((set, get) => ({
     /**
      * Add a new habit to track
      */
-    addHabit: async (title: string, iconKey: string = 'Circle', color: string = '#ffb347', reminderTime?: string, type: 'positive' | 'negative' = 'positive') => {
+    addHabit: async (title: string, iconKey: string = 'Circle', color: string = '#ffb347', reminderTime?: string, type: 'positive' | 'negative' = 'positive', schedule: HabitSchedule = DAILY_SCHEDULE, measure: HabitMeasure | null = null, counter = false, freezesPerMonth = DEFAULT_FREEZES_PER_MONTH) => {
         try {
-            const newHabit = {
+            const newHabit: Habit = {
                 id: generateId(),
                 title,
                 iconKey,
                 color,
                 type,
                 reminderTime: reminderTime ?? null,
+                notificationId: null,
+                ...scheduleToColumns(schedule),
+                // Counter habits count completions, not amounts
+                targetValue: counter ? null : measure?.target ?? null,
+                unit: counter ? null : measure?.unit ?? null,
+                counter,
+                freezesPerMonth,
                 archived: false,
+                archivedAt: null,
                 createdAt: new Date(),
             };
 
-            if (isWeb) {
-                // Web: Use in-memory storage
-                const { _webHabits } = get();
-                set({ _webHabits: [..._webHabits, newHabit] });
-            } else {
-                // Native: Use SQLite
-                const { getDb } = require('../db');
-                const { habits } = require('../db/schema');
+            await repository.insertHabit(newHabit);
 
-                const db = getDb();
-                await db.insert(habits).values(newHabit);
+            if (newHabit.reminderTime) {
+                await NotificationManager.rescheduleReminder(newHabit.id);
             }
 
             console.log(`[HabitStore] Added new habit: ${title}`);
@@ -250,25 +700,45 @@ export const useHabitStore = create<HabitStore>((set, get) => ({
         }
     },
 
+    /**
+     * Edit a habit's details, keeping its history.
+     * Reschedules or cancels the reminder if it changed.
+     */
+    updateHabit: async (habitId: string, updates: HabitUpdate) => {
+        try {
+            const previous = await repository.getHabit(habitId);
+            await repository.updateHabit(habitId, updates);
+            const updated = await repository.getHabit(habitId);
+
+            if (!updated) {
+                throw new Error(`Habit ${habitId} not found`);
+            }
+
+            // Reminder body includes the title, so a rename needs a reschedule too
+            if (previous?.reminderTime !== updated.reminderTime || previous?.title !== updated.title) {
+                await NotificationManager.rescheduleReminder(habitId);
+            }
+
+            console.log(`[HabitStore] Updated habit ${habitId}`);
+            await get().loadHabits();
+            set(state => ({ version: state.version + 1 }));
+        } catch (error) {
+            console.error('[HabitStore] Failed to update habit:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to update habit'
+            });
+        }
+    },
+
     /**
      * Archive a habit (soft delete - keeps historical data)
      */
     archiveHabit: async (habitId: string) => {
         try {
-            if (isWeb) {
-                const { _webHabits } = get();
-                const updatedHabits = _webHabits.map(h =>
-                    h.id === habitId ? { ...h, archived: true } : h
-                );
-                set({ _webHabits: updatedHabits });
-            } else {
-                const { getDb } = require('../db');
-                const { eq } = require('drizzle-orm');
-                const { habits } = require('../db/schema');
+            await repository.updateHabit(habitId, { archived: true, archivedAt: new Date() });
 
-                const db = getDb();
-                await db.update(habits).set({ archived: 1 }).where(eq(habits.id, habitId));
-            }
+            // Archived habits stay quiet
+            await NotificationManager.cancelReminder(habitId);
 
             console.log(`[HabitStore] Archived habit ${habitId}`);
             await get().loadHabits();
@@ -281,27 +751,35 @@ export const useHabitStore = create<HabitStore>((set, get) => ({
         }
     },
 
+    /**
+     * Restore an archived habit to the active list and bring back its reminder
+     */
+    unarchiveHabit: async (habitId: string) => {
+        try {
+            await repository.updateHabit(habitId, { archived: false, archivedAt: null });
+
+            await NotificationManager.rescheduleReminder(habitId);
+
+            console.log(`[HabitStore] Unarchived habit ${habitId}`);
+            await get().loadHabits();
+            set(state => ({ version: state.version + 1 }));
+        } catch (error) {
+            console.error('[HabitStore] Failed to unarchive habit:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to unarchive habit'
+            });
+        }
+    },
+
     /**
      * Permanently delete a habit and all its logs
      */
     deleteHabit: async (habitId: string) => {
         try {
-            if (isWeb) {
-                const { _webHabits, _webLogs } = get();
-                set({
-                    _webHabits: _webHabits.filter(h => h.id !== habitId),
-                    _webLogs: _webLogs.filter(l => l.habitId !== habitId),
-                });
-            } else {
-                const { getDb } = require('../db');
-                const { eq } = require('drizzle-orm');
-                const { habits, logs } = require('../db/schema');
-
-                const db = getDb();
-                // Explicitly delete logs first (safeguard against FKs being off)
-                await db.delete(logs).where(eq(logs.habitId, habitId));
-                await db.delete(habits).where(eq(habits.id, habitId));
-            }
+            // Cancel first, while the stored notification ID still exists
+            await NotificationManager.cancelReminder(habitId);
+
+            await repository.deleteHabit(habitId);
 
             console.log(`[HabitStore] Deleted habit ${habitId}`);
             await get().loadHabits();
@@ -314,83 +792,143 @@ export const useHabitStore = create<HabitStore>((set, get) => ({
         }
     },
 
+    /**
+     * Look up a single habit, archived or not
+     */
+    getHabit: async (habitId: string) => {
+        return repository.getHabit(habitId);
+    },
+
+    /**
+     * Get active habits that have a reminder time set
+     */
+    getHabitsWithReminders: async () => {
+        return (await repository.getHabits({ archived: false })).filter(h => h.reminderTime);
+    },
+
+    /**
+     * Remember (or forget) the scheduled reminder notification for a habit
+     */
+    setNotificationId: async (habitId: string, notificationId: string | null) => {
+        await repository.updateHabit(habitId, { notificationId });
+    },
+
+    /**
+     * Permanently delete every habit, log, pause and focus session
+     */
+    clearAllData: async () => {
+        try {
+            await repository.clearAll();
+
+            console.log('[HabitStore] Cleared all data');
+            await get().loadHabits();
+            set(state => ({ version: state.version + 1 }));
+        } catch (error) {
+            console.error('[HabitStore] Failed to clear data:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to clear data'
+            });
+            throw error;
+        }
+    },
+
+    /**
+     * Serialise every habit (including archived), every log, pause and focus session
+     */
+    exportBackup: async () => {
+        try {
+            const allHabits = await repository.getHabits();
+            const allLogs = await repository.getLogs();
+            const allPauses = await repository.getPauses();
+            const allFocusSessions = await repository.getFocusSessions();
+            return createBackup(allHabits, allLogs, allPauses, allFocusSessions);
+        } catch (error) {
+            console.error('[HabitStore] Failed to export backup:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to export backup'
+            });
+            throw error;
+        }
+    },
+
+    /**
+     * Restore a validated backup, merging it with existing data, and schedule its reminders
+     */
+    importBackup: async (backup: BackupDocument) => {
+        try {
+            const existingHabits = await repository.getHabits();
+            const existingLogs = await repository.getLogs();
+            const existingPauses = await repository.getPauses();
+            const existingFocusSessions = await repository.getFocusSessions();
+            const plan = planImport(existingHabits, existingLogs, backup, generateId, existingPauses, existingFocusSessions);
+
+            // All-or-nothing: a half-restored backup is worse than none
+            await repository.insertAll(plan);
+            const summary = plan.summary;
+
+            console.log(`[HabitStore] Imported ${summary.habitsAdded} habits and ${summary.logsAdded} logs`);
+            await get().loadHabits();
+            set(state => ({ version: state.version + 1 }));
+            // Imported habits and pauses change which reminders should exist
+            await NotificationManager.reconcileReminders();
+            return summary;
+        } catch (error) {
+            console.error('[HabitStore] Failed to import backup:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to import backup'
+            });
+            throw error;
+        }
+    },
+
     /**
      * Get habits with last 7 days sparkline data
      * Sparkline now includes: { hasLog: boolean, isBeforeCreation: boolean }
+     * hasLog means the day was completed (reached the target, for measurable habits)
+     * count is the number of completions that day (more than 1 only for counter habits)
+     * isSkipped means the day was excused, isPaused that vacation mode was on
+     * currentStreak covers the habit's whole history, not just the 7 days shown
      */
     getHabitsWithSparkline: async () => {
         try {
+            const pauses = await repository.getPauses();
             const today = new Date();
+            const todayKey = getDateKey(today);
             const last7Days = Array.from({ length: 7 }, (_, i) => {
                 const d = new Date(today);
                 d.setDate(d.getDate() - (6 - i));
-                const year = d.getFullYear();
-                const month = String(d.getMonth() + 1).padStart(2, '0');
-                const day = String(d.getDate()).padStart(2, '0');
-                return { dateKey: `${year}-${month}-${day}`, date: new Date(d) };
+                return { dateKey: getDateKey(d), date: new Date(d) };
             });
 
-            if (isWeb) {
-                const { _webHabits, _webLogs } = get();
-                return _webHabits
-                    .filter(h => !h.archived)
-                    .map(habit => {
-                        const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
-                        // Set createdAt to start of day for comparison
-                        const createdAtDay = createdAt ? new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate()) : null;
-
-                        const sparkline = last7Days.map(({ dateKey, date }) => {
-                            const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-                            const isBeforeCreation = createdAtDay ? dayStart < createdAtDay : false;
-                            const hasLog = _webLogs.some(l => l.habitId === habit.id && l.dateKey === dateKey);
-                            return { hasLog, isBeforeCreation };
-                        });
-
-                        const todayLog = _webLogs.find(l => l.habitId === habit.id && l.dateKey === getTodayDateKey());
-
-                        return {
-                            ...habit,
-                            isCompletedToday: !!todayLog,
-                            todayLogId: todayLog?.id ?? null,
-                            sparkline,
-                        };
-                    });
-            } else {
-                const { getDb } = require('../db');
-                const { eq } = require('drizzle-orm');
-                const { habits, logs } = require('../db/schema');
-                const db = getDb();
-
-                const activeHabits = await db
-                    .select()
-                    .from(habits)
-                    .where(eq(habits.archived, false));
-
-                const allLogs = await db.select().from(logs);
-
-                return activeHabits.map((habit: any) => {
-                    const habitLogs = allLogs.filter((l: any) => l.habitId === habit.id);
-                    const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
-                    const createdAtDay = createdAt ? new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate()) : null;
-
-                    const sparkline = last7Days.map(({ dateKey, date }) => {
-                        const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-                        const isBeforeCreation = createdAtDay ? dayStart < createdAtDay : false;
-                        const hasLog = habitLogs.some((l: any) => l.dateKey === dateKey);
-                        return { hasLog, isBeforeCreation };
-                    });
-
-                    const todayLog = habitLogs.find((l: any) => l.dateKey === getTodayDateKey());
-
-                    return {
-                        ...habit,
-                        isCompletedToday: !!todayLog,
-                        todayLogId: todayLog?.id ?? null,
-                        sparkline,
-                        color: habit.color || '#ffb347',
-                    };
+            const activeHabits = await repository.getHabits({ archived: false });
+            const allLogs = await repository.getLogs();
+
+            return activeHabits.map(habit => {
+                const habitLogs = allLogs.filter(l => l.habitId === habit.id);
+                const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
+                // Set createdAt to start of day for comparison
+                const createdAtDay = createdAt ? startOfDay(createdAt) : null;
+                const schedule = getHabitSchedule(habit);
+
+                const sparkline = last7Days.map(({ dateKey, date }) => {
+                    const dayStart = startOfDay(date);
+                    const isBeforeCreation = createdAtDay ? dayStart < createdAtDay : false;
+                    const isScheduled = isScheduledDay(schedule, dayStart, createdAtDay);
+                    const dayLogs = habitLogs.filter(l => l.dateKey === dateKey);
+                    const hasLog = dayLogs.some(l => isLogComplete(habit, l));
+                    const isSkipped = dayLogs.some(l => isSkippedLog(l));
+                    const isPaused = isPausedDay(pauses, dateKey);
+                    const count = dayLogs.length - (isSkipped ? 1 : 0);
+                    return { dateKey, hasLog, isSkipped, isPaused, count, isBeforeCreation, isScheduled };
                 });
-            }
+
+                return {
+                    ...withTodayStatus(habit, habitLogs.filter(l => l.dateKey === todayKey)),
+                    sparkline,
+                    currentStreak: getCurrentStreak(buildHabitHistory(habit, habitLogs, pauses), today),
+                    color: habit.color || '#ffb347',
+                };
+            });
         } catch (error) {
             console.error('[HabitStore] Failed to get sparkline data:', error);
             return [];
@@ -402,112 +940,120 @@ export const useHabitStore = create<HabitStore>((set, get) => ({
      */
     getHabitDetails: async (habitId: string) => {
         try {
-            let habitLogs: any[] = [];
-
-            if (isWeb) {
-                const { _webLogs } = get();
-                habitLogs = _webLogs.filter(l => l.habitId === habitId);
-            } else {
-                const { getDb } = require('../db');
-                const { eq } = require('drizzle-orm');
-                const { logs } = require('../db/schema');
-                const db = getDb();
-                habitLogs = await db.select().from(logs).where(eq(logs.habitId, habitId));
-            }
-
-            // Calculate Streak - Sort logs by date descending
-            const sortedLogs = [...habitLogs].sort((a, b) =>
-                new Date(b.dateKey).getTime() - new Date(a.dateKey).getTime()
-            );
-
-            let currentStreak = 0;
-            const todayKey = getTodayDateKey();
-            const yesterday = new Date();
-            yesterday.setDate(yesterday.getDate() - 1);
-            const yesterdayKey = `${yesterday.getFullYear()}-${String(yesterday.getMonth() + 1).padStart(2, '0')}-${String(yesterday.getDate()).padStart(2, '0')}`;
-
-            const completedToday = sortedLogs.some(l => l.dateKey === todayKey);
-            const completedYesterday = sortedLogs.some(l => l.dateKey === yesterdayKey);
-
-            if (completedToday || completedYesterday) {
-                let checkDate = new Date();
-                if (!completedToday) {
-                    checkDate.setDate(checkDate.getDate() - 1);
-                }
-
-                while (true) {
-                    const dateKey = `${checkDate.getFullYear()}-${String(checkDate.getMonth() + 1).padStart(2, '0')}-${String(checkDate.getDate()).padStart(2, '0')}`;
-                    const hasLog = sortedLogs.some(l => l.dateKey === dateKey);
+            // Looked up directly so archived habits get the right stats too
+            const habit = await repository.getHabit(habitId);
+            const allLogs = await repository.getLogs({ habitId });
+            const pauses = await repository.getPauses();
 
-                    if (hasLog) {
-                        currentStreak++;
-                        checkDate.setDate(checkDate.getDate() - 1);
-                    } else {
-                        break;
-                    }
-                }
-            }
+            // Measurable habits only count days that reached the target; skipped days never count
+            const habitLogs = allLogs.filter(l => habit ? isLogComplete(habit, l) : !isSkippedLog(l));
+            const partialLogs = allLogs.filter(l => habit && !isSkippedLog(l) && !isLogComplete(habit, l));
+            const skippedLogs = allLogs.filter(l => isSkippedLog(l));
 
-            // Get habit details for type and createdAt
-            const { habits } = get();
-            const habit = habits.find(h => h.id === habitId);
-            const isNegative = habit?.type === 'negative';
-            const createdAt = habit?.createdAt ? new Date(habit.createdAt) : null;
-            const createdAtStartOfDay = createdAt
-                ? new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate())
-                : null;
-
-            // Calculate Consistency Score
-            // Use min(30 days, days since creation) as the denominator
-            const today = new Date();
-            const todayStartOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-
-            let daysSinceCreation = 30; // Default to 30 if no createdAt
-            if (createdAtStartOfDay) {
-                daysSinceCreation = Math.floor((todayStartOfDay.getTime() - createdAtStartOfDay.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-            }
-            const periodDays = Math.min(30, Math.max(1, daysSinceCreation)); // At least 1 day
-
-            // Calculate start date for the period
-            const periodStart = new Date(todayStartOfDay);
-            periodStart.setDate(periodStart.getDate() - periodDays + 1);
-
-            // If habit is newer than 30 days, use creation date as start
-            const effectiveStart = createdAtStartOfDay && createdAtStartOfDay > periodStart
-                ? createdAtStartOfDay
-                : periodStart;
-
-            // Count logs in the period
-            const logsInPeriod = habitLogs.filter(l => {
-                const logDate = new Date(l.dateKey);
-                return logDate >= effectiveStart && logDate <= todayStartOfDay;
-            }).length;
-
-            let consistencyScore: number;
-            if (isNegative) {
-                // Negative habit: abstinence = days WITHOUT logs / total days
-                const daysWithoutLogs = periodDays - logsInPeriod;
-                consistencyScore = Math.round((daysWithoutLogs / periodDays) * 100);
-            } else {
-                // Positive habit: consistency = days WITH logs / total days
-                consistencyScore = Math.round((logsInPeriod / periodDays) * 100);
-            }
+            // Streaks and rates all come from the shared stats engine.
+            // An archived habit's stats stop on the day it was archived, so they stay as they were.
+            const today = habit?.archived && habit.archivedAt ? new Date(habit.archivedAt) : new Date();
+            const history = habit ? buildHabitHistory(habit, allLogs, pauses) : null;
 
             return {
                 logs: habitLogs,
-                currentStreak,
-                consistencyScore,
+                partialLogs,
+                skippedLogs,
+                currentStreak: history ? getCurrentStreak(history, today) : 0,
+                longestStreak: history ? getLongestStreak(history, today) : 0,
+                consistencyScore: history ? getConsistency(history, today, CONSISTENCY_DAYS) : 0,
                 totalCompletions: habitLogs.length,
+                rollingRates: history ? getRollingRates(history, today, TREND_DAYS) : [],
+                weekdayRates: history ? getWeekdayRates(history, today, WEEKDAY_RATE_DAYS) : Array(7).fill(null),
             };
 
         } catch (error) {
             console.error('[HabitStore] Failed to get habit details:', error);
             return {
                 logs: [],
+                partialLogs: [],
+                skippedLogs: [],
                 currentStreak: 0,
+                longestStreak: 0,
                 consistencyScore: 0,
                 totalCompletions: 0,
+                rollingRates: [],
+                weekdayRates: Array(7).fill(null),
             };
         }
     },
+
+    /**
+     * Get archived habits, most recently archived first
+     */
+    getArchivedHabits: async () => {
+        try {
+            const archived = await repository.getHabits({ archived: true });
+
+            return archived.sort((a, b) =>
+                new Date(b.archivedAt ?? 0).getTime() - new Date(a.archivedAt ?? 0).getTime()
+            );
+        } catch (error) {
+            console.error('[HabitStore] Failed to get archived habits:', error);
+            return [];
+        }
+    },
+
+    /**
+     * Get per-day completion counts for the `days` days ending on `endDateKey`
+     */
+    getHistoryData: async (endDateKey: string, days: number) => {
+        try {
+            const [year, month, day] = endDateKey.split('-').map(Number);
+            const endDate = new Date(year, month - 1, day);
+            const startDate = new Date(endDate);
+            startDate.setDate(startDate.getDate() - (days - 1));
+            const startDateKey = getDateKey(startDate);
+
+            const allHabits = await repository.getHabits();
+            const rangeLogs = await repository.getLogs({ fromDateKey: startDateKey, toDateKey: endDateKey });
+            const pauses = await repository.getPauses();
+
+            return buildHistoryDays(allHabits, rangeLogs, endDate, days, pauses);
+        } catch (error) {
+            console.error('[HabitStore] Failed to get history data:', error);
+            return [];
+        }
+    },
+
+    /**
+     * Get logs joined with their habit (including archived habits) for CSV export
+     */
+    getLogExportRows: async (filter: LogExportFilter = {}) => {
+        try {
+            const habitMap = new Map((await repository.getHabits()).map(h => [h.id, h]));
+            const rangeLogs = await repository.getLogs({ fromDateKey: filter.fromDateKey, toDateKey: filter.toDateKey });
+
+            return rangeLogs
+                .filter(l => habitMap.has(l.habitId) && matchesLogFilter(l.habitId, l.dateKey, filter))
+                .map(l => {
+                    const habit = habitMap.get(l.habitId)!;
+                    return {
+                        habitTitle: habit.title,
+                        habitType: habit.type,
+                        habitColor: habit.color,
+                        dateKey: l.dateKey,
+                        status: l.status,
+                        value: l.value,
+                        unit: habit.unit,
+                        mood: l.mood,
+                        note: l.note,
+                        completedAt: new Date(l.completedAt),
+                    };
+                });
+        } catch (error) {
+            console.error('[HabitStore] Failed to get export rows:', error);
+            set({
+                error: error instanceof Error ? error.message : 'Failed to export logs'
+            });
+            throw error;
+        }
+    },
 }));
+
+export const useHabitStore = createHabitStore(getRepository());
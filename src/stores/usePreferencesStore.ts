@@ -0,0 +1,36 @@
+/**
+ * Preferences Store
+ * 
+ * App-wide user preferences, persisted across launches.
+ * Currently holds the global notifications switch.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+interface PreferencesState {
+    // Reminders switch; null until the user flips it, meaning "on if the OS allows notifications"
+    notificationsEnabled: boolean | null;
+    setNotificationsEnabled: (enabled: boolean) => void;
+    resetPreferences: () => void;
+}
+
+// Preferences on a fresh install, and after Clear All Data
+export const DEFAULT_PREFERENCES: Pick<PreferencesState, 'notificationsEnabled'> = {
+    notificationsEnabled: null,
+};
+
+export const usePreferencesStore = create<PreferencesState>()(
+    persist(
+        (set) => ({
+            ...DEFAULT_PREFERENCES,
+            setNotificationsEnabled: (enabled: boolean) => set({ notificationsEnabled: enabled }),
+            resetPreferences: () => set(DEFAULT_PREFERENCES),
+        }),
+        {
+            name: 'preferences-storage',
+            storage: createJSONStorage(() => AsyncStorage),
+        }
+    )
+);
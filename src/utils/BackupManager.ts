@@ -0,0 +1,99 @@
+/**
+ * Backup Manager
+ *
+ * Moves backup files in and out of the app.
+ * Exports (JSON backup, CSV logs) are written to the cache directory and
+ * handed to the share sheet; import opens the document picker and restores
+ * through the habit store.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+
+import {
+    BackupError,
+    buildLogsCsv,
+    getTodayDateKey,
+    parseBackup,
+    type ImportSummary,
+    type LogExportFilter,
+} from '../db';
+import { useHabitStore } from '../stores';
+
+/**
+ * Write text to a cache file and open the share sheet for it
+ */
+const shareTextFile = async (fileName: string, contents: string, mimeType: string, UTI: string, dialogTitle: string) => {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new BackupError('Sharing is not available on this device.');
+    }
+
+    const file = new File(Paths.cache, fileName);
+    file.create({ overwrite: true });
+    file.write(contents);
+
+    await Sharing.shareAsync(file.uri, { mimeType, UTI, dialogTitle });
+};
+
+export const BackupManager = {
+    /**
+     * Export all habits and logs and hand the file to the share sheet
+     */
+    exportBackup: async (): Promise<void> => {
+        const backup = await useHabitStore.getState().exportBackup();
+
+        await shareTextFile(
+            `void-tracker-backup-${getTodayDateKey()}.json`,
+            JSON.stringify(backup, null, 2),
+            'application/json',
+            'public.json',
+            'Export Void Tracker backup'
+        );
+    },
+
+    /**
+     * Export completion logs as CSV, optionally filtered by date range and habit
+     */
+    exportLogsCsv: async (filter?: LogExportFilter): Promise<number> => {
+        const rows = await useHabitStore.getState().getLogExportRows(filter);
+
+        await shareTextFile(
+            `void-tracker-logs-${getTodayDateKey()}.csv`,
+            buildLogsCsv(rows),
+            'text/csv',
+            'public.comma-separated-values-text',
+            'Export completion logs'
+        );
+        return rows.length;
+    },
+
+    /**
+     * Let the user pick a backup file and restore it.
+     * Resolves to null if the picker was cancelled.
+     */
+    importBackup: async (): Promise<ImportSummary | null> => {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: ['application/json', 'text/plain'],
+            copyToCacheDirectory: true,
+        });
+
+        if (result.canceled) {
+            return null;
+        }
+
+        const asset = result.assets[0];
+        let contents: string;
+        try {
+            // Web hands back a browser File; native gives a file:// URI
+            contents = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+        } catch (e) {
+            console.warn('[BackupManager] Failed to read backup file:', e);
+            throw new BackupError('Could not read the selected file.');
+        }
+
+        const backup = parseBackup(contents);
+        // The store schedules reminders for the imported habits
+        return useHabitStore.getState().importBackup(backup);
+    },
+};
@@ -0,0 +1,123 @@
+/**
+ * Data Reset Manager
+ *
+ * Wipes every habit, log, focus session, scheduled reminder and preference.
+ * A snapshot is taken first and held in memory for a short undo window;
+ * once the window passes the snapshot is dropped and the wipe is final.
+ *
+ * A focus timer in progress keeps running (with its end alert), but loses its
+ * link to the deleted habit; undo links it again.
+ */
+
+import type { BackupDocument, FocusPreset, PomodoroSettings } from '../db';
+import type { FocusTimerMode } from '../stores/useFocusStore';
+import { useHabitStore, useFocusStore, useFocusSessionStore, usePreferencesStore } from '../stores';
+import { NotificationManager } from './NotificationManager';
+
+// How long the user has to undo a wipe
+export const UNDO_WINDOW_MS = 10_000;
+
+interface ResetSnapshot {
+    backup: BackupDocument;
+    soundEnabled: boolean;
+    timerMode: FocusTimerMode;
+    pomodoroSettings: PomodoroSettings;
+    customPresets: FocusPreset[];
+    // The running focus timer (by start time) and the habit it was linked to
+    focusSessionStartedAt: number | null;
+    focusHabitId: string | null;
+    notificationsEnabled: boolean | null;
+    expiresAt: number;
+}
+
+let snapshot: ResetSnapshot | null = null;
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const discardSnapshot = () => {
+    if (expiryTimer) {
+        clearTimeout(expiryTimer);
+        expiryTimer = null;
+    }
+    snapshot = null;
+};
+
+export const DataResetManager = {
+    /**
+     * Wipe all data. Resolves to the time (ms epoch) the undo window closes.
+     */
+    clearAllData: async (): Promise<number> => {
+        discardSnapshot();
+
+        // Snapshot before touching anything - if this fails, nothing is deleted
+        const backup = await useHabitStore.getState().exportBackup();
+        const { soundEnabled, timerMode, pomodoroSettings, customPresets, activeSession } = useFocusStore.getState();
+        const notificationsEnabled = usePreferencesStore.getState().notificationsEnabled;
+
+        await useHabitStore.getState().clearAllData();
+        await useFocusSessionStore.getState().loadSessions();
+        await NotificationManager.cancelAllReminders();
+        const runningSession = useFocusStore.getState().activeSession;
+        if (runningSession?.habitId) {
+            useFocusStore.setState({ activeSession: { ...runningSession, habitId: null } });
+        }
+        useFocusStore.getState().resetPreferences();
+        usePreferencesStore.getState().resetPreferences();
+
+        const expiresAt = Date.now() + UNDO_WINDOW_MS;
+        snapshot = {
+            backup,
+            soundEnabled,
+            timerMode,
+            pomodoroSettings,
+            customPresets,
+            focusSessionStartedAt: activeSession?.startedAt ?? null,
+            focusHabitId: activeSession?.habitId ?? null,
+            notificationsEnabled,
+            expiresAt,
+        };
+        expiryTimer = setTimeout(discardSnapshot, UNDO_WINDOW_MS);
+
+        console.log('[DataResetManager] All data cleared');
+        return expiresAt;
+    },
+
+    /**
+     * When the current undo window closes, or null if there's nothing to undo
+     */
+    getUndoExpiresAt: (): number | null =>
+        snapshot && Date.now() < snapshot.expiresAt ? snapshot.expiresAt : null,
+
+    /**
+     * Restore everything from the snapshot, including reminders
+     */
+    undoClear: async (): Promise<boolean> => {
+        if (!snapshot || Date.now() >= snapshot.expiresAt) {
+            return false;
+        }
+
+        const {
+            backup, soundEnabled, timerMode, pomodoroSettings, customPresets,
+            focusSessionStartedAt, focusHabitId, notificationsEnabled,
+        } = snapshot;
+        discardSnapshot();
+
+        await useHabitStore.getState().importBackup(backup);
+        await useFocusSessionStore.getState().loadSessions();
+        useFocusStore.getState().setSoundEnabled(soundEnabled);
+        useFocusStore.getState().setTimerMode(timerMode);
+        useFocusStore.getState().setPomodoroSettings(pomodoroSettings);
+        useFocusStore.setState({ customPresets });
+        // Relink the timer if it's still the one that was running
+        const { activeSession } = useFocusStore.getState();
+        if (activeSession && activeSession.startedAt === focusSessionStartedAt) {
+            useFocusStore.setState({ activeSession: { ...activeSession, habitId: focusHabitId } });
+        }
+        usePreferencesStore.setState({ notificationsEnabled });
+
+        // Bring back reminders for active habits
+        await NotificationManager.reconcileReminders();
+
+        console.log('[DataResetManager] Restored data from snapshot');
+        return true;
+    },
+};
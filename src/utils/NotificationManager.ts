@@ -6,15 +6,106 @@
  * 
  * Refactored to lazy-load 'expo-notifications' to prevent crashes on Android in Expo Go (SDK 53+),
  * where remote notification functionality is stripped out and can cause issues at import time.
+ *
+ * Habit reminders skip vacation pauses. A daily trigger can't skip days, so while a
+ * pause is running or coming up each reminder is scheduled as dated one-off
+ * notifications instead ("<habit id>@<date key>"): every day before the pause and
+ * a week after it (see getReminderDays). The next reconciliation once the pause is
+ * over puts the daily trigger back (every launch runs one).
+ *
+ * The focus timer's end alert is tagged separately ('focus-end'), so reconciliation leaves it alone.
  */
 
-import { Platform } from 'react-native';
+import { Platform, Linking } from 'react-native';
 import * as Device from 'expo-device';
 import Constants, { ExecutionEnvironment } from 'expo-constants';
 
+import { usePreferencesStore } from '../stores/usePreferencesStore';
+import { getReminderDays, getTodayDateKey, type Habit, type Pause } from '../db';
+
 // Lazy-loaded variable
 let Notifications: any = null;
 
+// The habit store imports this module, so it is required lazily to avoid a cycle
+const getHabitStore = () =>
+    (require('../stores/useHabitStore') as typeof import('../stores/useHabitStore')).useHabitStore.getState();
+
+// Tags habit reminders so they can be told apart from other scheduled notifications
+const REMINDER_KIND = 'habit-reminder';
+
+// The focus timer's end alert; there's only ever one, so it has a fixed identifier
+const FOCUS_END_KIND = 'focus-end';
+const FOCUS_END_ID = 'focus-session-end';
+
+const reminderBody = (title: string) => `Time to ${title}.`;
+
+// Dated reminders are scheduled one per day under their own identifiers
+const datedReminderId = (habitId: string, dateKey: string) => `${habitId}@${dateKey}`;
+
+interface PlannedReminder {
+    id: string;
+    // When a dated reminder fires; null for the repeating daily one
+    date: Date | null;
+}
+
+/**
+ * The reminders a habit should have scheduled now: one daily reminder, or with a
+ * pause running or coming up, one per unpaused day that's still ahead
+ */
+const planReminders = (habit: Habit, pauses: Pause[]): PlannedReminder[] => {
+    const [hour, minute] = (habit.reminderTime ?? '').split(':').map(Number);
+    const days = getReminderDays(pauses, getTodayDateKey());
+    if (!days) {
+        return [{ id: habit.notificationId ?? habit.id, date: null }];
+    }
+
+    const now = Date.now();
+    return days
+        .map(dateKey => {
+            const [year, month, day] = dateKey.split('-').map(Number);
+            return { id: datedReminderId(habit.id, dateKey), date: new Date(year, month - 1, day, hour, minute) };
+        })
+        .filter(reminder => reminder.date.getTime() > now);
+};
+
+/**
+ * Outcome of comparing scheduled reminders against the habits table
+ */
+export interface ReminderReconciliation {
+    checkedAt: Date;
+    // Reminders that exist now
+    active: number;
+    // Missing or out-of-date reminders that were (re)scheduled
+    scheduled: number;
+    // Orphaned reminders that were cancelled
+    cancelled: number;
+}
+
+let lastReconciliation: ReminderReconciliation | null = null;
+
+// OS permission state, or 'unavailable' where notifications can't be used at all
+export type NotificationPermissionStatus = 'granted' | 'denied' | 'undetermined' | 'unavailable';
+
+/**
+ * Whether a scheduled request still matches the habit's time and title.
+ * Daily triggers come back as { hour, minute } on Android and as
+ * calendar dateComponents on iOS, dated ones with their time (value or date);
+ * unknown shapes are trusted.
+ */
+const matchesHabit = (request: any, habit: { title: string; reminderTime: string | null }) => {
+    if (request.content?.body !== reminderBody(habit.title)) return false;
+
+    const trigger = request.trigger ?? {};
+    const firesAt = trigger.value ?? trigger.date;
+    const date = firesAt !== undefined ? new Date(firesAt) : null;
+    const hour = trigger.hour ?? trigger.dateComponents?.hour ?? date?.getHours();
+    const minute = trigger.minute ?? trigger.dateComponents?.minute ?? date?.getMinutes();
+    if (typeof hour !== 'number' || typeof minute !== 'number') return true;
+
+    const [habitHour, habitMinute] = (habit.reminderTime ?? '').split(':').map(Number);
+    return hour === habitHour && minute === habitMinute;
+};
+
 const getNotifications = () => {
     // Check for Expo Go on Android explicitly
     const isExpoGo = Constants.executionEnvironment === ExecutionEnvironment.StoreClient;
@@ -90,9 +181,71 @@ export const NotificationManager = {
         }
     },
 
+    /**
+     * Read the current OS permission status without prompting
+     */
+    getPermissionStatus: async (): Promise<NotificationPermissionStatus> => {
+        const notifs = getNotifications();
+        if (!notifs || !Device.isDevice) return 'unavailable';
+
+        try {
+            const { status } = await notifs.getPermissionsAsync();
+            return status;
+        } catch (e) {
+            console.warn('Failed to read notification permissions:', e);
+            return 'unavailable';
+        }
+    },
+
+    /**
+     * Whether the global switch is on. Until the user flips it, that follows the OS
+     * permission, so nothing is scheduled on a fresh install that hasn't been asked yet.
+     */
+    areRemindersEnabled: async (): Promise<boolean> => {
+        const enabled = usePreferencesStore.getState().notificationsEnabled;
+        return enabled ?? (await NotificationManager.getPermissionStatus()) === 'granted';
+    },
+
+    /**
+     * Open this app's page in the system settings (to re-allow notifications)
+     */
+    openSystemSettings: async () => {
+        try {
+            await Linking.openSettings();
+        } catch (e) {
+            console.warn('Failed to open system settings:', e);
+        }
+    },
+
+    /**
+     * Turn habit reminders on or off globally.
+     * Turning on asks for permission first and restores every reminder from its habit;
+     * turning off cancels them all.
+     * @returns false if permission was refused (the switch stays off)
+     */
+    setRemindersEnabled: async (enabled: boolean) => {
+        if (enabled && !(await NotificationManager.requestPermissions())) {
+            return false;
+        }
+
+        usePreferencesStore.getState().setNotificationsEnabled(enabled);
+
+        if (!enabled) {
+            const habits = await getHabitStore().getHabitsWithReminders();
+            for (const habit of habits) {
+                await NotificationManager.cancelReminder(habit.id);
+            }
+        }
+
+        // Schedules everything when on, sweeps up leftovers when off
+        await NotificationManager.reconcileReminders();
+        return true;
+    },
+
     /**
      * Schedule a daily reminder
-     * @param id Unique identifier for the notification reference
+     * Scheduling again with the same id replaces the existing reminder.
+     * @param id Unique identifier for the notification reference (habit reminders use the habit ID)
      * @param title Notification title
      * @param body Notification body
      * @param hour Hour (0-23)
@@ -111,10 +264,12 @@ export const NotificationManager = {
             };
 
             const notificationId = await notifs.scheduleNotificationAsync({
+                identifier: id,
                 content: {
                     title,
                     body,
                     sound: 'default',
+                    data: { kind: REMINDER_KIND },
                 },
                 trigger,
             });
@@ -126,6 +281,233 @@ export const NotificationManager = {
         }
     },
 
+    /**
+     * Schedule a reminder that fires once, on a given day and time
+     * Scheduling again with the same id replaces the existing reminder.
+     * @returns The notification ID, or null if it couldn't be scheduled
+     */
+    scheduleDatedReminder: async (id: string, title: string, body: string, date: Date) => {
+        const notifs = getNotifications();
+        if (!notifs) return null;
+
+        try {
+            return await notifs.scheduleNotificationAsync({
+                identifier: id,
+                content: {
+                    title,
+                    body,
+                    sound: 'default',
+                    data: { kind: REMINDER_KIND },
+                },
+                trigger: {
+                    type: notifs.SchedulableTriggerInputTypes.DATE,
+                    date,
+                },
+            });
+        } catch (e) {
+            console.warn('Failed to schedule notification:', e);
+            return null;
+        }
+    },
+
+    /**
+     * Cancel a habit's reminders (daily or dated) and clear its stored notification ID
+     * @param habitId The habit whose reminder should stop
+     */
+    cancelReminder: async (habitId: string) => {
+        const store = getHabitStore();
+        const habit = await store.getHabit(habitId);
+        const notifs = getNotifications();
+
+        if (notifs) {
+            try {
+                // Reminders are scheduled under the habit ID, so it works as a fallback
+                await notifs.cancelScheduledNotificationAsync(habit?.notificationId ?? habitId);
+
+                const requests = await notifs.getAllScheduledNotificationsAsync();
+                for (const request of requests) {
+                    if (request.identifier.startsWith(datedReminderId(habitId, ''))) {
+                        await notifs.cancelScheduledNotificationAsync(request.identifier);
+                    }
+                }
+            } catch (e) {
+                console.warn('Failed to cancel notification:', e);
+            }
+        }
+
+        if (habit?.notificationId) {
+            await store.setNotificationId(habitId, null);
+        }
+    },
+
+    /**
+     * Replace a habit's reminder so it matches the habit's current title and time,
+     * skipping paused days. Cancels it instead if the habit has no reminder time,
+     * is archived or notifications are switched off.
+     * @param habitId The habit to reschedule
+     * @returns The new (first) notification ID, or null if nothing was scheduled
+     */
+    rescheduleReminder: async (habitId: string) => {
+        await NotificationManager.cancelReminder(habitId);
+        if (!(await NotificationManager.areRemindersEnabled())) return null;
+
+        const store = getHabitStore();
+        const habit = await store.getHabit(habitId);
+        if (!habit || habit.archived || !habit.reminderTime) return null;
+
+        const [hours, minutes] = habit.reminderTime.split(':').map(Number);
+        const planned = planReminders({ ...habit, notificationId: null }, await store.getPauses());
+        let firstId: string | null = null;
+
+        for (const reminder of planned) {
+            const notificationId = reminder.date
+                ? await NotificationManager.scheduleDatedReminder(reminder.id, "Time for the Void", reminderBody(habit.title), reminder.date)
+                : await NotificationManager.scheduleDailyReminder(reminder.id, "Time for the Void", reminderBody(habit.title), hours, minutes);
+            firstId ??= notificationId;
+        }
+
+        // Only the daily reminder has a single ID worth keeping
+        if (firstId && planned.length === 1 && !planned[0].date) {
+            await store.setNotificationId(habitId, firstId);
+        }
+        return firstId;
+    },
+
+    /**
+     * Bring scheduled reminders in line with the habits table:
+     * schedule missing or stale ones, cancel ones with no active habit.
+     * @returns The outcome, or null if notifications are unavailable
+     */
+    reconcileReminders: async (): Promise<ReminderReconciliation | null> => {
+        const notifs = getNotifications();
+        if (!notifs) return null;
+
+        try {
+            const requests = await notifs.getAllScheduledNotificationsAsync();
+            // With notifications switched off, every habit reminder is an orphan
+            const habits = await NotificationManager.areRemindersEnabled()
+                ? await getHabitStore().getHabitsWithReminders()
+                : [];
+            const pauses = await getHabitStore().getPauses();
+            const plannedIds = new Map(habits.map(h => [h.id, planReminders(h, pauses).map(r => r.id)]));
+            const habitsByNotificationId = new Map(
+                habits.flatMap(h => plannedIds.get(h.id)!.map(id => [id, h] as const))
+            );
+            const upToDateIds = new Set<string>();
+            let cancelled = 0;
+
+            for (const request of requests) {
+                const habit = habitsByNotificationId.get(request.identifier);
+                if (habit) {
+                    if (matchesHabit(request, habit)) {
+                        upToDateIds.add(request.identifier);
+                    }
+                    continue;
+                }
+
+                // Untagged requests come from older builds, which only scheduled habit reminders
+                const kind = request.content?.data?.kind;
+                if (kind === undefined || kind === REMINDER_KIND) {
+                    await notifs.cancelScheduledNotificationAsync(request.identifier);
+                    cancelled++;
+                }
+            }
+
+            // A habit is up to date when every reminder it should have is scheduled as it should be
+            let upToDate = 0;
+            let scheduled = 0;
+            for (const habit of habits) {
+                if (plannedIds.get(habit.id)!.every(id => upToDateIds.has(id))) {
+                    upToDate++;
+                } else if (await NotificationManager.rescheduleReminder(habit.id)) {
+                    scheduled++;
+                }
+            }
+
+            lastReconciliation = {
+                checkedAt: new Date(),
+                active: upToDate + scheduled,
+                scheduled,
+                cancelled,
+            };
+            console.log(`[NotificationManager] Reminders reconciled: ${scheduled} scheduled, ${cancelled} cancelled`);
+            return lastReconciliation;
+        } catch (e) {
+            console.warn('Failed to reconcile reminders:', e);
+            return null;
+        }
+    },
+
+    /**
+     * Announce the end of the focus timer, or of a Pomodoro phase. Replaces any earlier end alert.
+     * Not a habit reminder, so reconciliation leaves it alone.
+     * @param endsAt When the timer (or phase) runs out
+     * @param message Title and body, if not the usual "Focus complete"
+     */
+    scheduleFocusEnd: async (endsAt: Date, message?: { title: string; body: string }) => {
+        const notifs = getNotifications();
+        if (!notifs) return null;
+
+        try {
+            return await notifs.scheduleNotificationAsync({
+                identifier: FOCUS_END_ID,
+                content: {
+                    title: message?.title ?? 'Focus complete',
+                    body: message?.body ?? 'The Void is proud of you. Take a breath.',
+                    sound: 'default',
+                    data: { kind: FOCUS_END_KIND },
+                },
+                trigger: {
+                    type: notifs.SchedulableTriggerInputTypes.DATE,
+                    date: endsAt,
+                },
+            });
+        } catch (e) {
+            console.warn('Failed to schedule focus end notification:', e);
+            return null;
+        }
+    },
+
+    /**
+     * Cancel the focus timer's end alert (paused, stopped or finished in the app)
+     */
+    cancelFocusEnd: async () => {
+        const notifs = getNotifications();
+        if (!notifs) return;
+
+        try {
+            await notifs.cancelScheduledNotificationAsync(FOCUS_END_ID);
+        } catch (e) {
+            console.warn('Failed to cancel focus end notification:', e);
+        }
+    },
+
+    /**
+     * Result of the most recent reconciliation, or null if none has run
+     */
+    getLastReconciliation: () => lastReconciliation,
+
+    /**
+     * Cancel every habit reminder, leaving other alerts (the focus timer's end) in place
+     */
+    cancelAllReminders: async () => {
+        const notifs = getNotifications();
+        if (!notifs) return;
+
+        try {
+            const requests = await notifs.getAllScheduledNotificationsAsync();
+            for (const request of requests) {
+                // Untagged requests come from older builds, which only scheduled habit reminders
+                const kind = request.content?.data?.kind;
+                if (kind === undefined || kind === REMINDER_KIND) {
+                    await notifs.cancelScheduledNotificationAsync(request.identifier);
+                }
+            }
+        } catch (e) {
+            console.warn('Failed to cancel reminders:', e);
+        }
+    },
+
     /**
      * Cancel all notifications (debugging/reset)
      */
@@ -0,0 +1,101 @@
+/**
+ * Habit reminders around vacation pauses
+ *
+ * expo-notifications is replaced by an in-memory scheduler and the habit store
+ * by a fixed set of habits and pauses. Tests run in Europe/Berlin (see jest.global-setup.js).
+ */
+
+import { NotificationManager } from '../NotificationManager';
+import { usePreferencesStore } from '../../stores/usePreferencesStore';
+
+const mockScheduled = new Map<string, { identifier: string; content: any; trigger: any }>();
+
+jest.mock('expo-notifications', () => ({
+    setNotificationHandler: jest.fn(),
+    getPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+    SchedulableTriggerInputTypes: { DAILY: 'daily', DATE: 'date' },
+    scheduleNotificationAsync: jest.fn(async ({ identifier, content, trigger }) => {
+        // Dated triggers come back with their time as `value`, like on Android
+        const stored = trigger.type === 'date' ? { type: 'date', value: trigger.date.getTime() } : trigger;
+        mockScheduled.set(identifier, { identifier, content, trigger: stored });
+        return identifier;
+    }),
+    cancelScheduledNotificationAsync: jest.fn(async (identifier: string) => {
+        mockScheduled.delete(identifier);
+    }),
+    getAllScheduledNotificationsAsync: jest.fn(async () => [...mockScheduled.values()]),
+}));
+
+jest.mock('expo-device', () => ({ isDevice: true }));
+
+const mockHabits: Array<{ id: string; title: string; reminderTime: string | null; notificationId: string | null; archived: boolean }> = [];
+const mockPauses: Array<{ id: string; startDateKey: string; endDateKey: string }> = [];
+
+jest.mock('../../stores/useHabitStore', () => ({
+    useHabitStore: {
+        getState: () => ({
+            getHabit: async (id: string) => mockHabits.find(h => h.id === id),
+            getHabitsWithReminders: async () => mockHabits.filter(h => h.reminderTime && !h.archived),
+            getPauses: async () => mockPauses,
+            setNotificationId: async (id: string, notificationId: string | null) => {
+                const habit = mockHabits.find(h => h.id === id);
+                if (habit) habit.notificationId = notificationId;
+            },
+        }),
+    },
+}));
+
+const scheduledIds = () => [...mockScheduled.keys()].sort();
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 2, 10, 8) });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockScheduled.clear();
+    mockHabits.length = 0;
+    mockPauses.length = 0;
+    mockHabits.push({ id: 'read', title: 'Read', reminderTime: '09:00', notificationId: null, archived: false });
+    usePreferencesStore.setState({ notificationsEnabled: true });
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe('reminders and vacation pauses', () => {
+    it('keeps one daily reminder with no pause ahead', async () => {
+        await NotificationManager.reconcileReminders();
+        expect(scheduledIds()).toEqual(['read']);
+        expect(mockScheduled.get('read')?.trigger).toMatchObject({ type: 'daily', hour: 9, minute: 0 });
+
+        // Nothing to do the second time
+        expect(await NotificationManager.reconcileReminders()).toMatchObject({ active: 1, scheduled: 0, cancelled: 0 });
+    });
+
+    it('skips the days of a pause that starts tomorrow', async () => {
+        await NotificationManager.reconcileReminders();
+        mockPauses.push({ id: 'trip', startDateKey: '2025-03-11', endDateKey: '2025-03-13' });
+
+        await NotificationManager.reconcileReminders();
+
+        // Today, then a week from the day after the pause; no daily trigger left to fire during it
+        expect(scheduledIds()).toEqual([
+            'read@2025-03-10',
+            'read@2025-03-14', 'read@2025-03-15', 'read@2025-03-16', 'read@2025-03-17',
+            'read@2025-03-18', 'read@2025-03-19', 'read@2025-03-20',
+        ]);
+        expect(new Date(mockScheduled.get('read@2025-03-14')!.trigger.value)).toEqual(new Date(2025, 2, 14, 9));
+        expect(await NotificationManager.reconcileReminders()).toMatchObject({ active: 1, scheduled: 0 });
+    });
+
+    it('puts the daily reminder back once the pause is over', async () => {
+        mockPauses.push({ id: 'trip', startDateKey: '2025-03-11', endDateKey: '2025-03-13' });
+        await NotificationManager.reconcileReminders();
+
+        jest.setSystemTime(new Date(2025, 2, 14, 8));
+        mockPauses.length = 0;
+        await NotificationManager.reconcileReminders();
+
+        expect(scheduledIds()).toEqual(['read']);
+    });
+});